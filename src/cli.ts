@@ -10,21 +10,34 @@
  *   match   - Find matches between two point sets
  *   merge   - Merge multiple map files into one
  *   stats   - Show statistics about points
+ *   tracks  - List GPX tracks and routes with statistics
  *   compare - Compare two names and show match details
  */
 
 import { Command } from 'commander';
 import * as fs from 'fs';
 import * as path from 'path';
-import ora from 'ora';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import ora, { type Ora } from 'ora';
 
 import {
   parseMapFile,
   parseMapFiles,
+  detectFileType,
   mergeParseResults,
+  getFileType,
   getSupportedExtensions,
+  getSupportedFormats,
+  parseTimestamp,
+  filterPointsByTime,
+  getPointTimes,
   type ParsedMapPoint,
   type ParsedMapResult,
+  type ParseOptions,
+  type SupportedFormat,
+  type MapGeometry,
+  type PointSource,
 } from './parser.js';
 
 import {
@@ -48,9 +61,20 @@ import {
   combinedFuzzyMatch,
 } from './token-set-ratio.js';
 
+import {
+  parseMapFileStream,
+  parseMapFileStreamed,
+  shouldStreamFile,
+} from './stream-parser.js';
+
 import { autoSyncWithMessage } from './auto-sync.js';
+import { resolveEncoding } from './encoding.js';
+import { writeCSV, writeCSVHeader, writeCSVRow, escapeCSV, formatPointSources } from './csv-writer.js';
+import { writeGPX } from './gpx-writer.js';
+import { writeKMZ, readKMZIcons, type KMZIconArchive } from './kmz-writer.js';
+import { writeKML, KML_FOLDER_KEYS, type KMLFolderKey } from './kml-writer.js';
 
-import { haversineDistance } from './geo-utils.js';
+import { haversineDistance, type TrackStats } from './geo-utils.js';
 
 // ============================================================================
 // VERSION
@@ -62,21 +86,110 @@ const VERSION = '0.1.0';
 // OUTPUT FORMATTERS
 // ============================================================================
 
-type OutputFormat = 'json' | 'geojson' | 'csv' | 'table' | 'kml' | 'gpx';
+type OutputFormat = 'json' | 'geojson' | 'geojsonseq' | 'ndjson' | 'csv' | 'table' | 'kml' | 'kmz' | 'gpx';
+
+/** Formats with one JSON record per line, written as they are generated */
+type LineOutputFormat = Extract<OutputFormat, 'geojsonseq' | 'ndjson'>;
+
+function isLineOutputFormat(format: OutputFormat): format is LineOutputFormat {
+  return format === 'geojsonseq' || format === 'ndjson';
+}
+
+/**
+ * Whether points can be written one at a time: line-delimited records, and
+ * CSV when its columns are given (the default ones depend on every point)
+ */
+function isStreamableOutput(format: OutputFormat, outputOptions: OutputOptions): boolean {
+  return isLineOutputFormat(format) || (format === 'csv' && outputOptions.columns !== undefined);
+}
 
-function escapeXML(str: string): string {
-  return str
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&apos;');
+/**
+ * Full geometry of a point, falling back to its representative coordinate
+ */
+function getPointGeometry(p: ParsedMapPoint): MapGeometry {
+  return p.geometry ?? { type: 'Point', coordinates: [p.lng, p.lat] };
+}
+
+/**
+ * GeoJSON Feature for a point (geojson and geojsonseq output)
+ */
+function toGeoJSONFeature(p: ParsedMapPoint): object {
+  return {
+    type: 'Feature',
+    geometry: getPointGeometry(p),
+    properties: {
+      name: p.name,
+      description: p.description,
+      state: p.state,
+      category: p.category,
+      ...getPointTimes(p),
+      ...p.rawMetadata,
+      ...(p.sources ? { sources: p.sources } : {}),
+    },
+  };
+}
+
+/**
+ * Format-specific output settings
+ */
+interface OutputOptions {
+  /** CSV: add a `wkt` column with each point's geometry */
+  wkt?: boolean;
+  /** CSV: columns to write, in order */
+  columns?: string[];
+  /** CSV: start with a UTF-8 byte order mark */
+  bom?: boolean;
+  /** KML/KMZ: group placemarks into folders */
+  kmlFolders?: KMLFolderKey;
+  /** KMZ: directories searched for relative icon hrefs (those of the input files) */
+  iconDirs?: string[];
+  /** KMZ: icons bundled in input KMZ archives, by input file name */
+  iconArchives?: Map<string, KMZIconArchive>;
+}
+
+/**
+ * Build output settings from the shared output options
+ */
+async function getOutputOptions(options: Record<string, unknown>, files: string[]): Promise<OutputOptions> {
+  const kmlFolders = options.kmlFolders as KMLFolderKey | undefined;
+  if (kmlFolders !== undefined && !KML_FOLDER_KEYS.includes(kmlFolders)) {
+    throw new Error(`Invalid --kml-folders key: ${kmlFolders} (expected ${KML_FOLDER_KEYS.join(', ')})`);
+  }
+  let columns: string[] | undefined;
+  if (options.columns !== undefined) {
+    columns = String(options.columns).split(',').map(column => column.trim()).filter(Boolean);
+    if (columns.length === 0) throw new Error(`Invalid --columns list: ${options.columns}`);
+  }
+  const iconDirs = [...new Set(files.map(file => path.dirname(path.resolve(file))))];
+  const iconArchives = new Map<string, KMZIconArchive>();
+  if (options.format === 'kmz') {
+    for (const file of files) {
+      if (await detectFileType(file) === 'kmz') iconArchives.set(path.basename(file), await readKMZIcons(file));
+    }
+  }
+  return {
+    wkt: options.wkt as boolean | undefined,
+    columns,
+    bom: options.bom as boolean | undefined,
+    kmlFolders,
+    iconDirs,
+    iconArchives,
+  };
+}
+
+/**
+ * Print formatted output to stdout; binary formats (KMZ) are written as-is
+ */
+function printOutput(output: string | Buffer): void {
+  if (typeof output === 'string') console.log(output);
+  else process.stdout.write(output);
 }
 
 function formatOutput(
   points: ParsedMapPoint[],
-  format: OutputFormat
-): string {
+  format: OutputFormat,
+  outputOptions: OutputOptions = {}
+): string | Buffer {
   switch (format) {
     case 'json':
       return JSON.stringify(points, null, 2);
@@ -84,34 +197,15 @@ function formatOutput(
     case 'geojson':
       return JSON.stringify({
         type: 'FeatureCollection',
-        features: points.map(p => ({
-          type: 'Feature',
-          geometry: {
-            type: 'Point',
-            coordinates: [p.lng, p.lat],
-          },
-          properties: {
-            name: p.name,
-            description: p.description,
-            state: p.state,
-            category: p.category,
-            ...p.rawMetadata,
-          },
-        })),
+        features: points.map(toGeoJSONFeature),
       }, null, 2);
 
-    case 'csv': {
-      const headers = ['name', 'lat', 'lng', 'state', 'category', 'description'];
-      const rows = points.map(p => [
-        escapeCSV(p.name || ''),
-        p.lat.toString(),
-        p.lng.toString(),
-        escapeCSV(p.state || ''),
-        escapeCSV(p.category || ''),
-        escapeCSV(p.description || ''),
-      ].join(','));
-      return [headers.join(','), ...rows].join('\n');
-    }
+    case 'geojsonseq':
+    case 'ndjson':
+      return points.map(p => formatLineRecord(p, format)).join('\n');
+
+    case 'csv':
+      return writeCSV(points, { wkt: outputOptions.wkt, columns: outputOptions.columns, bom: outputOptions.bom });
 
     case 'table': {
       const maxNameLen = Math.min(40, Math.max(...points.map(p => (p.name || '').length), 4));
@@ -127,102 +221,374 @@ function formatOutput(
       return [header, separator, ...rows].join('\n');
     }
 
-    case 'kml': {
-      const placemarks = points.map(p => {
-        const name = p.name ? `<name>${escapeXML(p.name)}</name>` : '';
-        const desc = p.description ? `<description>${escapeXML(p.description)}</description>` : '';
-        const style = p.category ? `<styleUrl>#${escapeXML(p.category)}</styleUrl>` : '';
-        return `    <Placemark>
-      ${name}
-      ${desc}
-      ${style}
-      <Point>
-        <coordinates>${p.lng},${p.lat},0</coordinates>
-      </Point>
-    </Placemark>`;
-      }).join('\n');
-
-      return `<?xml version="1.0" encoding="UTF-8"?>
-<kml xmlns="http://www.opengis.net/kml/2.2">
-  <Document>
-    <name>Exported Points</name>
-${placemarks}
-  </Document>
-</kml>`;
-    }
+    case 'kml':
+      return writeKML(points, { folderBy: outputOptions.kmlFolders });
 
-    case 'gpx': {
-      const waypoints = points.map(p => {
-        const name = p.name ? `<name>${escapeXML(p.name)}</name>` : '';
-        const desc = p.description ? `<desc>${escapeXML(p.description)}</desc>` : '';
-        const type = p.category ? `<type>${escapeXML(p.category)}</type>` : '';
-        return `  <wpt lat="${p.lat}" lon="${p.lng}">
-    ${name}
-    ${desc}
-    ${type}
-  </wpt>`;
-      }).join('\n');
-
-      return `<?xml version="1.0" encoding="UTF-8"?>
-<gpx version="1.1" creator="mapsh-pit" xmlns="http://www.topografix.com/GPX/1/1">
-  <metadata>
-    <name>Exported Points</name>
-    <time>${new Date().toISOString()}</time>
-  </metadata>
-${waypoints}
-</gpx>`;
-    }
+    case 'kmz':
+      return writeKMZ(points, {
+        folderBy: outputOptions.kmlFolders,
+        iconDirs: outputOptions.iconDirs,
+        iconArchives: outputOptions.iconArchives,
+      });
+
+    case 'gpx':
+      return writeGPX(points);
 
     default:
       return JSON.stringify(points, null, 2);
   }
 }
 
-function escapeCSV(str: string): string {
-  if (str.includes(',') || str.includes('"') || str.includes('\n')) {
-    return `"${str.replace(/"/g, '""')}"`;
+/**
+ * Record of a line-delimited format, one JSON text per point: a GeoJSON
+ * Feature (geojsonseq) or the point itself (ndjson)
+ */
+function formatLineRecord(p: ParsedMapPoint, format: LineOutputFormat): string {
+  return JSON.stringify(format === 'geojsonseq' ? toGeoJSONFeature(p) : p);
+}
+
+/**
+ * Output lines of a streamable format (see isStreamableOutput), generated
+ * as the points arrive
+ */
+async function* formatOutputLines(
+  points: Iterable<ParsedMapPoint> | AsyncIterable<ParsedMapPoint>,
+  format: OutputFormat,
+  outputOptions: OutputOptions
+): AsyncGenerator<string> {
+  if (isLineOutputFormat(format)) {
+    for await (const p of points) yield formatLineRecord(p, format);
+    return;
+  }
+  const columns = outputOptions.columns ?? [];
+  yield writeCSVHeader(columns, outputOptions.bom);
+  for await (const p of points) yield writeCSVRow(p, columns);
+}
+
+/**
+ * Pipe output lines to a file or stdout one at a time
+ */
+async function writeOutputLines(lines: AsyncIterable<string>, file?: string): Promise<void> {
+  const stream = Readable.from((async function* () {
+    for await (const line of lines) yield `${line}\n`;
+  })());
+  try {
+    // stdout stays open for later messages
+    await (file ? pipeline(stream, fs.createWriteStream(file)) : pipeline(stream, process.stdout, { end: false }));
+  } catch (error) {
+    // The reader closed the pipe early (e.g. `| head`)
+    if (!file && (error as NodeJS.ErrnoException).code === 'EPIPE') return;
+    throw error;
+  }
+}
+
+/**
+ * Write formatted points to a file or stdout. Line-delimited formats are
+ * piped one record at a time instead of being built as a single string.
+ */
+async function writeOutput(
+  points: ParsedMapPoint[],
+  format: OutputFormat,
+  outputOptions: OutputOptions,
+  file?: string
+): Promise<void> {
+  if (isLineOutputFormat(format)) {
+    await writeOutputLines(formatOutputLines(points, format, outputOptions), file);
+    return;
+  }
+
+  const output = formatOutput(points, format, outputOptions);
+  if (file) fs.writeFileSync(file, output);
+  else printOutput(output);
+}
+
+// ============================================================================
+// INPUT
+// ============================================================================
+
+/**
+ * Add the input-parsing options shared by all file-reading commands
+ */
+function withInputOptions(command: Command): Command {
+  return command
+    .option('--lat-col <column>', 'CSV latitude column (header name or 1-based number)')
+    .option('--lng-col <column>', 'CSV longitude column (header name or 1-based number)')
+    .option('--coords-col <column>', 'CSV column holding both coordinates (decimal pair, DMS, UTM or MGRS)')
+    .option('--geometry-col <column>', 'CSV geometry column (WKT, EWKT, hex WKB or GeoJSON)')
+    .option('--name-col <column>', 'CSV name column')
+    .option('--desc-col <column>', 'CSV description column')
+    .option('--category-col <column>', 'CSV category column')
+    .option('--delimiter <char>', 'CSV delimiter (default: auto-detect; "tab" for tabs)')
+    .option('--no-header', 'CSV has no header row (use column numbers)')
+    .option('--sheet <sheet>', 'XLSX sheet name or 1-based number (default: all sheets)')
+    .option('--osm-filter <expr>', 'OSM tag filter, e.g. "historic=ruins|abandoned:*|railway=abandoned"')
+    .option('--encoding <name>', 'Text encoding of the inputs, e.g. windows-1252, utf-16le (default: detect)')
+    .option('--input-format <format>', `Input format for all files: ${getSupportedFormats().join(', ')} (default: detect from content)`);
+}
+
+/**
+ * Build parser options from the shared input options
+ */
+function getParseOptions(options: Record<string, unknown>): ParseOptions {
+  const inputFormat = options.inputFormat as SupportedFormat | undefined;
+  if (inputFormat !== undefined && !getSupportedFormats().includes(inputFormat)) {
+    throw new Error(`Invalid input format: ${inputFormat} (expected ${getSupportedFormats().join(', ')})`);
+  }
+  const encoding = options.encoding ? resolveEncoding(options.encoding as string) : undefined;
+
+  return {
+    csv: {
+      latColumn: options.latCol as string | undefined,
+      lngColumn: options.lngCol as string | undefined,
+      coordsColumn: options.coordsCol as string | undefined,
+      geometryColumn: options.geometryCol as string | undefined,
+      nameColumn: options.nameCol as string | undefined,
+      descColumn: options.descCol as string | undefined,
+      categoryColumn: options.categoryCol as string | undefined,
+      delimiter: options.delimiter as string | undefined,
+      hasHeader: options.header !== false,
+    },
+    xlsx: {
+      sheet: options.sheet as string | undefined,
+    },
+    osm: {
+      filter: options.osmFilter as string | undefined,
+    },
+    inputFormat,
+    encoding,
+  };
+}
+
+/**
+ * Resolve input arguments to file paths. A directory stands for the
+ * photos (.jpg, .jpeg, .heic, .heif) directly inside it.
+ */
+function expandInputPaths(files: string[]): string[] {
+  return files.flatMap(f => {
+    const resolved = path.resolve(f);
+    if (!fs.statSync(resolved, { throwIfNoEntry: false })?.isDirectory()) return [resolved];
+
+    const photos = fs.readdirSync(resolved)
+      .filter(name => !name.startsWith('.') && getFileType(name) === 'photo')
+      .sort()
+      .map(name => path.join(resolved, name));
+    if (photos.length === 0) {
+      throw new Error(`No photos found in directory: ${f}`);
+    }
+    return photos;
+  });
+}
+
+/**
+ * Parse input files, using the streaming parser for large files (or all
+ * files when forced). Streamed files are read one after another so only
+ * one file is in flight at a time.
+ */
+async function parseInputFiles(
+  files: string[],
+  parseOptions: ParseOptions,
+  forceStream: boolean = false
+): Promise<ParsedMapResult[]> {
+  const filePaths = expandInputPaths(files);
+  const streamed = filePaths.filter(f => forceStream || shouldStreamFile(f));
+  if (streamed.length === 0) {
+    return parseMapFiles(filePaths, parseOptions);
+  }
+
+  const results: ParsedMapResult[] = [];
+  for (const filePath of filePaths) {
+    results.push(streamed.includes(filePath)
+      ? await parseMapFileStreamed(filePath, parseOptions)
+      : await parseMapFile(filePath, parseOptions));
+  }
+  return results;
+}
+
+/**
+ * Parse input files as one stream of points, deciding per file like
+ * parseInputFiles. Streamed files never hold their points in memory; a file
+ * that fails partway keeps the points already yielded. The outcome of each
+ * file is added to results without its points.
+ */
+async function* streamInputFiles(
+  files: string[],
+  parseOptions: ParseOptions,
+  forceStream: boolean,
+  results: ParsedMapResult[]
+): AsyncGenerator<ParsedMapPoint> {
+  for (const filePath of expandInputPaths(files)) {
+    if (!forceStream && !shouldStreamFile(filePath)) {
+      const result = await parseMapFile(filePath, parseOptions);
+      results.push({ ...result, points: [] });
+      yield* result.points;
+      continue;
+    }
+
+    const fileType = parseOptions.inputFormat ?? await detectFileType(filePath);
+    const fileName = path.basename(filePath);
+    const warnings: ParsedMapResult['warnings'] = [];
+    const onWarning: ParseOptions['onWarning'] = warning => {
+      warnings.push(warning);
+      parseOptions.onWarning?.(warning);
+    };
+    try {
+      yield* parseMapFileStream(filePath, { ...parseOptions, inputFormat: fileType, onWarning });
+      results.push({ success: true, points: [], fileType, fileName, warnings });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      results.push({ success: false, points: [], fileType, fileName, warnings, error: message });
+    }
+  }
+}
+
+/** Warnings listed per file before the rest are summarized */
+const MAX_WARNINGS_PER_FILE = 10;
+
+/**
+ * Format skipped-feature warnings for the console, capped per file
+ */
+function formatParseWarnings(warnings: ReturnType<typeof mergeParseResults>['warnings']): string[] {
+  const lines: string[] = [];
+  const perFile = new Map<string, number>();
+
+  for (const warning of warnings) {
+    const count = (perFile.get(warning.file) || 0) + 1;
+    perFile.set(warning.file, count);
+    if (count > MAX_WARNINGS_PER_FILE) continue;
+
+    let location = warning.sheet ? ` [${warning.sheet}]` : '';
+    if (warning.line !== undefined) location += ` line ${warning.line}`;
+    else if (warning.featureIndex !== undefined) location += ` feature ${warning.featureIndex + 1}`;
+    if (warning.name) location += ` "${warning.name}"`;
+    lines.push(`  Warning in ${warning.file}${location}: ${warning.reason}`);
+  }
+
+  for (const [file, count] of perFile) {
+    if (count > MAX_WARNINGS_PER_FILE) {
+      lines.push(`  ... and ${count - MAX_WARNINGS_PER_FILE} more in ${file}`);
+    }
   }
-  return str;
+  return lines;
+}
+
+/**
+ * Fail in strict mode: any skipped feature or failed file is an error
+ */
+function assertStrictParse(merged: ReturnType<typeof mergeParseResults>): void {
+  if (merged.warnings.length === 0 && merged.errorCount === 0) return;
+  throw new Error([
+    `Strict mode: ${merged.warnings.length} features skipped, ${merged.errorCount} files failed`,
+    ...merged.errors.map(err => `  Error in ${err.file}: ${err.error}`),
+    ...formatParseWarnings(merged.warnings),
+  ].join('\n'));
+}
+
+/**
+ * Add the --since/--until time filter options
+ */
+function withTimeFilterOptions(command: Command): Command {
+  return command
+    .option('--since <date>', 'Only points dated on or after this time (ISO 8601: 2024, 2024-05, 2024-05-04T09:00Z)')
+    .option('--until <date>', 'Only points dated on or before this time (ISO 8601)');
+}
+
+/**
+ * Validated --since/--until bounds
+ */
+function getTimeBounds(options: Record<string, unknown>): { since: string | null; until: string | null } {
+  const bound = (name: 'since' | 'until'): string | null => {
+    if (!options[name]) return null;
+    const time = parseTimestamp(options[name] as string);
+    if (!time) throw new Error(`Invalid --${name} time: ${options[name]} (expected ISO 8601)`);
+    return time;
+  };
+  return { since: bound('since'), until: bound('until') };
+}
+
+/**
+ * Apply --since/--until to merged parse results. Points without a time
+ * are dropped when either bound is given.
+ */
+function applyTimeFilter<T extends { points: ParsedMapPoint[] }>(merged: T, options: Record<string, unknown>): T {
+  const { since, until } = getTimeBounds(options);
+  if (!since && !until) return merged;
+  return { ...merged, points: filterPointsByTime(merged.points, since, until) };
 }
 
 // ============================================================================
 // PARSE COMMAND
 // ============================================================================
 
+/**
+ * Report parsed files, failures and skipped features on the spinner
+ */
+function reportParseSummary(
+  spinner: Ora | null,
+  merged: ReturnType<typeof mergeParseResults>,
+  pointCount: number
+): void {
+  if (!spinner) return;
+  if (merged.errorCount > 0) {
+    spinner.warn(`Parsed ${merged.successCount} files, ${merged.errorCount} failed`);
+    for (const err of merged.errors) {
+      console.error(`  Error in ${err.file}: ${err.error}`);
+    }
+  } else if (merged.warnings.length > 0) {
+    spinner.warn(`Parsed ${merged.successCount} files, ${pointCount} points, ${merged.warnings.length} skipped`);
+  } else {
+    spinner.succeed(`Parsed ${merged.successCount} files, ${pointCount} points`);
+  }
+  for (const line of formatParseWarnings(merged.warnings)) console.error(line);
+}
+
 function createParseCommand(): Command {
-  return new Command('parse')
+  return withTimeFilterOptions(withInputOptions(new Command('parse')))
     .description('Parse map files and extract points')
-    .argument('<files...>', 'Map files to parse (KML, KMZ, GPX, GeoJSON, CSV)')
+    .argument('<files...>', 'Map files to parse (KML, KMZ, GPX, GeoJSON, GeoJSONSeq/NDJSON, CSV, XLSX, Shapefile, OSM, JPEG/HEIC photos or photo directories)')
     .option('-o, --output <file>', 'Output file (defaults to stdout)')
-    .option('-f, --format <format>', 'Output format: json, geojson, kml, gpx, csv, table', 'json')
+    .option('-f, --format <format>', 'Output format: json, geojson, geojsonseq, ndjson, kml, kmz, gpx, csv, table', 'json')
+    .option('--wkt', 'Add a wkt geometry column to CSV output')
+    .option('--columns <list>', 'CSV columns to write, in order (comma-separated; metadata fields by dotted name)')
+    .option('--bom', 'Start CSV output with a UTF-8 byte order mark (for Excel)')
+    .option('--kml-folders <key>', 'Group KML/KMZ placemarks into folders by category, state or source')
+    .option('--stream', 'Use the streaming parser for all inputs (automatic for large files)')
+    .option('--strict', 'Fail if any feature is skipped or any file fails to parse')
     .option('-q, --quiet', 'Suppress progress output')
     .action(async (files: string[], options) => {
       const spinner = options.quiet ? null : ora('Parsing files...').start();
 
       try {
-        const results = await parseMapFiles(files.map(f => path.resolve(f)));
-        const merged = mergeParseResults(results);
-
-        if (spinner) {
-          if (merged.errorCount > 0) {
-            spinner.warn(`Parsed ${merged.successCount} files, ${merged.errorCount} failed`);
-            for (const err of merged.errors) {
-              console.error(`  Error in ${err.file}: ${err.error}`);
+        const format = options.format as OutputFormat;
+        const outputOptions = await getOutputOptions(options, files);
+        const parseOptions = getParseOptions(options);
+        const forceStream = options.stream || false;
+
+        if (!options.strict && isStreamableOutput(format, outputOptions) &&
+            expandInputPaths(files).some(file => forceStream || shouldStreamFile(file))) {
+          // Points are written as they are parsed, so the summary comes last
+          if (!options.output) spinner?.stop();
+          const { since, until } = getTimeBounds(options);
+          const results: ParsedMapResult[] = [];
+          let pointCount = 0;
+          const points = (async function* () {
+            for await (const point of streamInputFiles(files, parseOptions, forceStream, results)) {
+              if ((since || until) && filterPointsByTime([point], since, until).length === 0) continue;
+              pointCount++;
+              yield point;
             }
-          } else {
-            spinner.succeed(`Parsed ${merged.successCount} files, ${merged.points.length} points`);
-          }
+          })();
+          await writeOutputLines(formatOutputLines(points, format, outputOptions), options.output);
+          reportParseSummary(spinner, mergeParseResults(results), pointCount);
+        } else {
+          const results = await parseInputFiles(files, parseOptions, forceStream);
+          const merged = applyTimeFilter(mergeParseResults(results), options);
+          if (options.strict) assertStrictParse(merged);
+          reportParseSummary(spinner, merged, merged.points.length);
+          await writeOutput(merged.points, format, outputOptions, options.output);
         }
 
-        const output = formatOutput(merged.points, options.format as OutputFormat);
-
-        if (options.output) {
-          fs.writeFileSync(options.output, output);
-          if (!options.quiet) {
-            console.log(`Output written to ${options.output}`);
-          }
-        } else {
-          console.log(output);
+        if (options.output && !options.quiet) {
+          console.log(`Output written to ${options.output}`);
         }
       } catch (error) {
         if (spinner) spinner.fail('Parse failed');
@@ -237,11 +603,15 @@ function createParseCommand(): Command {
 // ============================================================================
 
 function createDedupCommand(): Command {
-  return new Command('dedup')
+  return withTimeFilterOptions(withInputOptions(new Command('dedup')))
     .description('Find and merge duplicate points')
-    .argument('<files...>', 'Map files to deduplicate')
+    .argument('<files...>', 'Map files or photo directories to deduplicate')
     .option('-o, --output <file>', 'Output file (defaults to stdout)')
-    .option('-f, --format <format>', 'Output format: json, geojson, kml, gpx, csv, table', 'json')
+    .option('-f, --format <format>', 'Output format: json, geojson, geojsonseq, ndjson, kml, kmz, gpx, csv, table', 'json')
+    .option('--wkt', 'Add a wkt geometry column to CSV output')
+    .option('--columns <list>', 'CSV columns to write, in order (comma-separated; metadata fields by dotted name)')
+    .option('--bom', 'Start CSV output with a UTF-8 byte order mark (for Excel)')
+    .option('--kml-folders <key>', 'Group KML/KMZ placemarks into folders by category, state or source')
     .option('-g, --gps-threshold <meters>', 'GPS distance threshold', '50')
     .option('-n, --name-threshold <score>', 'Name similarity threshold (0-1)', '0.85')
     .option('--require-gps', 'Require GPS match for duplicates')
@@ -251,13 +621,21 @@ function createDedupCommand(): Command {
     .option('--min-confidence <score>', 'Minimum confidence to merge (0-100)', '60')
     .option('--dry-run', 'Preview what would be merged without outputting deduplicated data')
     .option('-v, --verbose', 'Show detailed match information')
+    .option('--strict', 'Fail if any feature is skipped or any file fails to parse')
     .option('-q, --quiet', 'Suppress progress output')
     .action(async (files: string[], options) => {
       const spinner = options.quiet ? null : ora('Parsing files...').start();
 
       try {
-        const results = await parseMapFiles(files.map(f => path.resolve(f)));
-        const merged = mergeParseResults(results);
+        const outputOptions = await getOutputOptions(options, files);
+        const results = await parseInputFiles(files, getParseOptions(options));
+        const merged = applyTimeFilter(mergeParseResults(results), options);
+        if (options.strict) assertStrictParse(merged);
+        if (spinner && merged.warnings.length > 0) {
+          spinner.warn(`Parsed ${merged.points.length} points, ${merged.warnings.length} skipped`);
+          for (const line of formatParseWarnings(merged.warnings)) console.error(line);
+          spinner.start();
+        }
 
         if (merged.points.length === 0) {
           if (spinner) spinner.fail('No points found');
@@ -350,17 +728,19 @@ function createDedupCommand(): Command {
             duplicateCount: p.duplicateCount > 0 ? p.duplicateCount : undefined,
             confidence: p.confidence,
           },
+          geometry: p.geometry,
+          style: p.style,
+          sources: p.sources,
+          ...getPointTimes(p),
         }));
 
-        const output = formatOutput(outputPoints, options.format as OutputFormat);
-
         if (options.output) {
-          fs.writeFileSync(options.output, output);
+          await writeOutput(outputPoints, options.format as OutputFormat, outputOptions, options.output);
           if (!options.quiet) {
             console.log(`Output written to ${options.output}`);
           }
         } else if (!options.verbose) {
-          console.log(output);
+          await writeOutput(outputPoints, options.format as OutputFormat, outputOptions);
         }
       } catch (error) {
         if (spinner) spinner.fail('Dedup failed');
@@ -434,7 +814,7 @@ function createCompareCommand(): Command {
 // ============================================================================
 
 function createStatsCommand(): Command {
-  return new Command('stats')
+  return withInputOptions(new Command('stats'))
     .description('Show statistics about map files')
     .argument('<files...>', 'Map files to analyze')
     .option('--alias-stats', 'Show alias dictionary statistics')
@@ -442,7 +822,7 @@ function createStatsCommand(): Command {
       const spinner = ora('Analyzing files...').start();
 
       try {
-        const results = await parseMapFiles(files.map(f => path.resolve(f)));
+        const results = await parseInputFiles(files, getParseOptions(options));
         const merged = mergeParseResults(results);
 
         spinner.succeed('Analysis complete');
@@ -522,16 +902,91 @@ function createStatsCommand(): Command {
     });
 }
 
+// ============================================================================
+// TRACKS COMMAND
+// ============================================================================
+
+function formatDuration(seconds: number | null): string {
+  if (seconds === null) return '-';
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  return `${h}h ${m.toString().padStart(2, '0')}m`;
+}
+
+function createTracksCommand(): Command {
+  return new Command('tracks')
+    .description('List GPX tracks and routes with statistics')
+    .argument('<files...>', 'GPX files to analyze')
+    .option('-o, --output <file>', 'Output file (defaults to stdout)')
+    .option('-f, --format <format>', 'Output format: json, table', 'table')
+    .action(async (files: string[], options) => {
+      const spinner = ora('Reading tracks...').start();
+
+      try {
+        const results = await parseMapFiles(files.map(f => path.resolve(f)));
+        const merged = mergeParseResults(results);
+        const tracks = merged.points.filter(p => p.category === 'track' || p.category === 'route');
+
+        spinner.succeed(`Found ${tracks.length} tracks and routes`);
+        for (const err of merged.errors) {
+          console.error(`  Error in ${err.file}: ${err.error}`);
+        }
+
+        let output: string;
+        if (options.format === 'json') {
+          output = JSON.stringify(tracks.map(t => ({
+            name: t.name,
+            type: t.category,
+            ...t.rawMetadata,
+          })), null, 2);
+        } else {
+          const maxNameLen = Math.min(40, Math.max(...tracks.map(t => (t.name || '').length), 4));
+          const header = `${'Name'.padEnd(maxNameLen)} | ${'Type'.padEnd(5)} | ${'Points'.padStart(6)} | ${'Length km'.padStart(9)} | ${'Gain m'.padStart(7)} | ${'Loss m'.padStart(7)} | ${'Moving'.padStart(8)} | Start`;
+          const separator = '-'.repeat(header.length);
+          const rows = tracks.map(t => {
+            const stats = (t.rawMetadata || {}) as Partial<TrackStats>;
+            const name = (t.name || '').slice(0, maxNameLen).padEnd(maxNameLen);
+            const type = (t.category || '').padEnd(5);
+            const count = String(stats.pointCount ?? '').padStart(6);
+            const length = ((stats.lengthMeters ?? 0) / 1000).toFixed(2).padStart(9);
+            const gain = (stats.elevationGain != null ? stats.elevationGain.toFixed(0) : '-').padStart(7);
+            const loss = (stats.elevationLoss != null ? stats.elevationLoss.toFixed(0) : '-').padStart(7);
+            const moving = formatDuration(stats.movingDurationSeconds ?? null).padStart(8);
+            return `${name} | ${type} | ${count} | ${length} | ${gain} | ${loss} | ${moving} | ${stats.startTime || '-'}`;
+          });
+          output = [header, separator, ...rows].join('\n');
+        }
+
+        if (options.output) {
+          fs.writeFileSync(options.output, output);
+          console.log(`Output written to ${options.output}`);
+        } else {
+          console.log(output);
+        }
+      } catch (error) {
+        spinner.fail('Track analysis failed');
+        console.error(error instanceof Error ? error.message : error);
+        process.exit(1);
+      }
+    });
+}
+
 // ============================================================================
 // MERGE COMMAND
 // ============================================================================
 
 function createMergeCommand(): Command {
-  return new Command('merge')
+  return withTimeFilterOptions(withInputOptions(new Command('merge')))
     .description('Merge multiple map files into one (without deduplication)')
-    .argument('<files...>', 'Map files to merge')
+    .argument('<files...>', 'Map files or photo directories to merge')
     .option('-o, --output <file>', 'Output file (required)')
-    .option('-f, --format <format>', 'Output format: json, geojson, kml, gpx, csv', 'geojson')
+    .option('-f, --format <format>', 'Output format: json, geojson, geojsonseq, ndjson, kml, kmz, gpx, csv', 'geojson')
+    .option('--wkt', 'Add a wkt geometry column to CSV output')
+    .option('--columns <list>', 'CSV columns to write, in order (comma-separated; metadata fields by dotted name)')
+    .option('--bom', 'Start CSV output with a UTF-8 byte order mark (for Excel)')
+    .option('--kml-folders <key>', 'Group KML/KMZ placemarks into folders by category, state or source')
+    .option('--stream', 'Use the streaming parser for all inputs (automatic for large files)')
+    .option('--strict', 'Fail if any feature is skipped or any file fails to parse')
     .option('-q, --quiet', 'Suppress progress output')
     .action(async (files: string[], options) => {
       if (!options.output) {
@@ -542,15 +997,21 @@ function createMergeCommand(): Command {
       const spinner = options.quiet ? null : ora('Merging files...').start();
 
       try {
-        const results = await parseMapFiles(files.map(f => path.resolve(f)));
-        const merged = mergeParseResults(results);
+        const outputOptions = await getOutputOptions(options, files);
+        const results = await parseInputFiles(files, getParseOptions(options), options.stream || false);
+        const merged = applyTimeFilter(mergeParseResults(results), options);
+        if (options.strict) assertStrictParse(merged);
 
         if (spinner) {
-          spinner.succeed(`Merged ${merged.successCount} files, ${merged.points.length} points`);
+          if (merged.warnings.length > 0) {
+            spinner.warn(`Merged ${merged.successCount} files, ${merged.points.length} points, ${merged.warnings.length} skipped`);
+            for (const line of formatParseWarnings(merged.warnings)) console.error(line);
+          } else {
+            spinner.succeed(`Merged ${merged.successCount} files, ${merged.points.length} points`);
+          }
         }
 
-        const output = formatOutput(merged.points, options.format as OutputFormat);
-        fs.writeFileSync(options.output, output);
+        await writeOutput(merged.points, options.format as OutputFormat, outputOptions, options.output);
 
         if (!options.quiet) {
           console.log(`Output written to ${options.output}`);
@@ -568,7 +1029,7 @@ function createMergeCommand(): Command {
 // ============================================================================
 
 function createMatchCommand(): Command {
-  return new Command('match')
+  return withInputOptions(new Command('match'))
     .description('Find matches between reference and target point sets')
     .argument('<reference>', 'Reference map file')
     .argument('<target>', 'Target map file to match against reference')
@@ -582,9 +1043,10 @@ function createMatchCommand(): Command {
       const spinner = ora('Loading files...').start();
 
       try {
+        const parseOptions = getParseOptions(options);
         const [refResult, targetResult] = await Promise.all([
-          parseMapFile(path.resolve(refFile)),
-          parseMapFile(path.resolve(targetFile)),
+          parseMapFile(path.resolve(refFile), parseOptions),
+          parseMapFile(path.resolve(targetFile), parseOptions),
         ]);
 
         if (!refResult.success) {
@@ -614,6 +1076,8 @@ function createMatchCommand(): Command {
           matchType: string;
           confidence: number;
           blocked: boolean;
+          targetSource?: PointSource;
+          refSource?: PointSource;
         }
 
         const matches: MatchPair[] = [];
@@ -709,6 +1173,8 @@ function createMatchCommand(): Command {
                 matchType,
                 confidence,
                 blocked: false,
+                targetSource: target.sources?.[0],
+                refSource: ref.sources?.[0],
               };
             }
           }
@@ -737,9 +1203,10 @@ function createMatchCommand(): Command {
         if (options.output) {
           const output = options.format === 'csv'
             ? [
-                'targetIndex,targetName,refIndex,refName,gpsDistance,nameSimilarity,matchType',
+                'targetIndex,targetName,refIndex,refName,gpsDistance,nameSimilarity,matchType,targetSource,refSource',
                 ...matches.map(m =>
-                  `${m.targetIndex},"${m.targetName}",${m.refIndex},"${m.refName}",${m.gpsDistance},${m.nameSimilarity},${m.matchType}`
+                  `${m.targetIndex},"${m.targetName}",${m.refIndex},"${m.refName}",${m.gpsDistance},${m.nameSimilarity},${m.matchType},` +
+                  `${escapeCSV(formatPointSources(m.targetSource && [m.targetSource]))},${escapeCSV(formatPointSources(m.refSource && [m.refSource]))}`
                 ),
               ].join('\n')
             : JSON.stringify(result, null, 2);
@@ -770,6 +1237,7 @@ program.addCommand(createParseCommand());
 program.addCommand(createDedupCommand());
 program.addCommand(createCompareCommand());
 program.addCommand(createStatsCommand());
+program.addCommand(createTracksCommand());
 program.addCommand(createMergeCommand());
 program.addCommand(createMatchCommand());
 
@@ -0,0 +1,201 @@
+/**
+ * CSV Writer Module
+ *
+ * Writes points as a CSV table: the point fields, optional geometry, WKT
+ * and time columns, then one column per rawMetadata field (nested values
+ * flattened to dotted names, e.g. `osmand.color`) and the provenance.
+ */
+
+import type { ParsedMapPoint, PointSource } from './parser.js';
+import type { DedupedPoint } from './dedup.js';
+import { toWKT } from './wkt.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CSVWriterOptions {
+  /** Add a `wkt` column with each point's geometry */
+  wkt?: boolean;
+  /** Columns to write, in this order (default: every column with a value) */
+  columns?: string[];
+  /** Start with a UTF-8 byte order mark, so Excel detects the encoding */
+  bom?: boolean;
+}
+
+/**
+ * A parsed point, or a dedup result whose merge fields are written as columns
+ */
+export type CSVWriterPoint = ParsedMapPoint & Partial<Pick<DedupedPoint, 'akaNames' | 'duplicateCount' | 'confidence'>>;
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** Dedup result fields written after rawMetadata when it does not have them */
+const DEDUP_FIELDS = ['akaNames', 'duplicateCount', 'confidence'] as const;
+
+/** Prefix of metadata columns whose name is taken by a point column */
+const METADATA_PREFIX = 'metadata.';
+
+/** Point columns and their cell text */
+const POINT_COLUMNS: Record<string, (p: CSVWriterPoint) => string> = {
+  name: p => p.name || '',
+  lat: p => p.lat.toString(),
+  lng: p => p.lng.toString(),
+  state: p => p.state || '',
+  category: p => p.category || '',
+  description: p => p.description || '',
+  time: p => p.time || '',
+  timeStart: p => p.timeStart || '',
+  timeEnd: p => p.timeEnd || '',
+  geometry: p => p.geometry ? JSON.stringify(p.geometry) : '',
+  wkt: p => toWKT(p.geometry ?? { type: 'Point', coordinates: [p.lng, p.lat] }),
+  source: p => formatPointSources(p.sources),
+};
+
+const POINT_COLUMN_NAMES = new Set(Object.keys(POINT_COLUMNS).map(name => name.toLowerCase()));
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export function escapeCSV(str: string): string {
+  if (/[",\n\r]/.test(str)) {
+    return `"${str.replace(/"/g, '""')}"`;
+  }
+  return str;
+}
+
+/**
+ * One-line provenance for CSV cells: "file.kml:12 (id); other.csv#3"
+ */
+export function formatPointSources(sources: PointSource[] | undefined): string {
+  return (sources || []).map(source => {
+    let text = source.sheet ? `${source.file}[${source.sheet}]` : source.file;
+    if (source.line !== undefined) text += `:${source.line}`;
+    else if (source.featureIndex !== undefined) text += `#${source.featureIndex}`;
+    if (source.id) text += ` (${source.id})`;
+    return text;
+  }).join('; ');
+}
+
+/**
+ * Flatten a metadata value into cells: objects become dotted names, lists
+ * of plain values are joined with "; ", other lists are written as JSON
+ */
+function flattenValue(value: unknown, name: string, cells: Map<string, string>): void {
+  if (value === null || value === undefined) return;
+  if (Array.isArray(value)) {
+    const plain = value.every(item => item === null || typeof item !== 'object');
+    cells.set(name, plain ? value.join('; ') : JSON.stringify(value));
+  } else if (typeof value === 'object') {
+    for (const [key, member] of Object.entries(value)) flattenValue(member, `${name}.${key}`, cells);
+  } else {
+    cells.set(name, String(value));
+  }
+}
+
+/**
+ * Metadata cells of a point by flattened field name
+ */
+function getMetadataCells(p: CSVWriterPoint): Map<string, string> {
+  const cells = new Map<string, string>();
+  const metadata = p.rawMetadata ?? {};
+  for (const [key, value] of Object.entries(metadata)) flattenValue(value, key, cells);
+  for (const field of DEDUP_FIELDS) {
+    if (!(field in metadata)) flattenValue(p[field], field, cells);
+  }
+  return cells;
+}
+
+/**
+ * Metadata columns in order of first appearance. A field named like a point
+ * column (GeoJSON and CSV inputs keep `name`, `state`…) is left out when it
+ * only repeats that column, and written as `metadata.<field>` otherwise.
+ */
+function getMetadataColumns(points: CSVWriterPoint[], cells: Array<Map<string, string>>): string[] {
+  const fields = new Set<string>();
+  for (const row of cells) {
+    for (const field of row.keys()) fields.add(field);
+  }
+
+  const columns: string[] = [];
+  for (const field of fields) {
+    if (!POINT_COLUMN_NAMES.has(field.toLowerCase())) {
+      columns.push(field);
+      continue;
+    }
+    const pointColumn = Object.keys(POINT_COLUMNS).find(name => name.toLowerCase() === field.toLowerCase())!;
+    const repeats = points.every((p, i) => !cells[i].has(field) || cells[i].get(field) === POINT_COLUMNS[pointColumn](p));
+    if (!repeats) columns.push(METADATA_PREFIX + field);
+  }
+  return columns;
+}
+
+/**
+ * Cell of a metadata column (`metadata.<field>` also finds the bare field)
+ */
+function getMetadataCell(cells: Map<string, string>, column: string): string {
+  const value = cells.get(column);
+  if (value !== undefined) return value;
+  return column.startsWith(METADATA_PREFIX) ? cells.get(column.slice(METADATA_PREFIX.length)) ?? '' : '';
+}
+
+/**
+ * Default columns: the point fields, then times, geometry and wkt where
+ * used, one column per metadata field, and source
+ */
+function getDefaultColumns(points: CSVWriterPoint[], cells: Array<Map<string, string>>, wkt?: boolean): string[] {
+  const times = (['time', 'timeStart', 'timeEnd'] as const).filter(field => points.some(p => p[field]));
+  return [
+    'name', 'lat', 'lng', 'state', 'category', 'description',
+    ...times,
+    ...(points.some(p => p.geometry) ? ['geometry'] : []),
+    ...(wkt ? ['wkt'] : []),
+    ...getMetadataColumns(points, cells),
+    ...(points.some(p => p.sources) ? ['source'] : []),
+  ];
+}
+
+// ============================================================================
+// WRITER
+// ============================================================================
+
+/**
+ * Write points as CSV. Columns not among the point fields are metadata
+ * fields by flattened name; unknown columns are written empty.
+ *
+ * @param points - Parsed or deduplicated points
+ * @param options - Column selection, WKT column and byte order mark
+ * @returns CSV text
+ */
+export function writeCSV(points: CSVWriterPoint[], options: CSVWriterOptions = {}): string {
+  const cells = points.map(getMetadataCells);
+  const columns = options.columns ?? getDefaultColumns(points, cells, options.wkt);
+
+  const rows = points.map((p, i) => formatRow(p, cells[i], columns));
+  return [writeCSVHeader(columns, options.bom), ...rows].join('\n');
+}
+
+function formatRow(p: CSVWriterPoint, cells: Map<string, string>, columns: string[]): string {
+  return columns.map(column => {
+    const pointColumn = Object.hasOwn(POINT_COLUMNS, column) ? POINT_COLUMNS[column] : null;
+    return escapeCSV(pointColumn ? pointColumn(p) : getMetadataCell(cells, column));
+  }).join(',');
+}
+
+/**
+ * Header line for the given columns, for CSV written one row at a time
+ */
+export function writeCSVHeader(columns: string[], bom?: boolean): string {
+  return (bom ? '\uFEFF' : '') + columns.map(escapeCSV).join(',');
+}
+
+/**
+ * One CSV row of a point, for CSV written one row at a time (the columns
+ * must be known up front: the default ones depend on every point)
+ */
+export function writeCSVRow(point: CSVWriterPoint, columns: string[]): string {
+  return formatRow(point, getMetadataCells(point), columns);
+}
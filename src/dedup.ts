@@ -19,7 +19,7 @@ import {
   isGenericName,
   calculateMultiSignalMatch,
 } from './token-set-ratio.js';
-import type { ParsedMapPoint } from './parser.js';
+import { getPointTimes, type ParsedMapPoint, type PointSource } from './parser.js';
 
 // ============================================================================
 // CONFIGURATION
@@ -502,6 +502,10 @@ export function generateDedupedPoints(
     const allMetadata: Record<string, unknown> = {};
     let bestCategory: string | null = null;
     let bestState: string | null = null;
+    let geometry = repPoint.geometry;
+    let style = repPoint.style;
+    let times = getPointTimes(repPoint);
+    const sources: PointSource[] = [];
 
     for (const idx of group.members) {
       const point = points[idx];
@@ -517,6 +521,16 @@ export function generateDedupedPoints(
       if (!bestState && point.state) {
         bestState = point.state;
       }
+      if (!geometry && point.geometry) {
+        geometry = point.geometry;
+      }
+      if (!style && point.style) {
+        style = point.style;
+      }
+      if (point.sources) {
+        sources.push(...point.sources);
+      }
+      times ??= getPointTimes(point);
     }
 
     // Dedupe descriptions
@@ -525,7 +539,7 @@ export function generateDedupedPoints(
       ? uniqueDescs.join(' | ')
       : null;
 
-    dedupedPoints.push({
+    const dedupedPoint: DedupedPoint = {
       name: group.mergedName,
       description: mergedDesc,
       lat: group.centroid.lat,
@@ -537,7 +551,20 @@ export function generateDedupedPoints(
       akaNames: group.akaNames,
       confidence: group.confidence,
       duplicateCount: group.members.length - 1,
-    });
+    };
+    if (geometry) {
+      dedupedPoint.geometry = geometry;
+    }
+    if (style) {
+      dedupedPoint.style = style;
+    }
+    if (sources.length > 0) {
+      dedupedPoint.sources = sources;
+    }
+    if (times) {
+      Object.assign(dedupedPoint, times);
+    }
+    dedupedPoints.push(dedupedPoint);
   }
 
   return dedupedPoints;
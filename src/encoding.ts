@@ -0,0 +1,175 @@
+/**
+ * Text Encoding Module
+ *
+ * Decodes input files to text. The encoding comes from an explicit
+ * override, a byte order mark, the XML encoding declaration, or a
+ * heuristic: BOM-less UTF-16 is recognized by its zero bytes, and text
+ * that is not valid UTF-8 is read as Windows-1252 (Excel on Windows).
+ */
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** Bytes examined by the streaming decoder before choosing an encoding */
+export const ENCODING_SNIFF_BYTES = 64 * 1024;
+
+/** Fallback for text that is not valid UTF-8 */
+const LEGACY_ENCODING = 'windows-1252';
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+/**
+ * Normalize an encoding label (utf8, latin1, cp1252, UTF-16LE...) to its
+ * WHATWG name. Throws for encodings TextDecoder does not support.
+ */
+export function resolveEncoding(label: string): string {
+  const numeric = label.trim().match(/^(?:cp|windows-?)(\d{3,4})$/i);
+  try {
+    return new TextDecoder(numeric ? `windows-${numeric[1]}` : label.trim()).encoding;
+  } catch {
+    throw new Error(`Unsupported encoding: ${label}`);
+  }
+}
+
+function detectBOM(bytes: Uint8Array): string | null {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+  return null;
+}
+
+/**
+ * BOM-less UTF-16: mostly-ASCII text has a zero in every other byte
+ */
+function detectUTF16(bytes: Uint8Array): string | null {
+  const sample = Math.min(bytes.length, 1024) & ~1;
+  if (sample < 4) return null;
+
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < sample; i += 2) {
+    if (bytes[i] === 0) evenZeros++;
+    if (bytes[i + 1] === 0) oddZeros++;
+  }
+  const pairs = sample / 2;
+  if (oddZeros > pairs * 0.4 && evenZeros < pairs * 0.1) return 'utf-16le';
+  if (evenZeros > pairs * 0.4 && oddZeros < pairs * 0.1) return 'utf-16be';
+  return null;
+}
+
+/**
+ * Encoding named by an <?xml ... encoding="..."?> declaration. UTF-16
+ * declarations are ignored here: the bytes were already found not to be UTF-16.
+ */
+function detectXMLDeclaration(bytes: Uint8Array): string | null {
+  const head = Buffer.from(bytes.subarray(0, 200)).toString('latin1');
+  const label = head.match(/^\s*<\?xml[^>]*?\sencoding\s*=\s*["']([\w.:-]+)["']/)?.[1];
+  if (!label || /^utf-?16/i.test(label)) return null;
+  try {
+    return resolveEncoding(label);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check for valid UTF-8. With partial set, a multi-byte sequence cut off at
+ * the end of the sample is not counted as an error.
+ */
+function isValidUTF8(bytes: Uint8Array, partial: boolean): boolean {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: partial });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Detect the encoding of file content: BOM, BOM-less UTF-16, XML
+ * declaration, then UTF-8 validity with a Windows-1252 fallback.
+ *
+ * @param bytes - File content, or its first bytes when partial is set
+ * @param partial - Whether bytes is only the start of the file
+ * @returns WHATWG encoding name
+ */
+export function detectEncoding(bytes: Uint8Array, partial: boolean = false): string {
+  return detectBOM(bytes)
+    ?? detectUTF16(bytes)
+    ?? detectXMLDeclaration(bytes)
+    ?? (isValidUTF8(bytes, partial) ? 'utf-8' : LEGACY_ENCODING);
+}
+
+// ============================================================================
+// DECODING
+// ============================================================================
+
+/** Windows-1252 characters for bytes 0x80-0x9F (Node's TextDecoder returns C1 controls) */
+const CP1252_HIGH = '€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008dŽ\u008f\u0090‘’“”•–—˜™š›œ\u009džŸ';
+
+export type TextDecodeFunction = (bytes?: Uint8Array, options?: { stream?: boolean }) => string;
+
+/**
+ * Create a decode function for an encoding label. Windows-1252 is
+ * corrected for Node decoding it as Latin-1 (smart quotes, euro sign).
+ */
+export function createTextDecoder(label: string): TextDecodeFunction {
+  const decoder = new TextDecoder(label);
+  if (decoder.encoding !== 'windows-1252') {
+    return (bytes, options) => decoder.decode(bytes, options);
+  }
+  return (bytes, options) =>
+    decoder.decode(bytes, options).replace(/[\u0080-\u009f]/g, c => CP1252_HIGH[c.charCodeAt(0) - 0x80]);
+}
+
+/**
+ * Decode file content to text, dropping any byte order mark
+ *
+ * @param bytes - File content
+ * @param encoding - Encoding override (default: detect)
+ */
+export function decodeText(bytes: Uint8Array, encoding?: string): string {
+  const resolved = encoding ? resolveEncoding(encoding) : detectEncoding(bytes);
+  return createTextDecoder(resolved)(bytes);
+}
+
+/**
+ * Decode a byte stream to text chunks. Without an override, the encoding is
+ * detected from the first ENCODING_SNIFF_BYTES bytes.
+ */
+export async function* decodeTextStream(
+  chunks: AsyncIterable<Buffer | string>,
+  encoding?: string
+): AsyncGenerator<string> {
+  let decode: TextDecodeFunction | null = encoding ? createTextDecoder(resolveEncoding(encoding)) : null;
+  const pending: Buffer[] = [];
+  let pendingBytes = 0;
+
+  for await (const chunk of chunks) {
+    const bytes = typeof chunk === 'string' ? Buffer.from(chunk, 'utf-8') : chunk;
+    if (!decode) {
+      pending.push(bytes);
+      pendingBytes += bytes.length;
+      if (pendingBytes < ENCODING_SNIFF_BYTES) continue;
+
+      const head = Buffer.concat(pending);
+      pending.length = 0;
+      decode = createTextDecoder(detectEncoding(head, true));
+      yield decode(head, { stream: true });
+      continue;
+    }
+    yield decode(bytes, { stream: true });
+  }
+
+  // Short files never fill the sniff window
+  if (!decode) {
+    const content = Buffer.concat(pending);
+    decode = createTextDecoder(detectEncoding(content));
+    yield decode(content, { stream: true });
+  }
+  const rest = decode();
+  if (rest) yield rest;
+}
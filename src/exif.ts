@@ -0,0 +1,379 @@
+/**
+ * EXIF Reader Module
+ *
+ * Reads the EXIF block of JPEG and HEIC/HEIF photos: camera tags from
+ * IFD0 and the Exif sub-IFD, and the GPS position from the GPS IFD.
+ * Only the TIFF structure is decoded; image data is never touched.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * GPS fix recorded by the camera
+ */
+export interface ExifGPS {
+  latitude: number;
+  longitude: number;
+  /** Meters above sea level (negative below) */
+  altitude?: number;
+  /** Direction the camera was facing, degrees */
+  direction?: number;
+  /** UTC time of the fix (GPSDateStamp + GPSTimeStamp), ISO 8601 */
+  time?: string;
+}
+
+export interface ExifData {
+  /** Camera, lens, exposure and date tags by EXIF tag name */
+  tags: Record<string, string | number>;
+  gps: ExifGPS | null;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** IFD0 and Exif sub-IFD tags that are kept */
+const EXIF_TAG_NAMES: Record<number, string> = {
+  0x010e: 'ImageDescription',
+  0x010f: 'Make',
+  0x0110: 'Model',
+  0x0112: 'Orientation',
+  0x0131: 'Software',
+  0x0132: 'DateTime',
+  0x013b: 'Artist',
+  0x829a: 'ExposureTime',
+  0x829d: 'FNumber',
+  0x8827: 'ISOSpeedRatings',
+  0x9003: 'DateTimeOriginal',
+  0x9011: 'OffsetTimeOriginal',
+  0x920a: 'FocalLength',
+  0xa002: 'PixelXDimension',
+  0xa003: 'PixelYDimension',
+  0xa405: 'FocalLengthIn35mmFilm',
+  0xa433: 'LensMake',
+  0xa434: 'LensModel',
+};
+
+const EXIF_IFD_POINTER = 0x8769;
+const GPS_IFD_POINTER = 0x8825;
+
+/** GPS IFD tags */
+const GPS_LATITUDE_REF = 0x0001;
+const GPS_LATITUDE = 0x0002;
+const GPS_LONGITUDE_REF = 0x0003;
+const GPS_LONGITUDE = 0x0004;
+const GPS_ALTITUDE_REF = 0x0005;
+const GPS_ALTITUDE = 0x0006;
+const GPS_TIME_STAMP = 0x0007;
+const GPS_IMG_DIRECTION = 0x0011;
+const GPS_DATE_STAMP = 0x001d;
+
+/** Byte size of each TIFF field type */
+const TIFF_TYPE_SIZES: Record<number, number> = {
+  1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8,
+};
+
+/** HEIF brands in the ftyp box */
+const HEIF_BRANDS = new Set(['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1', 'heif', 'avif']);
+
+// ============================================================================
+// TIFF STRUCTURE
+// ============================================================================
+
+type TIFFValue = string | number | number[];
+
+interface TIFFReader {
+  view: DataView;
+  /** Offset of the TIFF header; IFD offsets are relative to it */
+  base: number;
+  littleEndian: boolean;
+}
+
+function readTIFFValue(reader: TIFFReader, entry: number): TIFFValue | null {
+  const { view, base, littleEndian } = reader;
+  const type = view.getUint16(entry + 2, littleEndian);
+  const count = view.getUint32(entry + 4, littleEndian);
+  const size = TIFF_TYPE_SIZES[type];
+  if (!size) return null;
+
+  // Values up to 4 bytes are stored in the entry itself
+  const offset = size * count <= 4 ? entry + 8 : base + view.getUint32(entry + 8, littleEndian);
+  if (offset + size * count > view.byteLength) return null;
+
+  if (type === 2) {
+    const bytes = new Uint8Array(view.buffer, view.byteOffset + offset, count);
+    return Buffer.from(bytes).toString('latin1').replace(/\0.*$/s, '').trim();
+  }
+
+  const values: number[] = [];
+  for (let i = 0; i < Math.min(count, 64); i++) {
+    const at = offset + i * size;
+    switch (type) {
+      case 1: case 7: values.push(view.getUint8(at)); break;
+      case 6: values.push(view.getInt8(at)); break;
+      case 3: values.push(view.getUint16(at, littleEndian)); break;
+      case 8: values.push(view.getInt16(at, littleEndian)); break;
+      case 4: values.push(view.getUint32(at, littleEndian)); break;
+      case 9: values.push(view.getInt32(at, littleEndian)); break;
+      case 5: values.push(view.getUint32(at, littleEndian) / view.getUint32(at + 4, littleEndian)); break;
+      case 10: values.push(view.getInt32(at, littleEndian) / view.getInt32(at + 4, littleEndian)); break;
+      case 11: values.push(view.getFloat32(at, littleEndian)); break;
+      case 12: values.push(view.getFloat64(at, littleEndian)); break;
+    }
+  }
+  return values.length === 1 ? values[0] : values;
+}
+
+/**
+ * Read the entries of one IFD as tag -> value
+ */
+function readIFD(reader: TIFFReader, ifdOffset: number): Map<number, TIFFValue> {
+  const tags = new Map<number, TIFFValue>();
+  const start = reader.base + ifdOffset;
+  if (ifdOffset === 0 || start + 2 > reader.view.byteLength) return tags;
+
+  const count = reader.view.getUint16(start, reader.littleEndian);
+  for (let i = 0; i < count; i++) {
+    const entry = start + 2 + i * 12;
+    if (entry + 12 > reader.view.byteLength) break;
+    const value = readTIFFValue(reader, entry);
+    if (value !== null) tags.set(reader.view.getUint16(entry, reader.littleEndian), value);
+  }
+  return tags;
+}
+
+/**
+ * Degrees from an EXIF [degrees, minutes, seconds] rational triple
+ */
+function dmsToDegrees(value: TIFFValue | undefined, ref: TIFFValue | undefined, negativeRef: string): number | null {
+  const parts = typeof value === 'number' ? [value] : value;
+  if (!Array.isArray(parts) || parts.length === 0 || parts.some(part => !Number.isFinite(part))) return null;
+  const [degrees, minutes = 0, seconds = 0] = parts;
+  const magnitude = degrees + minutes / 60 + seconds / 3600;
+  return String(ref ?? '').toUpperCase() === negativeRef ? -magnitude : magnitude;
+}
+
+/**
+ * UTC fix time from GPSDateStamp ("2024:05:03") and GPSTimeStamp ([14, 22, 10])
+ */
+function readGPSTime(date: TIFFValue | undefined, time: TIFFValue | undefined): string | undefined {
+  const dateMatch = typeof date === 'string' ? date.match(/^(\d{4}):(\d{2}):(\d{2})$/) : null;
+  if (!dateMatch || !Array.isArray(time) || time.length < 3) return undefined;
+  const [hours, minutes, seconds] = time;
+  const ms = Date.UTC(+dateMatch[1], +dateMatch[2] - 1, +dateMatch[3], hours, minutes, 0) + Math.round(seconds * 1000);
+  return Number.isFinite(ms) ? new Date(ms).toISOString() : undefined;
+}
+
+function readGPS(gpsTags: Map<number, TIFFValue>): ExifGPS | null {
+  const latitude = dmsToDegrees(gpsTags.get(GPS_LATITUDE), gpsTags.get(GPS_LATITUDE_REF), 'S');
+  const longitude = dmsToDegrees(gpsTags.get(GPS_LONGITUDE), gpsTags.get(GPS_LONGITUDE_REF), 'W');
+  // Cameras without a fix may still write the GPS IFD, with zeros
+  if (latitude === null || longitude === null || (latitude === 0 && longitude === 0)) return null;
+
+  const gps: ExifGPS = { latitude, longitude };
+  const altitude = gpsTags.get(GPS_ALTITUDE);
+  if (typeof altitude === 'number' && Number.isFinite(altitude)) {
+    gps.altitude = gpsTags.get(GPS_ALTITUDE_REF) === 1 ? -altitude : altitude;
+  }
+  const direction = gpsTags.get(GPS_IMG_DIRECTION);
+  if (typeof direction === 'number' && Number.isFinite(direction)) gps.direction = direction;
+  const time = readGPSTime(gpsTags.get(GPS_DATE_STAMP), gpsTags.get(GPS_TIME_STAMP));
+  if (time) gps.time = time;
+  return gps;
+}
+
+/**
+ * Decode a TIFF structure (the body of an EXIF block)
+ */
+function readTIFF(view: DataView, base: number): ExifData | null {
+  if (base + 8 > view.byteLength) return null;
+  const order = view.getUint16(base, false);
+  if (order !== 0x4949 && order !== 0x4d4d) return null;
+  const reader: TIFFReader = { view, base, littleEndian: order === 0x4949 };
+  if (view.getUint16(base + 2, reader.littleEndian) !== 42) return null;
+
+  const ifd0 = readIFD(reader, view.getUint32(base + 4, reader.littleEndian));
+  const exifPointer = ifd0.get(EXIF_IFD_POINTER);
+  const gpsPointer = ifd0.get(GPS_IFD_POINTER);
+  const exifIFD = typeof exifPointer === 'number' ? readIFD(reader, exifPointer) : new Map<number, TIFFValue>();
+  const gpsIFD = typeof gpsPointer === 'number' ? readIFD(reader, gpsPointer) : new Map<number, TIFFValue>();
+
+  const tags: Record<string, string | number> = {};
+  for (const [tag, value] of [...ifd0, ...exifIFD]) {
+    const name = EXIF_TAG_NAMES[tag];
+    const scalar = Array.isArray(value) ? value[0] : value;
+    if (!name || scalar === '' || (typeof scalar === 'number' && !Number.isFinite(scalar))) continue;
+    tags[name] = scalar;
+  }
+  return { tags, gps: readGPS(gpsIFD) };
+}
+
+// ============================================================================
+// CONTAINERS
+// ============================================================================
+
+const EXIF_HEADER = 'Exif\0\0';
+
+function readASCII(view: DataView, offset: number, length: number): string {
+  if (offset + length > view.byteLength) return '';
+  return String.fromCharCode(...new Uint8Array(view.buffer, view.byteOffset + offset, length));
+}
+
+/**
+ * Offset of the TIFF header in a JPEG's APP1 Exif segment
+ */
+function findJPEGExif(view: DataView): number | null {
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    if (view.getUint8(offset) !== 0xff) return null;
+    const marker = view.getUint8(offset + 1);
+    // Start of scan: entropy-coded data follows, no more metadata segments
+    if (marker === 0xda || marker === 0xd9) return null;
+    const length = view.getUint16(offset + 2, false);
+    if (marker === 0xe1 && readASCII(view, offset + 4, 6) === EXIF_HEADER) return offset + 10;
+    offset += 2 + length;
+  }
+  return null;
+}
+
+interface Box {
+  type: string;
+  /** Offset of the box content (after the header) */
+  start: number;
+  end: number;
+}
+
+/**
+ * ISO base media file format boxes between two offsets
+ */
+function readBoxes(view: DataView, start: number, end: number): Box[] {
+  const boxes: Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset, false);
+    const type = readASCII(view, offset + 4, 4);
+    let headerSize = 8;
+    if (size === 1) {
+      size = Number(view.getBigUint64(offset + 8, false));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize || offset + size > end) break;
+    boxes.push({ type, start: offset + headerSize, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+}
+
+function readSizedUint(view: DataView, offset: number, size: number): number {
+  switch (size) {
+    case 0: return 0;
+    case 2: return view.getUint16(offset, false);
+    case 4: return view.getUint32(offset, false);
+    case 8: return Number(view.getBigUint64(offset, false));
+    default: throw new RangeError(`Unsupported field size ${size}`);
+  }
+}
+
+/**
+ * Offset of the TIFF header in a HEIF file's Exif item: the item is found
+ * in the meta box's item info (iinf) and located through iloc
+ */
+function findHEIFExif(view: DataView): number | null {
+  const meta = readBoxes(view, 0, view.byteLength).find(box => box.type === 'meta');
+  if (!meta) return null;
+  // meta is a full box: 4 bytes of version and flags precede its children
+  const children = readBoxes(view, meta.start + 4, meta.end);
+
+  const iinf = children.find(box => box.type === 'iinf');
+  const iloc = children.find(box => box.type === 'iloc');
+  if (!iinf || !iloc) return null;
+
+  const iinfVersion = view.getUint8(iinf.start);
+  const entriesStart = iinf.start + 4 + (iinfVersion === 0 ? 2 : 4);
+  let exifItemId: number | null = null;
+  for (const infe of readBoxes(view, entriesStart, iinf.end)) {
+    const version = view.getUint8(infe.start);
+    if (infe.type !== 'infe' || version < 2) continue;
+    const idSize = version === 2 ? 2 : 4;
+    const itemType = readASCII(view, infe.start + 4 + idSize + 2, 4);
+    if (itemType === 'Exif') {
+      exifItemId = readSizedUint(view, infe.start + 4, idSize);
+      break;
+    }
+  }
+  if (exifItemId === null) return null;
+
+  const version = view.getUint8(iloc.start);
+  let offset = iloc.start + 4;
+  const sizes = view.getUint16(offset, false);
+  const offsetSize = sizes >> 12;
+  const lengthSize = (sizes >> 8) & 0xf;
+  const baseOffsetSize = (sizes >> 4) & 0xf;
+  const indexSize = version === 1 || version === 2 ? sizes & 0xf : 0;
+  offset += 2;
+  const itemCount = version < 2 ? view.getUint16(offset, false) : view.getUint32(offset, false);
+  offset += version < 2 ? 2 : 4;
+
+  for (let i = 0; i < itemCount; i++) {
+    const itemId = version < 2 ? view.getUint16(offset, false) : view.getUint32(offset, false);
+    offset += version < 2 ? 2 : 4;
+    // construction_method (versions 1 and 2); 0 means the data is at a file offset
+    const constructionMethod = version === 1 || version === 2 ? view.getUint16(offset, false) & 0xf : 0;
+    if (version === 1 || version === 2) offset += 2;
+    offset += 2; // data_reference_index
+    const baseOffset = readSizedUint(view, offset, baseOffsetSize);
+    offset += baseOffsetSize;
+    const extentCount = view.getUint16(offset, false);
+    offset += 2;
+
+    const extentStart = offset + indexSize;
+    offset += extentCount * (indexSize + offsetSize + lengthSize);
+    if (itemId !== exifItemId) continue;
+    if (constructionMethod !== 0 || extentCount === 0) return null;
+
+    // The item starts with the offset of the TIFF header past a 4-byte field
+    const itemStart = baseOffset + readSizedUint(view, extentStart, offsetSize);
+    if (itemStart + 4 > view.byteLength) return null;
+    return itemStart + 4 + view.getUint32(itemStart, false);
+  }
+  return null;
+}
+
+function isHEIF(view: DataView): boolean {
+  return view.byteLength >= 12
+    && readASCII(view, 4, 4) === 'ftyp'
+    && HEIF_BRANDS.has(readASCII(view, 8, 4));
+}
+
+/**
+ * Whether the leading bytes are a JPEG or HEIF image
+ */
+export function isPhotoHeader(head: Uint8Array): boolean {
+  const view = new DataView(head.buffer, head.byteOffset, head.byteLength);
+  return (head.length >= 3 && head[0] === 0xff && head[1] === 0xd8 && head[2] === 0xff) || isHEIF(view);
+}
+
+/**
+ * Read the EXIF block of a JPEG or HEIC/HEIF photo
+ *
+ * @param bytes - Photo file content
+ * @returns Tags and GPS fix, or null when the file has no readable EXIF block
+ */
+export function readExif(bytes: Uint8Array): ExifData | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  try {
+    let tiffStart: number | null = null;
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+      tiffStart = findJPEGExif(view);
+    } else if (isHEIF(view)) {
+      tiffStart = findHEIFExif(view);
+    }
+    return tiffStart === null ? null : readTIFF(view, tiffStart);
+  } catch {
+    return null;
+  }
+}
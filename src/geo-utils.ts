@@ -131,6 +131,745 @@ export function isValidCoordinate(lat: number, lng: number): boolean {
   );
 }
 
+// ============================================================================
+// COORDINATE NOTATION PARSING
+// ============================================================================
+
+const HEMISPHERES = /[NSEW]/g;
+const NUMBER = /\d*\.?\d+/g;
+const DMS_ALLOWED = /^[\s\d.+\-°º˚'′’"″”:dmsNSEW]+$/;
+const DMS_COMPONENT = /[+-]?\s*\d+(?:\.\d+)?\s*[°º˚d](?:\s*\d+(?:\.\d+)?\s*['′’m])?(?:\s*\d+(?:\.\d+)?\s*(?:["″”s]|''))?/g;
+
+/**
+ * Parse a single coordinate value in decimal degrees, degrees-minutes-seconds
+ * (42°10'12"N) or degrees and decimal minutes (42°10.2'N, N42 10.2).
+ * A S/W hemisphere letter or leading minus makes the value negative.
+ *
+ * @param text - Coordinate text
+ * @param axis - Expected axis; hemisphere letters for the other axis are rejected
+ * @returns Decimal degrees, or null if the text is not a coordinate
+ */
+export function parseCoordinateValue(text: string, axis?: 'lat' | 'lng'): number | null {
+  const trimmed = text.trim();
+  if (/^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/.test(trimmed)) {
+    return parseFloat(trimmed);
+  }
+  if (!trimmed || !DMS_ALLOWED.test(trimmed)) return null;
+
+  const hemispheres = trimmed.match(HEMISPHERES) || [];
+  if (hemispheres.length > 1) return null;
+  const hemisphere = hemispheres[0];
+  if (hemisphere && axis) {
+    const isLat = hemisphere === 'N' || hemisphere === 'S';
+    if (isLat !== (axis === 'lat')) return null;
+  }
+
+  const numbers = (trimmed.match(NUMBER) || []).map(Number);
+  if (numbers.length === 0 || numbers.length > 3) return null;
+  const [deg, min = 0, sec = 0] = numbers;
+  if (min >= 60 || sec >= 60) return null;
+
+  const value = deg + min / 60 + sec / 3600;
+  const negative = trimmed.includes('-') || hemisphere === 'S' || hemisphere === 'W';
+  return negative ? -value : value;
+}
+
+/**
+ * Split a combined coordinate string into its two components
+ */
+function splitCoordinatePair(text: string): [string, string] | null {
+  // Hemisphere letters mark the boundary: N42 W78 (prefix) or 42N 78W (suffix)
+  const letters = [...text.matchAll(HEMISPHERES)];
+  if (letters.length === 2) {
+    const prefixStyle = /^\s*[NSEW]/.test(text);
+    const splitAt = prefixStyle ? letters[1].index! : letters[0].index! + 1;
+    return [text.slice(0, splitAt).replace(/[,;]\s*$/, ''), text.slice(splitAt).replace(/^\s*[,;]/, '')];
+  }
+  if (letters.length !== 0) return null;
+
+  const separated = text.split(/[,;]/);
+  if (separated.length === 2) return [separated[0], separated[1]];
+
+  const words = text.trim().split(/\s+/);
+  if (words.length === 2) return [words[0], words[1]];
+
+  const components = text.match(DMS_COMPONENT);
+  if (components && components.length === 2) return [components[0], components[1]];
+
+  return null;
+}
+
+/**
+ * Convert UTM coordinates (WGS84) to latitude/longitude.
+ *
+ * @param zone - UTM zone number (1-60)
+ * @param northern - True for the northern hemisphere
+ * @param easting - Easting in meters
+ * @param northing - Northing in meters
+ * @returns Latitude/longitude in decimal degrees
+ */
+export function utmToLatLng(
+  zone: number,
+  northern: boolean,
+  easting: number,
+  northing: number
+): { lat: number; lng: number } {
+  return unproject(easting, northing, {
+    method: 'transverse_mercator',
+    ellipsoid: WGS84_ELLIPSOID,
+    centralMeridian: (zone - 1) * 6 - 180 + 3,
+    latitudeOfOrigin: 0,
+    scaleFactor: 0.9996,
+    falseEasting: 500000,
+    falseNorthing: northern ? 0 : 10000000,
+    unit: 1,
+  });
+}
+
+const MGRS_BANDS = 'CDEFGHJKLMNPQRSTUVWX';
+
+/** Lowest northing (meters) reached by each MGRS latitude band */
+const MGRS_BAND_MIN_NORTHING: Record<string, number> = {
+  C: 1100000, D: 2000000, E: 2800000, F: 3700000, G: 4600000,
+  H: 5500000, J: 6400000, K: 7300000, L: 8200000, M: 9100000,
+  N: 0, P: 800000, Q: 1700000, R: 2600000, S: 3500000,
+  T: 4400000, U: 5300000, V: 6200000, W: 7000000, X: 7900000,
+};
+
+/**
+ * Convert an MGRS grid reference (e.g. "18SUJ2348706483") to latitude/longitude.
+ *
+ * @param mgrs - MGRS reference, spaces allowed
+ * @returns Latitude/longitude (south-west corner of the grid square), or null if invalid
+ */
+export function mgrsToLatLng(mgrs: string): { lat: number; lng: number } | null {
+  const match = mgrs.toUpperCase().replace(/\s+/g, '')
+    .match(/^(\d{1,2})([C-HJ-NP-X])([A-HJ-NP-Z])([A-HJ-NP-V])(\d*)$/);
+  if (!match) return null;
+
+  const [, zoneText, band, column, row, digits] = match;
+  const zone = parseInt(zoneText, 10);
+  if (zone < 1 || zone > 60 || digits.length % 2 !== 0 || digits.length > 10) return null;
+
+  const set = zone % 6 || 6;
+  const columnLetters = ['ABCDEFGH', 'JKLMNPQR', 'STUVWXYZ'][(set - 1) % 3];
+  const columnIndex = columnLetters.indexOf(column);
+  if (columnIndex === -1) return null;
+
+  const rowLetters = 'ABCDEFGHJKLMNPQRSTUV';
+  const rowOffset = set % 2 === 0 ? 5 : 0;
+  const rowIndex = (rowLetters.indexOf(row) - rowOffset + 20) % 20;
+
+  const precision = digits.length / 2;
+  const scale = 10 ** (5 - precision);
+  const easting = (columnIndex + 1) * 100000 + (precision ? parseInt(digits.slice(0, precision), 10) * scale : 0);
+  let northing = rowIndex * 100000 + (precision ? parseInt(digits.slice(precision), 10) * scale : 0);
+  while (northing < MGRS_BAND_MIN_NORTHING[band]) {
+    northing += 2000000;
+  }
+
+  return utmToLatLng(zone, MGRS_BANDS.indexOf(band) >= MGRS_BANDS.indexOf('N'), easting, northing);
+}
+
+/**
+ * Parse a combined coordinate string. Detects:
+ * - Decimal pairs: "42.17, -78.74" or "42.17 -78.74" (lat first)
+ * - DMS / decimal minutes: 42°10'12"N 78°44'24"W, N42 10.2 W78 44.4
+ * - UTM: "17T 630084 4833438" (zone, latitude band, easting, northing)
+ * - MGRS: "17TPH3008433438"
+ *
+ * @param text - Coordinate text
+ * @returns Latitude/longitude, or null if no notation matched or the result is invalid
+ */
+export function parseCoordinateString(text: string): { lat: number; lng: number } | null {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+
+  let result: { lat: number; lng: number } | null = null;
+
+  const utm = trimmed.toUpperCase()
+    .match(/^(\d{1,2})\s*([C-HJ-NP-X])\s+(\d+(?:\.\d+)?)\s*(?:M?E)?\s*[,\s]\s*(\d+(?:\.\d+)?)\s*(?:M?N)?$/);
+  if (utm) {
+    const zone = parseInt(utm[1], 10);
+    if (zone >= 1 && zone <= 60) {
+      const northern = MGRS_BANDS.indexOf(utm[2]) >= MGRS_BANDS.indexOf('N');
+      result = utmToLatLng(zone, northern, parseFloat(utm[3]), parseFloat(utm[4]));
+    }
+  } else if (/^\d{1,2}\s*[C-HJ-NP-X]\s*[A-Z]{2}\s*\d*\s*\d*$/i.test(trimmed)) {
+    result = mgrsToLatLng(trimmed);
+  } else {
+    const parts = splitCoordinatePair(trimmed);
+    if (parts) {
+      const [first, second] = parts;
+      const firstIsLng = /[EW]/.test(first);
+      const lat = parseCoordinateValue(firstIsLng ? second : first, 'lat');
+      const lng = parseCoordinateValue(firstIsLng ? first : second, 'lng');
+      if (lat !== null && lng !== null) {
+        // Without hemisphere letters, a first value beyond ±90 must be longitude
+        result = Math.abs(lat) > 90 && Math.abs(lng) <= 90 && !/[NSEW]/.test(trimmed)
+          ? { lat: lng, lng: lat }
+          : { lat, lng };
+      }
+    }
+  }
+
+  return result && isValidCoordinate(result.lat, result.lng) ? result : null;
+}
+
+/** Google Maps URL patterns, most precise first: place pin (!3d!4d), viewport (@), query */
+const GOOGLE_MAPS_URL_PATTERNS = [
+  /!3d(-?\d+(?:\.\d+)?)!4d(-?\d+(?:\.\d+)?)/,
+  /@(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)/,
+  /[?&](?:q|query|ll|center|destination)=(-?\d+(?:\.\d+)?),\s*\+?(-?\d+(?:\.\d+)?)/,
+  /\/(?:search|place|dir)\/(-?\d+(?:\.\d+)?),\s*\+?(-?\d+(?:\.\d+)?)/,
+];
+
+/**
+ * Extract coordinates from a Google Maps URL, e.g.
+ * .../place/Smith+Mill/@42.1701,-78.7402,17z/data=!3d42.1701!4d-78.7402
+ *
+ * @param url - Google Maps URL
+ * @returns Latitude/longitude, or null if the URL holds no coordinates (e.g. ?cid= links)
+ */
+export function parseGoogleMapsUrl(url: string): { lat: number; lng: number } | null {
+  let decoded = url;
+  try {
+    decoded = decodeURIComponent(url);
+  } catch {
+    // Malformed escapes: match against the raw URL
+  }
+
+  for (const pattern of GOOGLE_MAPS_URL_PATTERNS) {
+    const match = decoded.match(pattern);
+    if (!match) continue;
+    const lat = parseFloat(match[1]);
+    const lng = parseFloat(match[2]);
+    if (isValidCoordinate(lat, lng)) return { lat, lng };
+  }
+
+  return null;
+}
+
+// ============================================================================
+// MAP PROJECTIONS
+// ============================================================================
+
+/**
+ * Reference ellipsoid
+ */
+export interface Ellipsoid {
+  /** Semi-major axis in meters */
+  a: number;
+  /** Flattening (0 for a sphere) */
+  f: number;
+}
+
+export const WGS84_ELLIPSOID: Ellipsoid = { a: 6378137, f: 1 / 298.257223563 };
+
+/**
+ * Projected coordinate system, as described by a .prj file.
+ * Angles are in degrees; false easting/northing are in projected units.
+ */
+export interface Projection {
+  method: 'transverse_mercator' | 'lambert_conformal_conic' | 'albers' | 'mercator';
+  ellipsoid: Ellipsoid;
+  centralMeridian: number;
+  latitudeOfOrigin: number;
+  standardParallel1?: number;
+  standardParallel2?: number;
+  scaleFactor: number;
+  falseEasting: number;
+  falseNorthing: number;
+  /** Meters per projected unit (0.3048006096 for US survey feet) */
+  unit: number;
+}
+
+const DEG = Math.PI / 180;
+
+/** Meridian arc length from the equator to latitude phi (Snyder 3-21) */
+function meridianArc(phi: number, a: number, e2: number): number {
+  return a * (
+    (1 - e2 / 4 - 3 * e2 ** 2 / 64 - 5 * e2 ** 3 / 256) * phi
+    - (3 * e2 / 8 + 3 * e2 ** 2 / 32 + 45 * e2 ** 3 / 1024) * Math.sin(2 * phi)
+    + (15 * e2 ** 2 / 256 + 45 * e2 ** 3 / 1024) * Math.sin(4 * phi)
+    - (35 * e2 ** 3 / 3072) * Math.sin(6 * phi)
+  );
+}
+
+/** Snyder's m (14-15) */
+function conicM(phi: number, e2: number): number {
+  return Math.cos(phi) / Math.sqrt(1 - e2 * Math.sin(phi) ** 2);
+}
+
+/** Snyder's t (15-9) */
+function conformalT(phi: number, e: number): number {
+  const sinPhi = Math.sin(phi);
+  return Math.tan(Math.PI / 4 - phi / 2) / ((1 - e * sinPhi) / (1 + e * sinPhi)) ** (e / 2);
+}
+
+/** Invert t back to latitude by iteration (Snyder 7-9) */
+function latitudeFromT(t: number, e: number): number {
+  let phi = Math.PI / 2 - 2 * Math.atan(t);
+  for (let i = 0; i < 15; i++) {
+    const sinPhi = Math.sin(phi);
+    const next = Math.PI / 2 - 2 * Math.atan(t * ((1 - e * sinPhi) / (1 + e * sinPhi)) ** (e / 2));
+    if (Math.abs(next - phi) < 1e-12) return next;
+    phi = next;
+  }
+  return phi;
+}
+
+/** Snyder's q (3-12) */
+function authalicQ(phi: number, e: number): number {
+  const sinPhi = Math.sin(phi);
+  const e2 = e * e;
+  if (e === 0) return 2 * sinPhi;
+  return (1 - e2) * (
+    sinPhi / (1 - e2 * sinPhi ** 2)
+    - (1 / (2 * e)) * Math.log((1 - e * sinPhi) / (1 + e * sinPhi))
+  );
+}
+
+function inverseTransverseMercator(x: number, y: number, p: Projection): { phi: number; lambda: number } {
+  const { a, f } = p.ellipsoid;
+  const k0 = p.scaleFactor;
+  const e2 = f * (2 - f);
+  const ep2 = e2 / (1 - e2);
+  const e1 = (1 - Math.sqrt(1 - e2)) / (1 + Math.sqrt(1 - e2));
+
+  const m = meridianArc(p.latitudeOfOrigin * DEG, a, e2) + y / k0;
+  const mu = m / (a * (1 - e2 / 4 - 3 * e2 ** 2 / 64 - 5 * e2 ** 3 / 256));
+  const phi1 = mu
+    + (3 * e1 / 2 - 27 * e1 ** 3 / 32) * Math.sin(2 * mu)
+    + (21 * e1 ** 2 / 16 - 55 * e1 ** 4 / 32) * Math.sin(4 * mu)
+    + (151 * e1 ** 3 / 96) * Math.sin(6 * mu)
+    + (1097 * e1 ** 4 / 512) * Math.sin(8 * mu);
+
+  const sinPhi = Math.sin(phi1);
+  const cosPhi = Math.cos(phi1);
+  const n1 = a / Math.sqrt(1 - e2 * sinPhi ** 2);
+  const t1 = Math.tan(phi1) ** 2;
+  const c1 = ep2 * cosPhi ** 2;
+  const r1 = a * (1 - e2) / (1 - e2 * sinPhi ** 2) ** 1.5;
+  const d = x / (n1 * k0);
+
+  const phi = phi1 - (n1 * Math.tan(phi1) / r1) * (
+    d ** 2 / 2
+    - (5 + 3 * t1 + 10 * c1 - 4 * c1 ** 2 - 9 * ep2) * d ** 4 / 24
+    + (61 + 90 * t1 + 298 * c1 + 45 * t1 ** 2 - 252 * ep2 - 3 * c1 ** 2) * d ** 6 / 720
+  );
+  const lambda = (
+    d
+    - (1 + 2 * t1 + c1) * d ** 3 / 6
+    + (5 - 2 * c1 + 28 * t1 - 3 * c1 ** 2 + 8 * ep2 + 24 * t1 ** 2) * d ** 5 / 120
+  ) / cosPhi;
+
+  return { phi, lambda };
+}
+
+function inverseLambertConformalConic(x: number, y: number, p: Projection): { phi: number; lambda: number } {
+  const { a, f } = p.ellipsoid;
+  const e2 = f * (2 - f);
+  const e = Math.sqrt(e2);
+  const phi0 = p.latitudeOfOrigin * DEG;
+
+  // 2SP when standard parallels are given, otherwise 1SP at the latitude of origin
+  const k0 = p.scaleFactor;
+  let n: number;
+  let bigF: number;
+  if (p.standardParallel1 !== undefined) {
+    const phi1 = p.standardParallel1 * DEG;
+    const phi2 = (p.standardParallel2 ?? p.standardParallel1) * DEG;
+    const m1 = conicM(phi1, e2);
+    const t1 = conformalT(phi1, e);
+    n = Math.abs(phi1 - phi2) < 1e-10
+      ? Math.sin(phi1)
+      : (Math.log(m1) - Math.log(conicM(phi2, e2))) / (Math.log(t1) - Math.log(conformalT(phi2, e)));
+    bigF = m1 / (n * t1 ** n);
+  } else {
+    n = Math.sin(phi0);
+    bigF = conicM(phi0, e2) / (n * conformalT(phi0, e) ** n);
+  }
+
+  const rho0 = a * bigF * k0 * conformalT(phi0, e) ** n;
+  const dy = rho0 - y;
+  const sign = Math.sign(n);
+  const rho = sign * Math.sqrt(x * x + dy * dy);
+  const theta = Math.atan2(sign * x, sign * dy);
+
+  const phi = rho === 0
+    ? sign * Math.PI / 2
+    : latitudeFromT((rho / (a * k0 * bigF)) ** (1 / n), e);
+  return { phi, lambda: theta / n };
+}
+
+function inverseAlbers(x: number, y: number, p: Projection): { phi: number; lambda: number } {
+  const { a, f } = p.ellipsoid;
+  const e2 = f * (2 - f);
+  const e = Math.sqrt(e2);
+  const phi0 = p.latitudeOfOrigin * DEG;
+  const phi1 = (p.standardParallel1 ?? p.latitudeOfOrigin) * DEG;
+  const phi2 = (p.standardParallel2 ?? p.standardParallel1 ?? p.latitudeOfOrigin) * DEG;
+
+  const m1 = conicM(phi1, e2);
+  const q1 = authalicQ(phi1, e);
+  const n = Math.abs(phi1 - phi2) < 1e-10
+    ? Math.sin(phi1)
+    : (m1 ** 2 - conicM(phi2, e2) ** 2) / (authalicQ(phi2, e) - q1);
+  const c = m1 ** 2 + n * q1;
+  const rho0 = a * Math.sqrt(c - n * authalicQ(phi0, e)) / n;
+
+  const dy = rho0 - y;
+  const sign = Math.sign(n);
+  const rho = Math.sqrt(x * x + dy * dy);
+  const theta = Math.atan2(sign * x, sign * dy);
+  const q = (c - (rho * n / a) ** 2) / n;
+
+  // Iterate latitude from q (Snyder 3-16)
+  let phi = Math.asin(Math.max(-1, Math.min(1, q / 2)));
+  if (e > 0) {
+    for (let i = 0; i < 15; i++) {
+      const sinPhi = Math.sin(phi);
+      const oneMinus = 1 - e2 * sinPhi ** 2;
+      const delta = (oneMinus ** 2 / (2 * Math.cos(phi))) * (
+        q / (1 - e2)
+        - sinPhi / oneMinus
+        + (1 / (2 * e)) * Math.log((1 - e * sinPhi) / (1 + e * sinPhi))
+      );
+      phi += delta;
+      if (Math.abs(delta) < 1e-12) break;
+    }
+  }
+  return { phi, lambda: theta / n };
+}
+
+function inverseMercator(x: number, y: number, p: Projection): { phi: number; lambda: number } {
+  const { a, f } = p.ellipsoid;
+  const e2 = f * (2 - f);
+  const e = Math.sqrt(e2);
+  const k0 = p.standardParallel1 !== undefined ? conicM(p.standardParallel1 * DEG, e2) : p.scaleFactor;
+
+  return {
+    phi: latitudeFromT(Math.exp(-y / (a * k0)), e),
+    lambda: x / (a * k0),
+  };
+}
+
+/**
+ * Convert projected coordinates back to latitude/longitude on the
+ * projection's own datum (no datum shift is applied).
+ *
+ * @param x - Easting in projected units
+ * @param y - Northing in projected units
+ * @param projection - Projection parameters
+ * @returns Latitude/longitude in decimal degrees
+ */
+export function unproject(x: number, y: number, projection: Projection): { lat: number; lng: number } {
+  const dx = (x - projection.falseEasting) * projection.unit;
+  const dy = (y - projection.falseNorthing) * projection.unit;
+
+  let result: { phi: number; lambda: number };
+  switch (projection.method) {
+    case 'transverse_mercator':
+      result = inverseTransverseMercator(dx, dy, projection);
+      break;
+    case 'lambert_conformal_conic':
+      result = inverseLambertConformalConic(dx, dy, projection);
+      break;
+    case 'albers':
+      result = inverseAlbers(dx, dy, projection);
+      break;
+    case 'mercator':
+      result = inverseMercator(dx, dy, projection);
+      break;
+  }
+
+  let lng = projection.centralMeridian + result.lambda / DEG;
+  if (lng > 180) lng -= 360;
+  if (lng < -180) lng += 360;
+  return { lat: result.phi / DEG, lng };
+}
+
+// ============================================================================
+// POLYGON CENTROIDS
+// ============================================================================
+// Rings are GeoJSON positions ([lng, lat]); a polygon is [outer, ...holes]
+// and the functions take a list of polygons so MultiPolygons are covered.
+// Areas are planar in degrees, which is accurate enough for feature-sized
+// shapes; results are [lat, lng] like calculateCentroid.
+
+/**
+ * Ray-casting test for a point inside a ring (closed or open)
+ */
+export function ringContains(ring: number[][], point: number[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > point[1]) !== (yj > point[1]) && point[0] < (xj - xi) * (point[1] - yi) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Signed area and first moments of a ring (shoelace formula), measured
+ * from an origin near the shape to keep precision
+ */
+function ringMoments(ring: number[][], origin: number[]): { area: number; mx: number; my: number } {
+  let area = 0;
+  let mx = 0;
+  let my = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const xi = ring[i][0] - origin[0];
+    const yi = ring[i][1] - origin[1];
+    const xj = ring[j][0] - origin[0];
+    const yj = ring[j][1] - origin[1];
+    const cross = xj * yi - xi * yj;
+    area += cross;
+    mx += (xj + xi) * cross;
+    my += (yj + yi) * cross;
+  }
+  return { area: area / 2, mx, my };
+}
+
+function polygonArea(rings: number[][][]): number {
+  if (rings.length === 0 || rings[0].length === 0) return 0;
+  return rings.reduce((sum, ring, k) => {
+    const area = Math.abs(ringMoments(ring, rings[0][0]).area);
+    return k === 0 ? sum + area : sum - area;
+  }, 0);
+}
+
+function polygonsContain(polygons: number[][][][], point: number[]): boolean {
+  return polygons.some(rings => rings.reduce((inside, ring) => (ringContains(ring, point) ? !inside : inside), false));
+}
+
+/**
+ * Area-weighted centroid of one or more polygons, holes subtracted.
+ * Ring winding does not matter. Degenerate (zero-area) shapes fall back
+ * to the average of their outer ring vertices.
+ *
+ * @param polygons - Polygons as GeoJSON rings ([lng, lat] positions)
+ * @returns Centroid [lat, lng]
+ */
+export function calculatePolygonCentroid(polygons: number[][][][]): [number, number] {
+  const outers = polygons.map(rings => rings[0] ?? []).filter(ring => ring.length > 0);
+  if (outers.length === 0) {
+    throw new Error('Cannot calculate centroid of empty polygon');
+  }
+
+  const origin = outers[0][0];
+  let area = 0;
+  let mx = 0;
+  let my = 0;
+  for (const rings of polygons) {
+    rings.forEach((ring, k) => {
+      const moments = ringMoments(ring, origin);
+      if (moments.area === 0) return;
+      // Outer rings add and holes subtract, whatever their winding
+      const weight = (k === 0 ? 1 : -1) * Math.sign(moments.area);
+      area += weight * moments.area;
+      mx += weight * moments.mx;
+      my += weight * moments.my;
+    });
+  }
+
+  if (area <= 0) {
+    const vertices = outers.flatMap(ring => {
+      const first = ring[0];
+      const last = ring[ring.length - 1];
+      const closed = ring.length > 1 && first[0] === last[0] && first[1] === last[1];
+      return closed ? ring.slice(0, -1) : ring;
+    });
+    return calculateCentroid(vertices.map(([lng, lat]) => [lat, lng]));
+  }
+
+  return [origin[1] + my / (6 * area), origin[0] + mx / (6 * area)];
+}
+
+/**
+ * A point guaranteed to lie inside the largest polygon: the middle of the
+ * widest interior span along a horizontal line through its middle.
+ *
+ * @param polygons - Polygons as GeoJSON rings ([lng, lat] positions)
+ * @returns Interior point [lat, lng]
+ */
+export function calculatePointOnSurface(polygons: number[][][][]): [number, number] {
+  let largest: number[][][] | null = null;
+  let largestArea = -1;
+  for (const rings of polygons) {
+    const area = polygonArea(rings);
+    if (rings[0]?.length > 0 && area > largestArea) {
+      largest = rings;
+      largestArea = area;
+    }
+  }
+  if (!largest) {
+    throw new Error('Cannot calculate point on surface of empty polygon');
+  }
+
+  // Scan between the two vertex latitudes around the middle so the line
+  // never passes through a vertex
+  const ys = largest[0].map(pos => pos[1]);
+  const middle = (Math.min(...ys) + Math.max(...ys)) / 2;
+  const below = Math.max(...ys.filter(y => y <= middle));
+  const above = Math.min(...ys.filter(y => y > middle));
+  if (!isFinite(above)) return calculatePolygonCentroid([largest]);
+  const scanY = (below + above) / 2;
+
+  const crossings: number[] = [];
+  for (const ring of largest) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i];
+      const [xj, yj] = ring[j];
+      if ((yi > scanY) !== (yj > scanY)) {
+        crossings.push(xi + (scanY - yi) * (xj - xi) / (yj - yi));
+      }
+    }
+  }
+  crossings.sort((a, b) => a - b);
+
+  let bestX = crossings.length >= 2 ? (crossings[0] + crossings[1]) / 2 : NaN;
+  let bestWidth = -1;
+  for (let i = 0; i + 1 < crossings.length; i += 2) {
+    const width = crossings[i + 1] - crossings[i];
+    if (width > bestWidth) {
+      bestWidth = width;
+      bestX = (crossings[i] + crossings[i + 1]) / 2;
+    }
+  }
+  if (isNaN(bestX)) return calculatePolygonCentroid([largest]);
+
+  return [scanY, bestX];
+}
+
+/**
+ * Representative point of an areal feature: the area-weighted centroid
+ * when it falls inside the shape, otherwise a point on its surface
+ * (L-shaped buildings, crescent-shaped lakes, island groups).
+ *
+ * @param polygons - Polygons as GeoJSON rings ([lng, lat] positions)
+ * @returns Representative point [lat, lng]
+ */
+export function calculateRepresentativePoint(polygons: number[][][][]): [number, number] {
+  const [lat, lng] = calculatePolygonCentroid(polygons);
+  return polygonsContain(polygons, [lng, lat]) ? [lat, lng] : calculatePointOnSurface(polygons);
+}
+
+// ============================================================================
+// TRACK STATISTICS
+// ============================================================================
+
+export interface TrackPoint {
+  lat: number;
+  lng: number;
+  /** Elevation in meters */
+  ele: number | null;
+  /** ISO 8601 timestamp */
+  time: string | null;
+}
+
+export interface TrackStats {
+  pointCount: number;
+  segmentCount: number;
+  /** Total length in meters (sum of segment lengths, gaps excluded) */
+  lengthMeters: number;
+  /** Total ascent in meters (null when no elevation data) */
+  elevationGain: number | null;
+  /** Total descent in meters (null when no elevation data) */
+  elevationLoss: number | null;
+  startTime: string | null;
+  endTime: string | null;
+  /** Time spent above the moving-speed threshold (null when no time data) */
+  movingDurationSeconds: number | null;
+  bounds: { minLat: number; maxLat: number; minLng: number; maxLng: number };
+}
+
+/** Below this speed (m/s) a track point is considered stationary */
+export const MIN_MOVING_SPEED = 0.5;
+
+const round1 = (value: number): number => Math.round(value * 10) / 10;
+
+/**
+ * Calculate length, elevation, time and extent statistics for a track.
+ *
+ * @param segments - Track segments, each an ordered list of points
+ * @param minMovingSpeed - Speed (m/s) below which time is not counted as moving
+ * @returns Track statistics
+ */
+export function calculateTrackStats(
+  segments: TrackPoint[][],
+  minMovingSpeed: number = MIN_MOVING_SPEED
+): TrackStats {
+  let pointCount = 0;
+  let lengthMeters = 0;
+  let gain = 0;
+  let loss = 0;
+  let hasElevation = false;
+  let movingSeconds = 0;
+  let hasTime = false;
+  let startMs: number | null = null;
+  let endMs: number | null = null;
+  const bounds = { minLat: Infinity, maxLat: -Infinity, minLng: Infinity, maxLng: -Infinity };
+
+  for (const segment of segments) {
+    for (let i = 0; i < segment.length; i++) {
+      const pt = segment[i];
+      pointCount++;
+
+      bounds.minLat = Math.min(bounds.minLat, pt.lat);
+      bounds.maxLat = Math.max(bounds.maxLat, pt.lat);
+      bounds.minLng = Math.min(bounds.minLng, pt.lng);
+      bounds.maxLng = Math.max(bounds.maxLng, pt.lng);
+
+      const ms = pt.time ? Date.parse(pt.time) : NaN;
+      if (!isNaN(ms)) {
+        if (startMs === null || ms < startMs) startMs = ms;
+        if (endMs === null || ms > endMs) endMs = ms;
+      }
+
+      if (i === 0) continue;
+      const prev = segment[i - 1];
+      const distance = haversineDistance(prev.lat, prev.lng, pt.lat, pt.lng);
+      lengthMeters += distance;
+
+      if (prev.ele !== null && pt.ele !== null) {
+        hasElevation = true;
+        const delta = pt.ele - prev.ele;
+        if (delta > 0) gain += delta;
+        else loss -= delta;
+      }
+
+      const prevMs = prev.time ? Date.parse(prev.time) : NaN;
+      if (!isNaN(prevMs) && !isNaN(ms)) {
+        hasTime = true;
+        const seconds = (ms - prevMs) / 1000;
+        if (seconds > 0 && distance / seconds >= minMovingSpeed) {
+          movingSeconds += seconds;
+        }
+      }
+    }
+  }
+
+  if (pointCount === 0) {
+    throw new Error('Cannot calculate statistics of empty track');
+  }
+
+  return {
+    pointCount,
+    segmentCount: segments.filter(s => s.length > 0).length,
+    lengthMeters: round1(lengthMeters),
+    elevationGain: hasElevation ? round1(gain) : null,
+    elevationLoss: hasElevation ? round1(loss) : null,
+    startTime: startMs !== null ? new Date(startMs).toISOString() : null,
+    endTime: endMs !== null ? new Date(endMs).toISOString() : null,
+    movingDurationSeconds: hasTime ? Math.round(movingSeconds) : null,
+    bounds,
+  };
+}
+
 // ============================================================================
 // US STATE LOOKUP (Bounding Box Approximation)
 // ============================================================================
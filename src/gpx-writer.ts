@@ -0,0 +1,244 @@
+/**
+ * GPX Writer Module
+ *
+ * Writes points as a GPX 1.1 document: waypoints with their native
+ * elevation, time, link and symbol, lines as tracks, and routes as <rte>.
+ * Metadata without a GPX element goes under the mapsh-pit extensions
+ * namespace, which the GPX parser reads back into rawMetadata.
+ */
+
+import {
+  getTimestampRange,
+  MAPSH_PIT_GPX_NS,
+  type ParsedMapPoint,
+  type MapGeometry,
+  type Position,
+} from './parser.js';
+import type { TrackStats } from './geo-utils.js';
+import { escapeXML } from './kml-writer.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface GPXWriterOptions {
+  /** Metadata name (default: "Exported Points") */
+  name?: string;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const OSMAND_NS = 'https://osmand.net';
+
+/** Waypoint metadata written as native GPX elements */
+const NATIVE_WAYPOINT_FIELDS = new Set(['elevation', 'link', 'symbol', 'osmand']);
+
+/** Track statistics, recalculated by the parser and so not written */
+const TRACK_STAT_FIELDS: Record<keyof TrackStats, true> = {
+  pointCount: true,
+  segmentCount: true,
+  lengthMeters: true,
+  elevationGain: true,
+  elevationLoss: true,
+  startTime: true,
+  endTime: true,
+  movingDurationSeconds: true,
+  bounds: true,
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * GPX times are full date-times: reduced-precision dates start at midnight UTC
+ */
+function toXSDDateTime(time: string): string {
+  const range = getTimestampRange(time);
+  return range ? new Date(range[0]).toISOString() : time;
+}
+
+/**
+ * GPX has no area or multi-line types: lines and polygon rings become track segments
+ */
+function getGPXSegments(geometry: MapGeometry): Position[][] {
+  switch (geometry.type) {
+    case 'LineString': return [geometry.coordinates];
+    case 'MultiLineString':
+    case 'Polygon': return geometry.coordinates;
+    case 'MultiPolygon': return geometry.coordinates.flat();
+    case 'GeometryCollection': return geometry.geometries.flatMap(getGPXSegments);
+    default: return [];
+  }
+}
+
+/**
+ * Write OsmAnd favourite fields back as <extensions> (the group travels as <type>)
+ */
+function formatOsmAndExtensions(osmand: unknown, indent: string): string[] {
+  if (!osmand || typeof osmand !== 'object') return [];
+  return Object.entries(osmand as Record<string, unknown>)
+    .filter(([key, value]) => key !== 'group' && /^[A-Za-z_][\w-]*$/.test(key) && value !== null && value !== undefined)
+    .map(([key, value]) => `${indent}<osmand:${key}>${escapeXML(String(value))}</osmand:${key}>`);
+}
+
+/**
+ * <mapsh-pit:field> elements for metadata without a GPX element. Strings
+ * are written as text, other values as JSON with type="json".
+ */
+function formatFieldExtensions(fields: Array<[string, unknown]>, indent: string): string[] {
+  const lines: string[] = [];
+  for (const [name, value] of fields) {
+    if (value === null || value === undefined) continue;
+    const attrs = `name="${escapeXML(name)}"${typeof value === 'string' ? '' : ' type="json"'}`;
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    lines.push(`${indent}<mapsh-pit:field ${attrs}>${escapeXML(text)}</mapsh-pit:field>`);
+  }
+  return lines;
+}
+
+function formatExtensions(extensions: string[], indent: string): string[] {
+  return extensions.length > 0 ? [`${indent}<extensions>`, ...extensions, `${indent}</extensions>`] : [];
+}
+
+/**
+ * Elevation from metadata, as a number or numeric text
+ */
+function getElevation(value: unknown): number | null {
+  const elevation = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof elevation === 'number' && Number.isFinite(elevation) ? elevation : null;
+}
+
+// ============================================================================
+// WRITER
+// ============================================================================
+
+interface GPXDocumentParts {
+  usesOsmAnd: boolean;
+  usesFields: boolean;
+}
+
+function formatWaypoint(p: ParsedMapPoint, parts: GPXDocumentParts): string {
+  const metadata = p.rawMetadata ?? {};
+  const elevation = getElevation(metadata.elevation);
+  const link = typeof metadata.link === 'string' ? metadata.link : null;
+  const symbol = typeof metadata.symbol === 'string' ? metadata.symbol : null;
+
+  const lines = [
+    elevation !== null && `<ele>${elevation}</ele>`,
+    p.time && `<time>${toXSDDateTime(p.time)}</time>`,
+    p.name && `<name>${escapeXML(p.name)}</name>`,
+    p.description && `<desc>${escapeXML(p.description)}</desc>`,
+    link && `<link href="${escapeXML(link)}"/>`,
+    symbol && `<sym>${escapeXML(symbol)}</sym>`,
+    // The GPX parser defaults untyped waypoints to "waypoint"
+    p.category && p.category !== 'waypoint' && `<type>${escapeXML(p.category)}</type>`,
+  ].filter(Boolean).map(line => `    ${line}`);
+
+  const osmand = formatOsmAndExtensions(metadata.osmand, '      ');
+  const otherFields = Object.entries(metadata).filter(([key]) => {
+    if (key === 'elevation') return elevation === null;
+    if (key === 'link') return link === null;
+    if (key === 'symbol') return symbol === null;
+    return !NATIVE_WAYPOINT_FIELDS.has(key);
+  });
+  const fields = formatFieldExtensions(otherFields, '      ');
+  if (osmand.length > 0) parts.usesOsmAnd = true;
+  if (fields.length > 0) parts.usesFields = true;
+  lines.push(...formatExtensions([...osmand, ...fields], '    '));
+
+  return lines.length > 0
+    ? `  <wpt lat="${p.lat}" lon="${p.lng}">\n${lines.join('\n')}\n  </wpt>`
+    : `  <wpt lat="${p.lat}" lon="${p.lng}"/>`;
+}
+
+/**
+ * A track (or route) point. The first and last points carry the start and
+ * end time, so the parser restores the point's period.
+ */
+function formatTrackPoint(tag: 'trkpt' | 'rtept', pos: Position, time: string | undefined, indent: string): string {
+  const children = [
+    pos[2] !== undefined && `<ele>${pos[2]}</ele>`,
+    time && `<time>${toXSDDateTime(time)}</time>`,
+  ].filter(Boolean).join('');
+  return children
+    ? `${indent}<${tag} lat="${pos[1]}" lon="${pos[0]}">${children}</${tag}>`
+    : `${indent}<${tag} lat="${pos[1]}" lon="${pos[0]}"/>`;
+}
+
+function formatTrack(p: ParsedMapPoint, segments: Position[][], isRoute: boolean, parts: GPXDocumentParts): string {
+  const tag = isRoute ? 'rte' : 'trk';
+  const pointTag = isRoute ? 'rtept' : 'trkpt';
+
+  const lines = [
+    p.name && `<name>${escapeXML(p.name)}</name>`,
+    p.description && `<desc>${escapeXML(p.description)}</desc>`,
+    p.category && p.category !== 'track' && p.category !== 'route' && `<type>${escapeXML(p.category)}</type>`,
+  ].filter(Boolean).map(line => `    ${line}`);
+
+  const otherFields = Object.entries(p.rawMetadata ?? {}).filter(([key]) => !(key in TRACK_STAT_FIELDS));
+  const fields = formatFieldExtensions(otherFields, '      ');
+  if (fields.length > 0) parts.usesFields = true;
+  lines.push(...formatExtensions(fields, '    '));
+
+  const lastSegment = segments.length - 1;
+  const timeAt = (s: number, i: number): string | undefined => {
+    if (s === 0 && i === 0) return p.timeStart;
+    if (s === lastSegment && i === segments[s].length - 1) return p.timeEnd;
+    return undefined;
+  };
+
+  if (isRoute) {
+    lines.push(...segments[0].map((pos, i) => formatTrackPoint(pointTag, pos, timeAt(0, i), '    ')));
+  } else {
+    for (let s = 0; s < segments.length; s++) {
+      const trkpts = segments[s].map((pos, i) => formatTrackPoint(pointTag, pos, timeAt(s, i), '      '));
+      lines.push(`    <trkseg>\n${trkpts.join('\n')}\n    </trkseg>`);
+    }
+  }
+
+  return `  <${tag}>\n${lines.join('\n')}\n  </${tag}>`;
+}
+
+/**
+ * Write points as a GPX 1.1 document. Waypoints come first, then routes
+ * and tracks (the order the GPX schema requires).
+ * Single-line points in the "route" category become routes.
+ *
+ * @param points - Parsed or deduplicated points
+ * @param options - Document name
+ * @returns GPX text
+ */
+export function writeGPX(points: ParsedMapPoint[], options: GPXWriterOptions = {}): string {
+  const parts: GPXDocumentParts = { usesOsmAnd: false, usesFields: false };
+  const waypoints: string[] = [];
+  const tracks: string[] = [];
+  const routes: string[] = [];
+
+  for (const p of points) {
+    const segments = p.geometry ? getGPXSegments(p.geometry).filter(segment => segment.length > 0) : [];
+    if (segments.length === 0) {
+      waypoints.push(formatWaypoint(p, parts));
+    } else if (p.category === 'route' && segments.length === 1) {
+      routes.push(formatTrack(p, segments, true, parts));
+    } else {
+      tracks.push(formatTrack(p, segments, false, parts));
+    }
+  }
+
+  const namespaces = [
+    parts.usesOsmAnd && ` xmlns:osmand="${OSMAND_NS}"`,
+    parts.usesFields && ` xmlns:mapsh-pit="${MAPSH_PIT_GPX_NS}"`,
+  ].filter(Boolean).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="mapsh-pit" xmlns="http://www.topografix.com/GPX/1/1"${namespaces}>
+  <metadata>
+    <name>${escapeXML(options.name ?? 'Exported Points')}</name>
+    <time>${new Date().toISOString()}</time>
+  </metadata>
+${[...waypoints, ...routes, ...tracks].join('\n')}
+</gpx>`;
+}
@@ -13,8 +13,25 @@ export {
   isWithinRadius,
   getBoundingBox,
   calculateCentroid,
+  calculatePolygonCentroid,
+  calculatePointOnSurface,
+  calculateRepresentativePoint,
+  ringContains,
   isValidCoordinate,
   getUSStateFromCoords,
+  parseCoordinateValue,
+  parseCoordinateString,
+  utmToLatLng,
+  mgrsToLatLng,
+  parseGoogleMapsUrl,
+  unproject,
+  WGS84_ELLIPSOID,
+  type Ellipsoid,
+  type Projection,
+  calculateTrackStats,
+  MIN_MOVING_SPEED,
+  type TrackPoint,
+  type TrackStats,
 } from './geo-utils.js';
 
 // ============================================================================
@@ -66,13 +83,149 @@ export {
   type ParsedMapPoint,
   type ParsedMapResult,
   type SupportedFormat,
+  type Position,
+  type MapGeometry,
+  type PointStyle,
+  type PointSource,
+  type PointTimes,
+  type ParseOptions,
+  type ParseWarning,
+  type WarningHandler,
+  type CSVOptions,
+  type CSVTokenizer,
+  type JSONSequenceRecord,
+  type JSONSequenceSplitter,
+  type XLSXOptions,
+  type OSMOptions,
+  type OSMTagFilter,
+  createCSVTokenizer,
+  createJSONSequenceSplitter,
+  compileOSMFilter,
   getFileType,
   getSupportedExtensions,
+  getSupportedFormats,
+  detectFileType,
+  sniffFileType,
   parseMapFile,
   parseMapFiles,
   mergeParseResults,
+  parseTimestamp,
+  getTimestampRange,
+  getPointTimes,
+  filterPointsByTime,
 } from './parser.js';
 
+// ============================================================================
+// WKT / WKB
+// ============================================================================
+
+export {
+  parseWKT,
+  parseWKB,
+  toWKT,
+} from './wkt.js';
+
+// ============================================================================
+// CSV WRITER
+// ============================================================================
+
+export {
+  type CSVWriterOptions,
+  type CSVWriterPoint,
+  writeCSV,
+  writeCSVHeader,
+  writeCSVRow,
+} from './csv-writer.js';
+
+// ============================================================================
+// KML WRITER
+// ============================================================================
+
+export {
+  type KMLFolderKey,
+  type KMLWriterOptions,
+  type KMLWriterPoint,
+  writeKML,
+} from './kml-writer.js';
+
+// ============================================================================
+// GPX WRITER
+// ============================================================================
+
+export {
+  type GPXWriterOptions,
+  writeGPX,
+} from './gpx-writer.js';
+
+// ============================================================================
+// KMZ WRITER
+// ============================================================================
+
+export {
+  type KMZIconArchive,
+  type KMZWriterOptions,
+  readKMZIcons,
+  writeKMZ,
+} from './kmz-writer.js';
+
+// ============================================================================
+// TEXT ENCODING
+// ============================================================================
+
+export {
+  type TextDecodeFunction,
+  detectEncoding,
+  resolveEncoding,
+  createTextDecoder,
+  decodeText,
+  decodeTextStream,
+} from './encoding.js';
+
+// ============================================================================
+// SHAPEFILE READER
+// ============================================================================
+
+export {
+  type ShapefileLayer,
+  type ShapefileRecord,
+  parsePrj,
+  readShapefile,
+} from './shapefile.js';
+
+// ============================================================================
+// XLSX READER
+// ============================================================================
+
+export {
+  type XLSXRow,
+  type XLSXSheet,
+  readXLSX,
+} from './xlsx.js';
+
+// ============================================================================
+// EXIF READER
+// ============================================================================
+
+export {
+  type ExifData,
+  type ExifGPS,
+  isPhotoHeader,
+  readExif,
+} from './exif.js';
+
+// ============================================================================
+// STREAMING PARSER
+// ============================================================================
+
+export {
+  type CapturedXMLElement,
+  DEFAULT_STREAM_THRESHOLD,
+  shouldStreamFile,
+  scanXMLElements,
+  parseMapFileStream,
+  parseMapFileStreamed,
+} from './stream-parser.js';
+
 // ============================================================================
 // DEDUPLICATION
 // ============================================================================
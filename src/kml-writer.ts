@@ -0,0 +1,342 @@
+/**
+ * KML Writer Module
+ *
+ * Writes points as a KML document: geometry, times, display styles,
+ * rawMetadata and dedup fields as <ExtendedData>, and optional Folders
+ * grouping the placemarks by category, US state or source file.
+ */
+
+import type { ParsedMapPoint, MapGeometry, PointStyle, Position } from './parser.js';
+import type { DedupedPoint } from './dedup.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * What placemarks are grouped into Folders by
+ */
+export type KMLFolderKey = 'category' | 'state' | 'source';
+
+export interface KMLWriterOptions {
+  /** Document name (default: "Exported Points") */
+  name?: string;
+  /** Group placemarks into Folders; points without a value stay at the top level */
+  folderBy?: KMLFolderKey;
+  /** Rewrite the icon hrefs of a point's source style (KMZ: paths inside the archive) */
+  iconHref?: (href: string, point: ParsedMapPoint) => string;
+  /** Icon of a generated category style, drawn in its color (default: a white paddle tinted with it) */
+  categoryIconHref?: (category: string, color: string) => string;
+}
+
+/**
+ * A parsed point, or a dedup result whose merge fields are written as ExtendedData
+ */
+export type KMLWriterPoint = ParsedMapPoint & Partial<Pick<DedupedPoint, 'akaNames' | 'duplicateCount' | 'confidence'>>;
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const KML_FOLDER_KEYS: KMLFolderKey[] = ['category', 'state', 'source'];
+
+/** White paddle that takes the IconStyle color */
+const CATEGORY_ICON_HREF = 'http://maps.google.com/mapfiles/kml/paddle/wht-blank.png';
+
+/** Colors of generated category styles, in order of first appearance */
+const CATEGORY_COLORS = [
+  '#e6194b', '#3cb44b', '#4363d8', '#f58231', '#911eb4',
+  '#42d4f4', '#f032e6', '#9a6324', '#800000', '#469990',
+];
+
+/** Opacity suffix of generated polygon fills */
+const CATEGORY_FILL_ALPHA = '66';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Escape text for XML content and attribute values (shared with the GPX writer)
+ */
+export function escapeXML(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * KML coordinate tuples; altitude only where the position has one
+ */
+function formatKMLCoordinates(positions: Position[]): string {
+  return positions.map(pos => pos.slice(0, 3).join(',')).join(' ');
+}
+
+function formatKMLGeometry(geometry: MapGeometry, indent: string): string {
+  const point = (pos: Position) =>
+    `${indent}<Point>\n${indent}  <coordinates>${formatKMLCoordinates([pos])}</coordinates>\n${indent}</Point>`;
+  const line = (positions: Position[]) =>
+    `${indent}<LineString>\n${indent}  <coordinates>${formatKMLCoordinates(positions)}</coordinates>\n${indent}</LineString>`;
+  const polygon = (rings: Position[][]) => {
+    const boundaries = rings.map((ring, i) => {
+      const tag = i === 0 ? 'outerBoundaryIs' : 'innerBoundaryIs';
+      return `${indent}  <${tag}><LinearRing><coordinates>${formatKMLCoordinates(ring)}</coordinates></LinearRing></${tag}>`;
+    });
+    return `${indent}<Polygon>\n${boundaries.join('\n')}\n${indent}</Polygon>`;
+  };
+  const multi = (parts: string[]) =>
+    `${indent}<MultiGeometry>\n${parts.map(part => part.replace(/^/gm, '  ')).join('\n')}\n${indent}</MultiGeometry>`;
+
+  switch (geometry.type) {
+    case 'Point': return point(geometry.coordinates);
+    case 'MultiPoint': return multi(geometry.coordinates.map(point));
+    case 'LineString': return line(geometry.coordinates);
+    case 'MultiLineString': return multi(geometry.coordinates.map(line));
+    case 'Polygon': return polygon(geometry.coordinates);
+    case 'MultiPolygon': return multi(geometry.coordinates.map(polygon));
+    case 'GeometryCollection':
+      return multi(geometry.geometries.map(member => formatKMLGeometry(member, indent)));
+  }
+}
+
+/**
+ * KML TimeStamp for an instant, TimeSpan for a period
+ */
+function formatKMLTime(p: ParsedMapPoint): string | null {
+  if (p.time) return `<TimeStamp><when>${p.time}</when></TimeStamp>`;
+  if (!p.timeStart && !p.timeEnd) return null;
+  const begin = p.timeStart ? `<begin>${p.timeStart}</begin>` : '';
+  const end = p.timeEnd ? `<end>${p.timeEnd}</end>` : '';
+  return `<TimeSpan>${begin}${end}</TimeSpan>`;
+}
+
+/**
+ * ExtendedData text of a metadata value: strings as-is, numbers and
+ * booleans as text, arrays and objects as JSON
+ */
+function formatDataValue(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return JSON.stringify(value);
+}
+
+/**
+ * rawMetadata followed by the dedup merge fields of a DedupedPoint
+ */
+function getExtendedData(p: KMLWriterPoint): Array<[string, string]> {
+  const fields: Record<string, unknown> = { ...p.rawMetadata };
+  if (p.akaNames?.length) fields.akaNames ??= p.akaNames;
+  if (p.duplicateCount) fields.duplicateCount ??= p.duplicateCount;
+  if (p.confidence !== undefined) fields.confidence ??= p.confidence;
+
+  const data: Array<[string, string]> = [];
+  for (const [name, value] of Object.entries(fields)) {
+    const text = formatDataValue(value);
+    if (text !== null) data.push([name, text]);
+  }
+  return data;
+}
+
+function getFolderName(p: ParsedMapPoint, folderBy: KMLFolderKey): string | null {
+  switch (folderBy) {
+    case 'category': return p.category;
+    case 'state': return p.state;
+    case 'source': return p.sources?.[0]?.file ?? null;
+  }
+}
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+/**
+ * Convert a CSS hex color (#rrggbb or #rrggbbaa) to KML aabbggrr
+ */
+function hexToKMLColor(hex: string): string {
+  const [, rr, gg, bb, aa = 'ff'] = hex.match(/^#(\w{2})(\w{2})(\w{2})(\w{2})?$/) || [];
+  return rr ? `${aa}${bb}${gg}${rr}` : 'ffffffff';
+}
+
+function formatKMLStyle(id: string, style: Omit<PointStyle, 'id' | 'highlight'>): string {
+  const icon = [
+    style.iconColor && `<color>${hexToKMLColor(style.iconColor)}</color>`,
+    style.iconScale !== undefined && `<scale>${style.iconScale}</scale>`,
+    style.iconHref && `<Icon><href>${escapeXML(style.iconHref)}</href></Icon>`,
+  ];
+  const label = [
+    style.labelColor && `<color>${hexToKMLColor(style.labelColor)}</color>`,
+    style.labelScale !== undefined && `<scale>${style.labelScale}</scale>`,
+  ];
+  const line = [
+    style.lineColor && `<color>${hexToKMLColor(style.lineColor)}</color>`,
+    style.lineWidth !== undefined && `<width>${style.lineWidth}</width>`,
+  ];
+  const poly = [style.fillColor && `<color>${hexToKMLColor(style.fillColor)}</color>`];
+
+  const substyles = ([['IconStyle', icon], ['LabelStyle', label], ['LineStyle', line], ['PolyStyle', poly]] as const)
+    .map(([tag, parts]) => [tag, parts.filter(Boolean).join('')] as const)
+    .filter(([, content]) => content)
+    .map(([tag, content]) => `      <${tag}>${content}</${tag}>`);
+
+  return substyles.length > 0
+    ? `    <Style id="${escapeXML(id)}">\n${substyles.join('\n')}\n    </Style>`
+    : `    <Style id="${escapeXML(id)}"/>`;
+}
+
+/**
+ * Style generated for points that have a category but no source style: a
+ * colored paddle, and the same color for lines and (translucent) areas
+ */
+function getCategoryStyle(
+  category: string,
+  categoryIndex: number,
+  options: KMLWriterOptions
+): Omit<PointStyle, 'id' | 'highlight'> {
+  const color = CATEGORY_COLORS[categoryIndex % CATEGORY_COLORS.length];
+  const icon = options.categoryIconHref
+    ? { iconHref: options.categoryIconHref(category, color) }
+    : { iconHref: CATEGORY_ICON_HREF, iconColor: color };
+  return {
+    ...icon,
+    lineColor: color,
+    lineWidth: 2,
+    fillColor: color + CATEGORY_FILL_ALPHA,
+  };
+}
+
+/**
+ * Apply the iconHref option to a source style and its highlight variant
+ */
+function mapIconHrefs(
+  style: Omit<PointStyle, 'id'>,
+  point: ParsedMapPoint,
+  iconHref?: KMLWriterOptions['iconHref']
+): Omit<PointStyle, 'id'> {
+  if (!iconHref) return style;
+  const mapped = { ...style };
+  if (mapped.iconHref) mapped.iconHref = iconHref(mapped.iconHref, point);
+  if (mapped.highlight?.iconHref) {
+    mapped.highlight = { ...mapped.highlight, iconHref: iconHref(mapped.highlight.iconHref, point) };
+  }
+  return mapped;
+}
+
+/**
+ * Give every distinct point style a <Style> (or <StyleMap> with normal and
+ * highlight styles) so styleUrls resolve on re-import. Points with only a
+ * category get a generated style whose id is the category, which the KML
+ * parser reads back as the category.
+ */
+function buildKMLStyles(
+  points: ParsedMapPoint[],
+  options: KMLWriterOptions
+): { styleIds: Array<string | null>; definitions: string[] } {
+  const idsByContent = new Map<string, string>();
+  const usedIds = new Set<string>();
+  const definitions: string[] = [];
+  let categoryCount = 0;
+
+  const styleIds = points.map(p => {
+    if (!p.style && !p.category) return null;
+    // Rewritten hrefs are part of the content: the same source style may
+    // point at different icons (same path in two input KMZs)
+    const { id: sourceId, ...sourceStyle } = p.style ?? {};
+    const style = mapIconHrefs(sourceStyle, p, options.iconHref);
+    const content = JSON.stringify(style);
+    const known = idsByContent.get(content + '\0' + (sourceId ?? p.category));
+    if (known) return known;
+
+    const baseId = sourceId || p.category || 'style';
+    let id = baseId;
+    for (let n = 2; usedIds.has(id); n++) id = `${baseId}-${n}`;
+    usedIds.add(id);
+    idsByContent.set(content + '\0' + (sourceId ?? p.category), id);
+
+    const { highlight, ...normal }: Omit<PointStyle, 'id'> = p.style
+      ? style
+      : getCategoryStyle(p.category!, categoryCount++, options);
+    if (highlight) {
+      definitions.push(formatKMLStyle(`${id}-normal`, normal), formatKMLStyle(`${id}-highlight`, highlight));
+      definitions.push(`    <StyleMap id="${escapeXML(id)}">
+      <Pair><key>normal</key><styleUrl>#${escapeXML(id)}-normal</styleUrl></Pair>
+      <Pair><key>highlight</key><styleUrl>#${escapeXML(id)}-highlight</styleUrl></Pair>
+    </StyleMap>`);
+    } else {
+      definitions.push(formatKMLStyle(id, normal));
+    }
+    return id;
+  });
+
+  return { styleIds, definitions };
+}
+
+// ============================================================================
+// WRITER
+// ============================================================================
+
+function formatPlacemark(p: KMLWriterPoint, styleId: string | null, indent: string): string {
+  const lines = [
+    p.name && `<name>${escapeXML(p.name)}</name>`,
+    p.description && `<description>${escapeXML(p.description)}</description>`,
+    formatKMLTime(p),
+    styleId && `<styleUrl>#${escapeXML(styleId)}</styleUrl>`,
+  ].filter(Boolean).map(line => `${indent}  ${line}`);
+
+  const data = getExtendedData(p);
+  if (data.length > 0) {
+    lines.push(`${indent}  <ExtendedData>`);
+    for (const [name, value] of data) {
+      lines.push(`${indent}    <Data name="${escapeXML(name)}"><value>${escapeXML(value)}</value></Data>`);
+    }
+    lines.push(`${indent}  </ExtendedData>`);
+  }
+
+  const geometry = p.geometry ?? { type: 'Point', coordinates: [p.lng, p.lat] };
+  lines.push(formatKMLGeometry(geometry, indent + '  '));
+  return `${indent}<Placemark>\n${lines.join('\n')}\n${indent}</Placemark>`;
+}
+
+/**
+ * Write points as a KML document
+ *
+ * @param points - Parsed or deduplicated points
+ * @param options - Document name, folder grouping and icon hrefs
+ * @returns KML text
+ */
+export function writeKML(points: KMLWriterPoint[], options: KMLWriterOptions = {}): string {
+  const { styleIds, definitions } = buildKMLStyles(points, options);
+
+  const body: string[] = [];
+  if (options.folderBy) {
+    const folders = new Map<string, string[]>();
+    const unfiled: string[] = [];
+    points.forEach((p, i) => {
+      const folder = getFolderName(p, options.folderBy!);
+      if (!folder) {
+        unfiled.push(formatPlacemark(p, styleIds[i], '    '));
+        return;
+      }
+      if (!folders.has(folder)) folders.set(folder, []);
+      folders.get(folder)!.push(formatPlacemark(p, styleIds[i], '      '));
+    });
+
+    for (const [folder, placemarks] of folders) {
+      body.push(`    <Folder>\n      <name>${escapeXML(folder)}</name>\n${placemarks.join('\n')}\n    </Folder>`);
+    }
+    body.push(...unfiled);
+  } else {
+    points.forEach((p, i) => body.push(formatPlacemark(p, styleIds[i], '    ')));
+  }
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>${escapeXML(options.name ?? 'Exported Points')}</name>
+${[...definitions, ...body].join('\n')}
+  </Document>
+</kml>`;
+}
@@ -0,0 +1,364 @@
+/**
+ * KMZ Writer Module
+ *
+ * Packages KML output as a KMZ archive: doc.kml, the local icon files its
+ * styles reference, and a generated PNG marker for every category style,
+ * so the archive displays the same offline. PNG and ZIP encoding are done
+ * here with zlib; no imaging or archive library is needed.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import * as unzipper from 'unzipper';
+import { writeKML, type KMLWriterOptions, type KMLWriterPoint } from './kml-writer.js';
+import type { ParsedMapPoint } from './parser.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Image entries of an input KMZ archive by path
+ */
+export type KMZIconArchive = Map<string, Buffer>;
+
+export interface KMZWriterOptions extends Omit<KMLWriterOptions, 'iconHref' | 'categoryIconHref'> {
+  /** Directories searched for relative icon hrefs, in order (default: the working directory) */
+  iconDirs?: string[];
+  /**
+   * Icons of input KMZ archives by input file name (as in PointSource.file).
+   * A point's relative hrefs are looked up in the archives it came from
+   * before iconDirs.
+   */
+  iconArchives?: Map<string, KMZIconArchive>;
+}
+
+/**
+ * An icon to bundle: key identifies it across styles
+ */
+interface IconSource {
+  key: string;
+  fileName: string;
+  read: () => Buffer;
+}
+
+interface ZipEntry {
+  name: string;
+  data: Buffer;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** Edge length of generated category markers, in pixels */
+const ICON_SIZE = 32;
+
+/** Subsamples per pixel edge when rasterizing markers (anti-aliasing) */
+const ICON_SUPERSAMPLE = 4;
+
+/** Marker radii as a fraction of the icon size: colored disc, white rim */
+const ICON_FILL_RADIUS = 0.34;
+const ICON_RIM_RADIUS = 0.44;
+
+/** Hrefs with a URL scheme (http:, data:, file:…) are left as they are */
+const URL_SCHEME = /^[a-z][\w+.-]*:/i;
+
+/** Image types that are bundled */
+const ICON_EXTENSIONS = new Set(['.png', '.jpg', '.jpeg', '.gif', '.bmp']);
+
+// ============================================================================
+// CRC-32
+// ============================================================================
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * CRC-32 (ISO 3309) as used by PNG chunks and ZIP entries
+ */
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// ============================================================================
+// PNG
+// ============================================================================
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndData));
+  return Buffer.concat([length, typeAndData, crc]);
+}
+
+/**
+ * Encode 8-bit RGBA pixels as a PNG
+ */
+function encodePNG(width: number, height: number, rgba: Uint8Array): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8;  // bit depth
+  header[9] = 6;  // color type: RGBA
+
+  // Each scanline starts with its filter type (0: none)
+  const stride = width * 4;
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw.set(rgba.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlib.deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+/**
+ * Round marker in a CSS hex color with a white rim on a transparent background
+ */
+function renderMarkerIcon(color: string): Buffer {
+  const [, r, g, b] = (color.match(/^#(\w{2})(\w{2})(\w{2})/) || ['', 'ff', 'ff', 'ff']).map(hex => parseInt(hex, 16));
+  const center = ICON_SIZE / 2;
+  const fillRadius = ICON_SIZE * ICON_FILL_RADIUS;
+  const rimRadius = ICON_SIZE * ICON_RIM_RADIUS;
+  const samples = ICON_SUPERSAMPLE * ICON_SUPERSAMPLE;
+
+  const rgba = new Uint8Array(ICON_SIZE * ICON_SIZE * 4);
+  for (let y = 0; y < ICON_SIZE; y++) {
+    for (let x = 0; x < ICON_SIZE; x++) {
+      let fill = 0;
+      let rim = 0;
+      for (let sy = 0; sy < ICON_SUPERSAMPLE; sy++) {
+        for (let sx = 0; sx < ICON_SUPERSAMPLE; sx++) {
+          const dx = x + (sx + 0.5) / ICON_SUPERSAMPLE - center;
+          const dy = y + (sy + 0.5) / ICON_SUPERSAMPLE - center;
+          const distance = Math.sqrt(dx * dx + dy * dy);
+          if (distance <= fillRadius) fill++;
+          else if (distance <= rimRadius) rim++;
+        }
+      }
+
+      const covered = fill + rim;
+      if (covered === 0) continue;
+      const offset = (y * ICON_SIZE + x) * 4;
+      rgba[offset] = Math.round((r * fill + 255 * rim) / covered);
+      rgba[offset + 1] = Math.round((g * fill + 255 * rim) / covered);
+      rgba[offset + 2] = Math.round((b * fill + 255 * rim) / covered);
+      rgba[offset + 3] = Math.round(255 * covered / samples);
+    }
+  }
+  return encodePNG(ICON_SIZE, ICON_SIZE, rgba);
+}
+
+// ============================================================================
+// ZIP
+// ============================================================================
+
+/**
+ * MS-DOS date and time fields of a ZIP entry
+ */
+function toDOSDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Write a ZIP archive of deflated entries, in the given order
+ */
+function writeZip(entries: ZipEntry[]): Buffer {
+  const { time, date } = toDOSDateTime(new Date());
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf-8');
+    const compressed = zlib.deflateRawSync(entry.data);
+    const crc = crc32(entry.data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);          // version needed
+    local.writeUInt16LE(0x0800, 6);      // UTF-8 names
+    local.writeUInt16LE(8, 8);           // deflate
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);        // version made by
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(entry.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, name, compressed);
+    centrals.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+// ============================================================================
+// WRITER
+// ============================================================================
+
+/**
+ * Whether a file is inside a directory, also after resolving symlinks
+ */
+function isInsideDir(dir: string, file: string): boolean {
+  const relative = path.relative(fs.realpathSync(dir), fs.realpathSync(file));
+  return relative !== '' && relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+}
+
+/**
+ * Local image an icon href refers to, or null for remote, missing and
+ * disallowed icons. Only relative hrefs inside one of iconDirs are bundled:
+ * absolute paths, file: URLs and "../" escapes would let an input file pull
+ * any readable file into an archive meant to be shared.
+ */
+function resolveLocalIcon(href: string, iconDirs: string[]): string | null {
+  if (URL_SCHEME.test(href) || path.isAbsolute(href)) return null;
+  if (!ICON_EXTENSIONS.has(path.extname(href).toLowerCase())) return null;
+  for (const dir of iconDirs) {
+    const file = path.resolve(dir, href);
+    if (fs.existsSync(file) && fs.statSync(file).isFile() && isInsideDir(dir, file)) return file;
+  }
+  return null;
+}
+
+/**
+ * Icon a relative href (e.g. "files/mill.png") refers to in the input KMZ
+ * archives of a point. Other archives are not searched: two inputs may
+ * hold different images under the same path.
+ */
+function resolveArchiveIcon(
+  href: string,
+  point: ParsedMapPoint,
+  archives: Map<string, KMZIconArchive>
+): IconSource | null {
+  if (URL_SCHEME.test(href) || path.isAbsolute(href)) return null;
+  const entry = path.posix.normalize(href.replace(/\\/g, '/'));
+  for (const { file } of point.sources ?? []) {
+    const data = archives.get(file)?.get(entry);
+    if (data) return { key: `kmz:${file}:${entry}`, fileName: path.posix.basename(entry), read: () => data };
+  }
+  return null;
+}
+
+/**
+ * Archive path not used yet: "files/icon.png", then "files/icon-2.png"
+ */
+function uniqueEntryName(dir: string, base: string, ext: string, used: Set<string>): string {
+  let name = `${dir}/${base}${ext}`;
+  for (let n = 2; used.has(name.toLowerCase()); n++) name = `${dir}/${base}-${n}${ext}`;
+  used.add(name.toLowerCase());
+  return name;
+}
+
+/**
+ * Write points as a KMZ archive
+ *
+ * @param points - Parsed or deduplicated points
+ * @param options - KML options and where relative icon hrefs are resolved
+ * @returns KMZ file content
+ */
+export function writeKMZ(points: KMLWriterPoint[], options: KMZWriterOptions = {}): Buffer {
+  const iconDirs = options.iconDirs ?? [process.cwd()];
+  const entries: ZipEntry[] = [];
+  const usedNames = new Set<string>(['doc.kml']);
+  const bundled = new Map<string, string>();
+  const localIcons = new Map<string, IconSource | null>();
+
+  const resolveIcon = (href: string, point: ParsedMapPoint): IconSource | null => {
+    const archived = resolveArchiveIcon(href, point, options.iconArchives ?? new Map());
+    if (archived) return archived;
+    if (!localIcons.has(href)) {
+      const file = resolveLocalIcon(href, iconDirs);
+      localIcons.set(href, file ? { key: file, fileName: path.basename(file), read: () => fs.readFileSync(file) } : null);
+    }
+    return localIcons.get(href)!;
+  };
+
+  const kml = writeKML(points, {
+    ...options,
+    iconHref: (href, point) => {
+      const icon = resolveIcon(href, point);
+      if (!icon) return href;
+      if (!bundled.has(icon.key)) {
+        const ext = path.extname(icon.fileName);
+        const name = uniqueEntryName('files', path.basename(icon.fileName, ext), ext, usedNames);
+        bundled.set(icon.key, name);
+        entries.push({ name, data: icon.read() });
+      }
+      return bundled.get(icon.key)!;
+    },
+    categoryIconHref: (category, color) => {
+      const slug = category.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'category';
+      const name = uniqueEntryName('files/categories', slug, '.png', usedNames);
+      entries.push({ name, data: renderMarkerIcon(color) });
+      return name;
+    },
+  });
+
+  // Readers open the first .kml entry
+  return writeZip([{ name: 'doc.kml', data: Buffer.from(kml, 'utf-8') }, ...entries]);
+}
+
+/**
+ * Read the image entries of a KMZ archive, so the icons of points parsed
+ * from it can be bundled again (their hrefs are paths inside the archive).
+ * Unreadable archives give no icons; the parser reports them.
+ */
+export async function readKMZIcons(filePath: string): Promise<KMZIconArchive> {
+  const icons: KMZIconArchive = new Map();
+  let directory;
+  try {
+    directory = await unzipper.Open.file(filePath);
+  } catch {
+    return icons;
+  }
+  for (const file of directory.files) {
+    if (file.type === 'File' && ICON_EXTENSIONS.has(path.extname(file.path).toLowerCase())) {
+      icons.set(path.posix.normalize(file.path), await file.buffer());
+    }
+  }
+  return icons;
+}
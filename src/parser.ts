@@ -1,8 +1,8 @@
 /**
  * Map Parser Module
  *
- * Parses various map file formats (KML, KMZ, GPX, GeoJSON, CSV)
- * and extracts points with coordinates and metadata.
+ * Parses various map file formats (KML, KMZ, GPX, GeoJSON, GeoJSONSeq/NDJSON, CSV, XLSX,
+ * Shapefile, OSM XML) and geotagged photos, and extracts points with coordinates and metadata.
  */
 
 import * as fs from 'fs';
@@ -10,12 +10,44 @@ import * as fsPromises from 'fs/promises';
 import * as path from 'path';
 import { DOMParser } from '@xmldom/xmldom';
 import * as unzipper from 'unzipper';
-import { isValidCoordinate, getUSStateFromCoords } from './geo-utils.js';
+import {
+  isValidCoordinate,
+  getUSStateFromCoords,
+  calculateCentroid,
+  calculateRepresentativePoint,
+  calculateTrackStats,
+  parseCoordinateString,
+  parseCoordinateValue,
+  parseGoogleMapsUrl,
+  type TrackPoint,
+} from './geo-utils.js';
+import { decodeText } from './encoding.js';
+import { parseWKT, parseWKB } from './wkt.js';
+import { readXLSX, type XLSXSheet } from './xlsx.js';
+import { readExif, isPhotoHeader } from './exif.js';
+import { readShapefile, type ShapefileLayer, type ShapefileRecord } from './shapefile.js';
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
+/**
+ * Coordinate position in GeoJSON order: [lng, lat] or [lng, lat, alt]
+ */
+export type Position = number[];
+
+/**
+ * Full source geometry (GeoJSON shape, WGS84)
+ */
+export type MapGeometry =
+  | { type: 'Point'; coordinates: Position }
+  | { type: 'MultiPoint'; coordinates: Position[] }
+  | { type: 'LineString'; coordinates: Position[] }
+  | { type: 'MultiLineString'; coordinates: Position[][] }
+  | { type: 'Polygon'; coordinates: Position[][] }
+  | { type: 'MultiPolygon'; coordinates: Position[][][] }
+  | { type: 'GeometryCollection'; geometries: MapGeometry[] };
+
 export interface ParsedMapPoint {
   name: string | null;
   description: string | null;
@@ -24,6 +56,57 @@ export interface ParsedMapPoint {
   state: string | null;
   category: string | null;
   rawMetadata: Record<string, unknown> | null;
+  /** Original geometry for non-Point features (lat/lng is the representative point) */
+  geometry?: MapGeometry;
+  /** Display style resolved from the source file (KML Style/StyleMap) */
+  style?: PointStyle;
+  /** Where the point came from: one entry when parsed, one per merged member after dedup */
+  sources?: PointSource[];
+  /** ISO 8601 instant (KML TimeStamp, GPX waypoint time) */
+  time?: string;
+  /** ISO 8601 start of a period (KML TimeSpan begin, first track time) */
+  timeStart?: string;
+  /** ISO 8601 end of a period (KML TimeSpan end, last track time) */
+  timeEnd?: string;
+}
+
+/**
+ * Provenance of a parsed point. featureIndex and line locate the feature
+ * the same way as ParseWarning.
+ */
+export interface PointSource {
+  /** Input file name */
+  file: string;
+  format: SupportedFormat;
+  /** Worksheet name (XLSX) */
+  sheet?: string;
+  /** 0-based index among features of its kind (CSV: data row) */
+  featureIndex?: number;
+  /** 1-based line in the source file (XLSX: row number) */
+  line?: number;
+  /** Identifier in the source: KML/GeoJSON feature id, OSM node/123, CSV or DBF id column */
+  id?: string;
+}
+
+/** Provenance shared by every point of a file */
+export type SourceFile = Pick<PointSource, 'file' | 'format' | 'sheet'>;
+
+/**
+ * Point display style. Colors are CSS hex: #rrggbb, or #rrggbbaa when translucent.
+ */
+export interface PointStyle {
+  /** Shared style id in the source file */
+  id?: string;
+  iconHref?: string;
+  iconColor?: string;
+  iconScale?: number;
+  labelColor?: string;
+  labelScale?: number;
+  lineColor?: string;
+  lineWidth?: number;
+  fillColor?: string;
+  /** StyleMap highlight variant, when it differs from the normal style */
+  highlight?: Omit<PointStyle, 'id' | 'highlight'>;
 }
 
 export interface ParsedMapResult {
@@ -32,16 +115,129 @@ export interface ParsedMapResult {
   fileType: string;
   fileName: string;
   error?: string;
+  /** Features that were skipped, and why */
+  warnings: ParseWarning[];
+}
+
+/**
+ * A feature skipped while parsing. Location fields are set when known.
+ */
+export interface ParseWarning {
+  reason: string;
+  /** 1-based line in the source file (CSV rows, XML elements; XLSX: row number) */
+  line?: number;
+  /** 0-based index among features of its kind (placemark, waypoint, GeoJSON feature, CSV data row, record) */
+  featureIndex?: number;
+  name?: string;
+  /** Worksheet name (XLSX) */
+  sheet?: string;
+}
+
+/** Receives each parse warning as it happens */
+export type WarningHandler = (warning: ParseWarning) => void;
+
+/** Called by per-feature parsers with the reason a feature was skipped */
+export type SkipReporter = (reason: string, name?: string | null) => void;
+
+/**
+ * Create the skip reporter for one feature, adding its location
+ */
+export function createSkipReporter(
+  onWarning: WarningHandler | undefined,
+  featureIndex?: number,
+  line?: number
+): SkipReporter {
+  return (reason, name) => {
+    if (!onWarning) return;
+    const warning: ParseWarning = { reason };
+    if (line !== undefined) warning.line = line;
+    if (featureIndex !== undefined) warning.featureIndex = featureIndex;
+    if (name) warning.name = name;
+    onWarning(warning);
+  };
+}
+
+/**
+ * Record where a point came from
+ */
+export function setPointSource(
+  point: ParsedMapPoint,
+  file: SourceFile,
+  featureIndex?: number,
+  line?: number,
+  id?: string | number | null
+): void {
+  const source: PointSource = { ...file };
+  if (featureIndex !== undefined) source.featureIndex = featureIndex;
+  if (line !== undefined) source.line = line;
+  if (id !== undefined && id !== null && id !== '') source.id = String(id);
+  point.sources = [source];
+}
+
+/**
+ * Source line of a DOM element (recorded by the XML parser)
+ */
+function getElementLine(el: Element): number | undefined {
+  return (el as Element & { lineNumber?: number }).lineNumber;
+}
+
+export type SupportedFormat =
+  | 'kml' | 'kmz' | 'gpx' | 'geojson' | 'geojsonseq' | 'csv' | 'xlsx' | 'shapefile' | 'osm' | 'photo' | 'unknown';
+
+/**
+ * Explicit CSV layout. Column references are header names
+ * (case-insensitive) or 1-based column numbers.
+ */
+export interface CSVOptions {
+  latColumn?: string;
+  lngColumn?: string;
+  /** Single column holding both coordinates ("42.17, -78.74", DMS, UTM, MGRS) */
+  coordsColumn?: string;
+  /** Geometry column (WKT, EWKT, hex WKB/EWKB or GeoJSON), used when there are no coordinate columns */
+  geometryColumn?: string;
+  nameColumn?: string;
+  descColumn?: string;
+  categoryColumn?: string;
+  /** Field delimiter (auto-detected when omitted) */
+  delimiter?: string;
+  /** Whether the first row is a header row (default: true) */
+  hasHeader?: boolean;
+}
+
+/**
+ * OpenStreetMap XML parsing options
+ */
+export interface OSMOptions {
+  /** Tag filter expression, e.g. "historic=ruins|abandoned:*|railway=abandoned" */
+  filter?: string;
+}
+
+/**
+ * Excel workbook options. Column options come from CSVOptions.
+ */
+export interface XLSXOptions {
+  /** Sheet name or 1-based number (default: every sheet) */
+  sheet?: string;
 }
 
-export type SupportedFormat = 'kml' | 'kmz' | 'gpx' | 'geojson' | 'csv' | 'unknown';
+export interface ParseOptions {
+  csv?: CSVOptions;
+  xlsx?: XLSXOptions;
+  osm?: OSMOptions;
+  /** Parse every input as this format instead of detecting it */
+  inputFormat?: SupportedFormat;
+  /** Text encoding of every input (default: BOM, XML declaration or heuristic) */
+  encoding?: string;
+  /** Receives each warning as it happens (results also collect them in `warnings`) */
+  onWarning?: WarningHandler;
+}
 
 // ============================================================================
 // FILE TYPE DETECTION
 // ============================================================================
 
 /**
- * Detect file type from extension
+ * Detect file type from extension (see detectFileType for content sniffing)
  */
 export function getFileType(filePath: string): SupportedFormat {
   const ext = path.extname(filePath).toLowerCase();
@@ -51,7 +247,18 @@ export function getFileType(filePath: string): SupportedFormat {
     case '.gpx': return 'gpx';
     case '.geojson':
     case '.json': return 'geojson';
+    case '.geojsonl':
+    case '.geojsons':
+    case '.ndjson': return 'geojsonseq';
     case '.csv': return 'csv';
+    case '.xlsx': return 'xlsx';
+    case '.shp':
+    case '.zip': return 'shapefile';
+    case '.osm': return 'osm';
+    case '.jpg':
+    case '.jpeg':
+    case '.heic':
+    case '.heif': return 'photo';
     default: return 'unknown';
   }
 }
@@ -60,177 +267,1933 @@ export function getFileType(filePath: string): SupportedFormat {
  * Get list of supported file extensions
  */
 export function getSupportedExtensions(): string[] {
-  return ['.kml', '.kmz', '.gpx', '.geojson', '.json', '.csv'];
+  return ['.kml', '.kmz', '.gpx', '.geojson', '.json', '.geojsonl', '.geojsons', '.ndjson', '.csv', '.xlsx', '.shp', '.zip', '.osm', '.jpg', '.jpeg', '.heic', '.heif'];
+}
+
+/**
+ * Get list of formats accepted as an explicit input format
+ */
+export function getSupportedFormats(): SupportedFormat[] {
+  return ['kml', 'kmz', 'gpx', 'geojson', 'geojsonseq', 'csv', 'xlsx', 'shapefile', 'osm', 'photo'];
+}
+
+/** Bytes read from the start of a file for content sniffing */
+const SNIFF_BYTES = 4096;
+
+async function readFileHead(filePath: string, bytes: number = SNIFF_BYTES): Promise<Buffer> {
+  const handle = await fsPromises.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(bytes);
+    const { bytesRead } = await handle.read(buffer, 0, bytes, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+function isZipHeader(head: Buffer): boolean {
+  return head.length >= 4 && head.readUInt32LE(0) === 0x04034b50;
+}
+
+/**
+ * Local name of the document element, skipping the XML declaration,
+ * comments, processing instructions and DOCTYPE
+ */
+function getXMLRootName(text: string): string | null {
+  const rest = text.replace(/^(\s*(<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<!DOCTYPE[^>]*>))*\s*/i, '');
+  const match = rest.match(/^<([\w.-]+:)?([\w.-]+)/);
+  return match ? match[2].toLowerCase() : null;
+}
+
+/**
+ * Whether text reads like a delimited table: every complete line has at
+ * least two fields for one of the common delimiters
+ */
+function looksLikeDelimitedText(text: string): boolean {
+  if (/[\x00-\x08\x0E-\x1F]/.test(text)) return false;
+  // The last line may be cut off by the sniff window
+  const lines = text.split(/\r?\n/).slice(0, -1).filter(line => line.trim()).slice(0, 5);
+  if (lines.length === 0) return false;
+  return [',', ';', '\t', '|'].some(delimiter => lines.every(line => line.split(delimiter).length >= 2));
+}
+
+/**
+ * Whether text reads like a JSON text sequence: RS-prefixed records, or a
+ * complete JSON object on the first line followed by another record
+ */
+function looksLikeJSONSequence(text: string): boolean {
+  if (text.startsWith(RECORD_SEPARATOR)) return true;
+  const lineEnd = text.indexOf('\n');
+  if (!text.startsWith('{') || lineEnd === -1 || !/^\s*[{\x1e]/.test(text.slice(lineEnd + 1))) return false;
+  try {
+    JSON.parse(text.slice(0, lineEnd));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Sniff the format from the leading bytes of a file: shapefile, JPEG or
+ * HEIF magic, the XML root element (kml, gpx, osm), JSON text sequences
+ * or GeoJSON markers. Returns 'unknown' when the content is not conclusive;
+ * ZIP archives need their entry list and are resolved by detectFileType.
+ */
+export function sniffFileType(head: Buffer): SupportedFormat {
+  if (head.length >= 4 && head.readInt32BE(0) === 9994) return 'shapefile';
+  if (isPhotoHeader(head)) return 'photo';
+
+  const text = decodeText(head).trimStart();
+  if (text.startsWith('<')) {
+    const root = getXMLRootName(text);
+    return root === 'kml' || root === 'gpx' || root === 'osm' ? root : 'unknown';
+  }
+  if (looksLikeJSONSequence(text)) return 'geojsonseq';
+  if (/^[{[]/.test(text) && /"type"\s*:\s*"(FeatureCollection|Feature)"|"features"\s*:/.test(text)) {
+    return 'geojson';
+  }
+  return 'unknown';
+}
+
+/**
+ * Tell KMZ, zipped shapefiles and Excel workbooks apart by the archive's
+ * entries. A broken archive keeps the extension's format, so the parser
+ * reports it as that file's error.
+ */
+async function detectZipType(filePath: string, byExtension: SupportedFormat): Promise<SupportedFormat> {
+  let directory;
+  try {
+    directory = await unzipper.Open.file(filePath);
+  } catch {
+    return byExtension;
+  }
+  const names = directory.files.map(f => f.path.toLowerCase());
+  const hasKML = names.some(name => name.endsWith('.kml'));
+  const hasShapefile = names.some(name => name.endsWith('.shp'));
+  const hasWorkbook = names.includes('xl/workbook.xml');
+
+  if ((byExtension === 'kmz' && hasKML) || (byExtension === 'shapefile' && hasShapefile)) return byExtension;
+  if (hasKML) return 'kmz';
+  if (hasShapefile) return 'shapefile';
+  if (hasWorkbook) return 'xlsx';
+  return byExtension;
+}
+
+/**
+ * Detect the format of a file from its content, falling back to the
+ * extension when the leading bytes are not conclusive. Renamed files and
+ * files without an extension (e.g. from messaging apps) are recognized.
+ */
+export async function detectFileType(filePath: string): Promise<SupportedFormat> {
+  const byExtension = getFileType(filePath);
+
+  let head: Buffer;
+  try {
+    head = await readFileHead(filePath);
+  } catch {
+    return byExtension;
+  }
+
+  if (isZipHeader(head)) return detectZipType(filePath, byExtension);
+
+  const sniffed = sniffFileType(head);
+  // A single-line sequence is also a valid GeoJSON document
+  if (sniffed === 'geojson' && byExtension === 'geojsonseq') return byExtension;
+  if (sniffed !== 'unknown') return sniffed;
+  if (byExtension !== 'unknown') return byExtension;
+  return looksLikeDelimitedText(decodeText(head)) ? 'csv' : 'unknown';
+}
+
+// ============================================================================
+// TIMESTAMPS
+// ============================================================================
+
+/** Reduced-precision dates allowed by KML: xsd:gYear, gYearMonth and date */
+const PARTIAL_DATE = /^(\d{4})(?:-(\d{2}))?(?:-(\d{2}))?$/;
+
+/**
+ * Normalize a timestamp to ISO 8601. Date-times are converted to UTC
+ * (a missing zone is read as UTC); years, months and dates are kept as given.
+ *
+ * @returns ISO 8601 string, or null if the text is not a valid timestamp
+ */
+export function parseTimestamp(text: string | null | undefined): string | null {
+  const value = text?.trim();
+  if (!value) return null;
+
+  const partial = value.match(PARTIAL_DATE);
+  if (partial) {
+    const [, year, month, day] = partial;
+    const ms = Date.UTC(Number(year), month ? Number(month) - 1 : 0, day ? Number(day) : 1);
+    // Rejects month 13, February 30 and the like, which Date.UTC rolls over
+    return new Date(ms).toISOString().startsWith(value) ? value : null;
+  }
+
+  const ms = Date.parse(/(?:Z|[+-]\d{2}:\d{2})$/i.test(value) ? value : `${value}Z`);
+  return Number.isNaN(ms) ? null : new Date(ms).toISOString();
+}
+
+/**
+ * Period covered by a timestamp in epoch milliseconds, inclusive: a whole
+ * year, month or day for reduced-precision dates
+ */
+export function getTimestampRange(timestamp: string): [number, number] | null {
+  const partial = timestamp.match(PARTIAL_DATE);
+  if (!partial) {
+    const ms = Date.parse(timestamp);
+    return Number.isNaN(ms) ? null : [ms, ms];
+  }
+
+  const [, year, month, day] = partial.map(Number);
+  const start = Date.UTC(year, month ? month - 1 : 0, day || 1);
+  const end = day
+    ? Date.UTC(year, month - 1, day + 1)
+    : month ? Date.UTC(year, month, 1) : Date.UTC(year + 1, 0, 1);
+  return [start, end - 1];
+}
+
+/** Time fields of a point */
+export type PointTimes = Pick<ParsedMapPoint, 'time' | 'timeStart' | 'timeEnd'>;
+
+/**
+ * The time fields a point has set, or null when it has none
+ */
+export function getPointTimes(point: ParsedMapPoint): PointTimes | null {
+  if (!point.time && !point.timeStart && !point.timeEnd) return null;
+  const times: PointTimes = {};
+  if (point.time) times.time = point.time;
+  if (point.timeStart) times.timeStart = point.timeStart;
+  if (point.timeEnd) times.timeEnd = point.timeEnd;
+  return times;
+}
+
+/**
+ * Keep points whose time overlaps since..until (inclusive; either bound may be
+ * omitted). Open-ended spans extend indefinitely; points without a time are
+ * dropped when any bound is given.
+ */
+export function filterPointsByTime(points: ParsedMapPoint[], since?: string | null, until?: string | null): ParsedMapPoint[] {
+  if (!since && !until) return points;
+  const sinceMs = since ? getTimestampRange(since)?.[0] ?? -Infinity : -Infinity;
+  const untilMs = until ? getTimestampRange(until)?.[1] ?? Infinity : Infinity;
+
+  return points.filter(point => {
+    const start = point.timeStart ?? point.time;
+    const end = point.timeEnd ?? point.time;
+    if (!start && !end) return false;
+
+    const startMs = start ? getTimestampRange(start)?.[0] ?? -Infinity : -Infinity;
+    const endMs = end ? getTimestampRange(end)?.[1] ?? Infinity : Infinity;
+    return endMs >= sinceMs && startMs <= untilMs;
+  });
 }
 
 // ============================================================================
 // KML PARSING
 // ============================================================================
 
+/** Style ids generated by Google My Maps (icon-1899-0288D1-nodesc), which say nothing about the category */
+const MY_MAPS_STYLE_ID = /^(icon|line|poly)(-ci)?(-[0-9A-F]+)+(-labelson)?(-nodesc)?(-normal|-highlight)?$/i;
+
 /**
  * Extract category from KML styleUrl or folder
  */
 function getKMLCategory(placemark: Element): string | null {
   const styleUrl = placemark.getElementsByTagName('styleUrl')[0];
   if (styleUrl?.textContent) {
-    const style = styleUrl.textContent.replace('#', '');
-    if (style) return style;
+    const style = styleUrl.textContent.trim().replace(/^.*#/, '');
+    if (style && !MY_MAPS_STYLE_ID.test(style)) return style;
+  }
+
+  const folders = getKMLContainers(placemark).filter(c => c.nodeName === 'Folder');
+  return folders.length > 0 ? getKMLContainerName(folders[folders.length - 1]) : null;
+}
+
+/**
+ * Text of a container's own <name> (not a nested placemark's)
+ */
+function getKMLContainerName(container: Element): string | null {
+  for (let node = container.firstChild; node; node = node.nextSibling) {
+    if (node.nodeName === 'name') return node.textContent?.trim() || null;
+  }
+  return null;
+}
+
+/**
+ * Named Folder and nested Document ancestors of a placemark, outermost first.
+ * The top-level Document is the file itself and is not part of the path.
+ */
+function getKMLContainers(placemark: Element): Element[] {
+  const containers: Element[] = [];
+  for (let parent = placemark.parentNode; parent; parent = parent.parentNode) {
+    const isFolder = parent.nodeName === 'Folder';
+    const isNestedDocument = parent.nodeName === 'Document' && parent.parentNode?.nodeName !== 'kml';
+    if ((isFolder || isNestedDocument) && getKMLContainerName(parent as Element)) {
+      containers.unshift(parent as Element);
+    }
+  }
+  return containers;
+}
+
+/**
+ * Full folder path of a placemark, e.g. "Upstate/Hospitals/Demolished"
+ */
+function getKMLFolderPath(placemark: Element): string | null {
+  const names = getKMLContainers(placemark).map(getKMLContainerName);
+  return names.length > 0 ? names.join('/') : null;
+}
+
+// ============================================================================
+// KML STYLES
+// ============================================================================
+
+/**
+ * Shared Style and StyleMap definitions of a KML document, by id
+ */
+export interface KMLStyleIndex {
+  styles: Map<string, PointStyle>;
+  /** StyleMap pairs: a styleUrl reference or an inline style */
+  styleMaps: Map<string, { normal?: string | PointStyle; highlight?: string | PointStyle }>;
+}
+
+export function createKMLStyleIndex(): KMLStyleIndex {
+  return { styles: new Map(), styleMaps: new Map() };
+}
+
+/**
+ * Convert a KML aabbggrr color to CSS hex
+ */
+function kmlColorToHex(color: string | null | undefined): string | undefined {
+  const match = color?.trim().match(/^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+  if (!match) return undefined;
+  const [, aa, bb, gg, rr] = match;
+  const hex = `#${rr}${gg}${bb}`.toLowerCase();
+  return aa.toLowerCase() === 'ff' ? hex : `${hex}${aa.toLowerCase()}`;
+}
+
+/**
+ * Read the icon, label, line and polygon settings of a <Style>
+ */
+function parseKMLStyle(styleEl: Element): PointStyle {
+  const style: PointStyle = {};
+  const first = (parent: Element, tag: string): Element | undefined => parent.getElementsByTagName(tag)[0];
+  const number = (parent: Element, tag: string): number | undefined => {
+    const value = parseFloat(first(parent, tag)?.textContent || '');
+    return isNaN(value) ? undefined : value;
+  };
+
+  const iconStyle = first(styleEl, 'IconStyle');
+  if (iconStyle) {
+    const href = first(iconStyle, 'href')?.textContent?.trim();
+    if (href) style.iconHref = href;
+    style.iconColor = kmlColorToHex(first(iconStyle, 'color')?.textContent);
+    style.iconScale = number(iconStyle, 'scale');
+  }
+
+  const labelStyle = first(styleEl, 'LabelStyle');
+  if (labelStyle) {
+    style.labelColor = kmlColorToHex(first(labelStyle, 'color')?.textContent);
+    style.labelScale = number(labelStyle, 'scale');
+  }
+
+  const lineStyle = first(styleEl, 'LineStyle');
+  if (lineStyle) {
+    style.lineColor = kmlColorToHex(first(lineStyle, 'color')?.textContent);
+    style.lineWidth = number(lineStyle, 'width');
+  }
+
+  const polyStyle = first(styleEl, 'PolyStyle');
+  if (polyStyle) {
+    style.fillColor = kmlColorToHex(first(polyStyle, 'color')?.textContent);
+  }
+
+  for (const key of Object.keys(style) as Array<keyof PointStyle>) {
+    if (style[key] === undefined) delete style[key];
+  }
+  return style;
+}
+
+/**
+ * Add a shared <Style> or <StyleMap> to the index (shared with the streaming parser)
+ */
+export function addKMLStyleDefinition(index: KMLStyleIndex, el: Element): void {
+  const id = el.getAttribute('id');
+  if (!id) return;
+
+  if (el.nodeName === 'Style') {
+    index.styles.set(id, parseKMLStyle(el));
+    return;
+  }
+
+  const pairs: { normal?: string | PointStyle; highlight?: string | PointStyle } = {};
+  const pairEls = el.getElementsByTagName('Pair');
+  for (let i = 0; i < pairEls.length; i++) {
+    const key = pairEls[i].getElementsByTagName('key')[0]?.textContent?.trim();
+    if (key !== 'normal' && key !== 'highlight') continue;
+    const url = pairEls[i].getElementsByTagName('styleUrl')[0]?.textContent?.trim();
+    const inline = pairEls[i].getElementsByTagName('Style')[0];
+    if (url) pairs[key] = url;
+    else if (inline) pairs[key] = parseKMLStyle(inline);
+  }
+  index.styleMaps.set(id, pairs);
+}
+
+/**
+ * Resolve a styleUrl (or inline pair style) to its Style, following StyleMaps to the normal style
+ */
+function resolveKMLStyleRef(
+  ref: string | PointStyle | undefined,
+  index: KMLStyleIndex,
+  depth = 0
+): PointStyle | undefined {
+  if (ref === undefined || typeof ref === 'object') return ref;
+  const id = ref.replace(/^.*#/, '');
+  if (index.styles.has(id)) return index.styles.get(id);
+  const pairs = index.styleMaps.get(id);
+  return pairs && depth < 4 ? resolveKMLStyleRef(pairs.normal, index, depth + 1) : undefined;
+}
+
+/**
+ * Resolve the style of a placemark: its shared style (StyleMap normal, with
+ * the highlight variant when different) overridden by an inline <Style>
+ */
+function getKMLPlacemarkStyle(placemark: Element, index: KMLStyleIndex | undefined): PointStyle | undefined {
+  let style: PointStyle = {};
+
+  for (let node = placemark.firstChild; node; node = node.nextSibling) {
+    if (node.nodeName !== 'styleUrl' || !index) continue;
+    const url = node.textContent?.trim() || '';
+    const id = url.replace(/^.*#/, '');
+    const normal = resolveKMLStyleRef(url, index);
+    if (normal) style = { id, ...normal };
+
+    const pairs = index.styleMaps.get(id);
+    const highlight = resolveKMLStyleRef(pairs?.highlight, index);
+    if (highlight && JSON.stringify(highlight) !== JSON.stringify(normal)) {
+      style.id = id;
+      style.highlight = { ...highlight };
+    }
+  }
+
+  for (let node = placemark.firstChild; node; node = node.nextSibling) {
+    if (node.nodeName === 'Style') {
+      style = { ...style, ...parseKMLStyle(node as Element) };
+    }
+  }
+
+  return Object.keys(style).some(key => key !== 'id') ? style : undefined;
+}
+
+/**
+ * Extract extended data from KML placemark
+ */
+function extractKMLMetadata(placemark: Element): Record<string, unknown> | null {
+  const metadata: Record<string, unknown> = {};
+
+  const extendedData = placemark.getElementsByTagName('ExtendedData')[0];
+  if (extendedData) {
+    // SimpleData elements
+    const simpleData = extendedData.getElementsByTagName('SimpleData');
+    for (let i = 0; i < simpleData.length; i++) {
+      const el = simpleData[i];
+      const name = el.getAttribute('name');
+      if (name && el.textContent) {
+        metadata[name] = el.textContent.trim();
+      }
+    }
+
+    // Data elements
+    const dataElements = extendedData.getElementsByTagName('Data');
+    for (let i = 0; i < dataElements.length; i++) {
+      const el = dataElements[i];
+      const name = el.getAttribute('name');
+      const value = el.getElementsByTagName('value')[0];
+      if (name && value?.textContent) {
+        metadata[name] = value.textContent.trim();
+      }
+    }
+  }
+
+  return Object.keys(metadata).length > 0 ? metadata : null;
+}
+
+/**
+ * Parse a KML coordinates string ("lng,lat[,alt] lng,lat[,alt] ...")
+ */
+function parseKMLCoordinates(text: string): Position[] {
+  const positions: Position[] = [];
+  for (const tuple of text.trim().split(/\s+/)) {
+    const coords = tuple.split(',');
+    if (coords.length < 2) continue;
+    const lng = parseFloat(coords[0]);
+    const lat = parseFloat(coords[1]);
+    if (!isValidCoordinate(lat, lng)) continue;
+    const alt = coords.length >= 3 ? parseFloat(coords[2]) : NaN;
+    positions.push(isNaN(alt) ? [lng, lat] : [lng, lat, alt]);
+  }
+  return positions;
+}
+
+/**
+ * Read a placemark's TimeStamp (time) or TimeSpan (timeStart/timeEnd)
+ */
+function getKMLTimes(placemark: Element): PointTimes | null {
+  for (let node = placemark.firstChild; node; node = node.nextSibling) {
+    const el = node as Element;
+    if (el.localName === 'TimeStamp') {
+      const time = parseTimestamp(el.getElementsByTagName('when')[0]?.textContent);
+      if (time) return { time };
+    } else if (el.localName === 'TimeSpan') {
+      const times: PointTimes = {};
+      const begin = parseTimestamp(el.getElementsByTagName('begin')[0]?.textContent);
+      const end = parseTimestamp(el.getElementsByTagName('end')[0]?.textContent);
+      if (begin) times.timeStart = begin;
+      if (end) times.timeEnd = end;
+      if (begin || end) return times;
+    }
+  }
+  return null;
+}
+
+/**
+ * Read the coordinates of the first LinearRing inside a boundary element
+ */
+function parseKMLRing(boundary: Element): Position[] {
+  const linearRing = boundary.getElementsByTagName('LinearRing')[0];
+  const coordsEl = linearRing?.getElementsByTagName('coordinates')[0];
+  return coordsEl?.textContent ? parseKMLCoordinates(coordsEl.textContent) : [];
+}
+
+/**
+ * Geometries of a placemark, flattened out of MultiGeometry and gx:MultiTrack
+ */
+interface KMLGeometries {
+  points: Position[];
+  lines: Position[][];
+  tracks: Position[][];
+  polygons: Position[][][];
+  /** gx:Track <when> values, in document order */
+  trackTimes: string[];
+}
+
+/**
+ * Read a gx:Track's <gx:coord> values ("lng lat alt", space separated)
+ */
+function parseGXTrack(track: Element): Position[] {
+  const positions: Position[] = [];
+  for (let node = track.firstChild; node; node = node.nextSibling) {
+    if ((node as Element).localName !== 'coord') continue;
+    const [lng, lat, alt] = (node.textContent || '').trim().split(/\s+/).map(parseFloat);
+    if (!isValidCoordinate(lat, lng)) continue;
+    positions.push(alt === undefined || isNaN(alt) ? [lng, lat] : [lng, lat, alt]);
   }
+  return positions;
+}
 
-  let parent = placemark.parentNode;
-  while (parent) {
-    if (parent.nodeName === 'Folder') {
-      const folderName = (parent as Element).getElementsByTagName('name')[0];
-      if (folderName?.textContent) {
-        return folderName.textContent.trim();
+/**
+ * Collect the geometries that are direct children of an element, descending
+ * into MultiGeometry and gx:MultiTrack containers
+ */
+function collectKMLGeometries(parent: Element, out: KMLGeometries): KMLGeometries {
+  for (let node = parent.firstChild; node; node = node.nextSibling) {
+    const el = node as Element;
+    switch (el.localName) {
+      case 'Point': {
+        const coordsEl = el.getElementsByTagName('coordinates')[0];
+        const [position] = coordsEl?.textContent ? parseKMLCoordinates(coordsEl.textContent) : [];
+        if (position) out.points.push(position);
+        break;
+      }
+      case 'LineString':
+      case 'LinearRing': {
+        const coordsEl = el.getElementsByTagName('coordinates')[0];
+        const line = coordsEl?.textContent ? parseKMLCoordinates(coordsEl.textContent) : [];
+        if (line.length > 0) out.lines.push(line);
+        break;
+      }
+      case 'Polygon': {
+        const outerBoundary = el.getElementsByTagName('outerBoundaryIs')[0];
+        const outer = outerBoundary ? parseKMLRing(outerBoundary) : [];
+        if (outer.length === 0) break;
+        const rings: Position[][] = [outer];
+        const innerBoundaries = el.getElementsByTagName('innerBoundaryIs');
+        for (let j = 0; j < innerBoundaries.length; j++) {
+          const inner = parseKMLRing(innerBoundaries[j]);
+          if (inner.length > 0) rings.push(inner);
+        }
+        out.polygons.push(rings);
+        break;
+      }
+      case 'Track': {
+        const track = parseGXTrack(el);
+        if (track.length > 0) out.tracks.push(track);
+        for (let when = el.firstChild; when; when = when.nextSibling) {
+          if ((when as Element).localName !== 'when') continue;
+          const time = parseTimestamp(when.textContent);
+          if (time) out.trackTimes.push(time);
+        }
+        break;
+      }
+      case 'MultiGeometry':
+      case 'MultiTrack':
+        collectKMLGeometries(el, out);
+        break;
+    }
+  }
+  return out;
+}
+
+/**
+ * Extract points from a single KML Placemark (shared with the streaming parser).
+ * Every Point of a MultiGeometry becomes its own point; lines, tracks and
+ * polygons are each combined into one (Multi)LineString or (Multi)Polygon.
+ */
+export function parseKMLPlacemark(placemark: Element, styles?: KMLStyleIndex, skip?: SkipReporter): ParsedMapPoint[] {
+  const points: ParsedMapPoint[] = [];
+
+  const nameEl = placemark.getElementsByTagName('name')[0];
+  const name = nameEl?.textContent?.trim() || null;
+
+  const descEl = placemark.getElementsByTagName('description')[0];
+  const description = descEl?.textContent?.trim() || null;
+
+  const style = getKMLPlacemarkStyle(placemark, styles);
+  const category = getKMLCategory(placemark);
+
+  const folderPath = getKMLFolderPath(placemark);
+  const metadata = (): Record<string, unknown> | null => {
+    const extended = extractKMLMetadata(placemark);
+    return folderPath ? { ...extended, folderPath } : extended;
+  };
+
+  const geometries = collectKMLGeometries(placemark, { points: [], lines: [], tracks: [], polygons: [], trackTimes: [] });
+  const times = getKMLTimes(placemark);
+
+  for (const [lng, lat] of geometries.points) {
+    points.push({
+      name,
+      description,
+      lat,
+      lng,
+      state: getUSStateFromCoords(lat, lng),
+      category,
+      rawMetadata: metadata()
+    });
+  }
+
+  // Lines and tracks: first point as representative, full line(s) as geometry
+  const lineKinds = [[geometries.lines, 'line', []], [geometries.tracks, 'track', geometries.trackTimes]] as const;
+  for (const [lines, fallbackCategory, lineTimes] of lineKinds) {
+    if (lines.length === 0) continue;
+    const [lng, lat] = lines[0][0];
+    const point: ParsedMapPoint = {
+      name,
+      description,
+      lat,
+      lng,
+      state: getUSStateFromCoords(lat, lng),
+      category: category || fallbackCategory,
+      rawMetadata: metadata(),
+      geometry: lines.length === 1
+        ? { type: 'LineString', coordinates: lines[0] }
+        : { type: 'MultiLineString', coordinates: lines }
+    };
+    if (lineTimes.length > 0 && !times) {
+      point.timeStart = lineTimes[0];
+      point.timeEnd = lineTimes[lineTimes.length - 1];
+    }
+    points.push(point);
+  }
+
+  // Polygons: area-weighted centroid (or point on surface) as representative, rings incl. holes as geometry
+  if (geometries.polygons.length > 0) {
+    const polygons = geometries.polygons;
+    const [centroidLat, centroidLng] = calculateRepresentativePoint(polygons);
+    points.push({
+      name,
+      description,
+      lat: centroidLat,
+      lng: centroidLng,
+      state: getUSStateFromCoords(centroidLat, centroidLng),
+      category: category || 'polygon',
+      rawMetadata: metadata(),
+      geometry: polygons.length === 1
+        ? { type: 'Polygon', coordinates: polygons[0] }
+        : { type: 'MultiPolygon', coordinates: polygons }
+    });
+  }
+
+  if (points.length === 0) {
+    const hasCoordinates = placemark.getElementsByTagName('coordinates').length > 0
+      || placemark.getElementsByTagName('gx:coord').length > 0;
+    skip?.(hasCoordinates ? 'invalid coordinates' : 'missing geometry', name);
+  }
+
+  // The placemark's TimeStamp/TimeSpan applies to all of its geometries
+  for (const point of points) {
+    if (style) point.style = style;
+    if (times) Object.assign(point, times);
+  }
+
+  return points;
+}
+
+/**
+ * Parse KML content and extract placemarks
+ */
+function parseKML(content: string, file: SourceFile, onWarning?: WarningHandler): ParsedMapPoint[] {
+  const points: ParsedMapPoint[] = [];
+  const parser = new DOMParser();
+  const doc = parser.parseFromString(content, 'text/xml');
+
+  // Shared styles; inline placemark styles are handled per placemark
+  const styles = createKMLStyleIndex();
+  for (const tag of ['Style', 'StyleMap']) {
+    const definitions = doc.getElementsByTagName(tag);
+    for (let i = 0; i < definitions.length; i++) {
+      if (definitions[i].parentNode?.nodeName !== 'Placemark') {
+        addKMLStyleDefinition(styles, definitions[i]);
+      }
+    }
+  }
+
+  const placemarks = doc.getElementsByTagName('Placemark');
+  for (let i = 0; i < placemarks.length; i++) {
+    const line = getElementLine(placemarks[i]);
+    for (const point of parseKMLPlacemark(placemarks[i], styles, createSkipReporter(onWarning, i, line))) {
+      setPointSource(point, file, i, line, placemarks[i].getAttribute('id'));
+      points.push(point);
+    }
+  }
+
+  return points;
+}
+
+// ============================================================================
+// GPX PARSING
+// ============================================================================
+
+/** Vendor extension namespaces (matched by URI, so any prefix works) */
+const GROUNDSPEAK_NS = /^https?:\/\/www\.groundspeak\.com\/cache\//;
+const GARMIN_WAYPOINT_NS = /^https?:\/\/www\.garmin\.com\/xmlschemas\/(GpxExtensions\/v3|WaypointExtension\/v1)/;
+const OSMAND_NS = /^https?:\/\/osmand\.net/;
+
+/** Namespace of the <mapsh-pit:field> extensions written by GPX output */
+export const MAPSH_PIT_GPX_NS = 'urn:mapsh-pit:gpx-extensions:1';
+
+/**
+ * Element children of a node
+ */
+function childElements(el: Element): Element[] {
+  const children: Element[] = [];
+  for (let node = el.firstChild; node; node = node.nextSibling) {
+    if (node.nodeType === 1) children.push(node as Element);
+  }
+  return children;
+}
+
+/**
+ * Map the leaf children of an element to { localName: text }
+ */
+function readLeafValues(el: Element): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const child of childElements(el)) {
+    const text = child.textContent?.trim();
+    if (text && childElements(child).length === 0) {
+      values[child.localName || child.nodeName] = text;
+    }
+  }
+  return values;
+}
+
+/**
+ * Read a <mapsh-pit:field name="..."> extension; type="json" values are decoded
+ */
+function readMapshPitField(el: Element): [string, unknown] | null {
+  const name = el.getAttribute('name');
+  if (!name) return null;
+  const text = el.textContent ?? '';
+  if (el.getAttribute('type') !== 'json') return [name, text];
+  try {
+    return [name, JSON.parse(text)];
+  } catch {
+    return [name, text];
+  }
+}
+
+/**
+ * mapsh-pit fields in the direct <extensions> child of a wpt, trk or rte
+ */
+function readMapshPitFields(el: Element): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  const extensions = childElements(el).find(c => c.localName === 'extensions');
+  for (const child of extensions ? childElements(extensions) : []) {
+    if (child.namespaceURI !== MAPSH_PIT_GPX_NS || child.localName !== 'field') continue;
+    const field = readMapshPitField(child);
+    if (field) fields[field[0]] = field[1];
+  }
+  return fields;
+}
+
+/**
+ * Read a Groundspeak <cache> element (pocket queries and GSAK exports)
+ */
+function readGroundspeakCache(cache: Element): Record<string, unknown> {
+  const values = readLeafValues(cache);
+  const geocache: Record<string, unknown> = {};
+
+  const id = cache.getAttribute('id');
+  if (id) geocache.id = id;
+  for (const flag of ['available', 'archived']) {
+    const value = cache.getAttribute(flag);
+    if (value) geocache[flag] = value.toLowerCase() === 'true';
+  }
+
+  const fields: Record<string, string> = {
+    name: 'name',
+    placed_by: 'placedBy',
+    owner: 'owner',
+    type: 'type',
+    container: 'container',
+    country: 'country',
+    state: 'state',
+    short_description: 'shortDescription',
+    long_description: 'longDescription',
+    encoded_hints: 'hints',
+  };
+  for (const [tag, key] of Object.entries(fields)) {
+    if (values[tag]) geocache[key] = values[tag];
+  }
+  for (const tag of ['difficulty', 'terrain']) {
+    const value = parseFloat(values[tag]);
+    if (!isNaN(value)) geocache[tag] = value;
+  }
+
+  const attributes = childElements(cache).find(c => c.localName === 'attributes');
+  if (attributes) {
+    geocache.attributes = childElements(attributes)
+      .map(a => ({ name: a.textContent?.trim() || '', positive: a.getAttribute('inc') !== '0' }));
+  }
+
+  return geocache;
+}
+
+/**
+ * Read a Garmin <WaypointExtension> (address, phone, categories, proximity)
+ */
+function readGarminWaypointExtension(ext: Element): Record<string, unknown> {
+  const garmin: Record<string, unknown> = {};
+
+  for (const child of childElements(ext)) {
+    const text = child.textContent?.trim();
+    switch (child.localName) {
+      case 'Address': {
+        const address = readLeafValues(child);
+        const street = childElements(child)
+          .filter(c => c.localName === 'StreetAddress')
+          .map(c => c.textContent?.trim())
+          .filter(Boolean);
+        const structured: Record<string, unknown> = {};
+        if (street.length > 0) structured.street = street.join(', ');
+        if (address.City) structured.city = address.City;
+        if (address.State) structured.state = address.State;
+        if (address.Country) structured.country = address.Country;
+        if (address.PostalCode) structured.postalCode = address.PostalCode;
+        garmin.address = structured;
+        break;
+      }
+      case 'PhoneNumber':
+        if (text) garmin.phone = text;
+        break;
+      case 'Categories':
+        garmin.categories = childElements(child).map(c => c.textContent?.trim()).filter(Boolean);
+        break;
+      case 'Proximity':
+      case 'Temperature':
+      case 'Depth':
+        if (text && !isNaN(parseFloat(text))) garmin[child.localName.toLowerCase()] = parseFloat(text);
+        break;
+      case 'DisplayMode':
+        if (text) garmin.displayMode = text;
+        break;
+    }
+  }
+
+  return garmin;
+}
+
+/**
+ * Extract vendor extensions into structured keys:
+ * - geocache: Groundspeak cache details
+ * - osmand: OsmAnd favourite color/icon/background/address (+ group from <type>)
+ * - garmin: Garmin WaypointExtension address/phone/categories
+ * - extensions: leaf values of any other extension
+ * mapsh-pit fields are read separately (readMapshPitFields).
+ */
+function extractGPXExtensions(wpt: Element): Record<string, unknown> {
+  const metadata: Record<string, unknown> = {};
+  const topLevel = childElements(wpt);
+  const extensions = topLevel.find(c => c.localName === 'extensions');
+
+  // GPX 1.0 pocket queries put the cache directly under <wpt>
+  const candidates = [...topLevel, ...(extensions ? childElements(extensions) : [])];
+  const osmand: Record<string, unknown> = {};
+  const other: Record<string, string> = {};
+
+  for (const el of candidates) {
+    const ns = el.namespaceURI || '';
+    if (GROUNDSPEAK_NS.test(ns) && el.localName === 'cache') {
+      metadata.geocache = readGroundspeakCache(el);
+    } else if (GARMIN_WAYPOINT_NS.test(ns) && el.localName === 'WaypointExtension') {
+      metadata.garmin = readGarminWaypointExtension(el);
+    } else if (ns === MAPSH_PIT_GPX_NS) {
+      continue;
+    } else if (OSMAND_NS.test(ns)) {
+      const text = el.textContent?.trim();
+      if (text) osmand[el.localName] = text;
+    } else if (extensions && el.parentNode === extensions) {
+      const text = el.textContent?.trim();
+      if (text && childElements(el).length === 0) other[el.localName || el.nodeName] = text;
+    }
+  }
+
+  if (Object.keys(osmand).length > 0) {
+    // OsmAnd stores the favourites group as the waypoint <type>
+    const group = topLevel.find(c => c.localName === 'type')?.textContent?.trim();
+    if (group) osmand.group = group;
+    metadata.osmand = osmand;
+  }
+  if (Object.keys(other).length > 0) {
+    metadata.extensions = other;
+  }
+
+  return metadata;
+}
+
+/**
+ * Extract metadata from GPX waypoint
+ */
+function extractGPXMetadata(wpt: Element): Record<string, unknown> | null {
+  const metadata: Record<string, unknown> = {};
+
+  const eleEl = wpt.getElementsByTagName('ele')[0];
+  if (eleEl?.textContent) {
+    metadata.elevation = parseFloat(eleEl.textContent);
+  }
+
+  const linkEl = wpt.getElementsByTagName('link')[0];
+  if (linkEl) {
+    const href = linkEl.getAttribute('href');
+    if (href) metadata.link = href;
+  }
+
+  const symEl = wpt.getElementsByTagName('sym')[0];
+  if (symEl?.textContent) {
+    metadata.symbol = symEl.textContent.trim();
+  }
+
+  Object.assign(metadata, extractGPXExtensions(wpt), readMapshPitFields(wpt));
+
+  return Object.keys(metadata).length > 0 ? metadata : null;
+}
+
+/**
+ * Read trkpt/rtept elements into track points, skipping invalid coordinates
+ */
+function readGPXTrackPoints(elements: HTMLCollectionOf<Element>): TrackPoint[] {
+  const trackPoints: TrackPoint[] = [];
+  for (let i = 0; i < elements.length; i++) {
+    const el = elements[i];
+    const lat = parseFloat(el.getAttribute('lat') || '');
+    const lng = parseFloat(el.getAttribute('lon') || '');
+    if (!isValidCoordinate(lat, lng)) continue;
+
+    const ele = parseFloat(el.getElementsByTagName('ele')[0]?.textContent || '');
+    const time = el.getElementsByTagName('time')[0]?.textContent?.trim() || null;
+    trackPoints.push({ lat, lng, ele: isNaN(ele) ? null : ele, time });
+  }
+  return trackPoints;
+}
+
+/**
+ * Build a point for a GPX track or route with full geometry and statistics
+ */
+function buildGPXTrackPoint(
+  el: Element,
+  segments: TrackPoint[][],
+  category: 'track' | 'route',
+  fallbackName: string,
+  skip?: SkipReporter
+): ParsedMapPoint | null {
+  // Only direct children: trkpt/rtept carry their own name and desc
+  const childText = (tag: string): string | null => {
+    for (let node = el.firstChild; node; node = node.nextSibling) {
+      if (node.nodeName === tag) return node.textContent?.trim() || null;
+    }
+    return null;
+  };
+
+  if (segments.length === 0) {
+    skip?.(`${category} has no valid points`, childText('name'));
+    return null;
+  }
+
+  const lines = segments.map(segment =>
+    segment.map(pt => (pt.ele !== null ? [pt.lng, pt.lat, pt.ele] : [pt.lng, pt.lat]))
+  );
+  const stats = calculateTrackStats(segments);
+  const label = category === 'track' ? 'Track' : 'Route';
+  const { lat, lng } = segments[0][0];
+
+  const point: ParsedMapPoint = {
+    name: childText('name') || fallbackName,
+    description: childText('desc') || `${label} with ${stats.pointCount} points`,
+    lat,
+    lng,
+    state: getUSStateFromCoords(lat, lng),
+    category,
+    rawMetadata: { ...readMapshPitFields(el), ...stats },
+    geometry: lines.length === 1
+      ? { type: 'LineString', coordinates: lines[0] }
+      : { type: 'MultiLineString', coordinates: lines }
+  };
+  if (stats.startTime) point.timeStart = stats.startTime;
+  if (stats.endTime) point.timeEnd = stats.endTime;
+  return point;
+}
+
+/**
+ * Extract a point from a GPX waypoint (shared with the streaming parser)
+ */
+export function parseGPXWaypoint(wpt: Element, skip?: SkipReporter): ParsedMapPoint | null {
+  const lat = parseFloat(wpt.getAttribute('lat') || '');
+  const lng = parseFloat(wpt.getAttribute('lon') || '');
+
+  const nameEl = wpt.getElementsByTagName('name')[0];
+  const descEl = wpt.getElementsByTagName('desc')[0];
+  const typeEl = wpt.getElementsByTagName('type')[0];
+
+  if (!isValidCoordinate(lat, lng)) {
+    skip?.(`invalid coordinates (lat="${wpt.getAttribute('lat') ?? ''}", lon="${wpt.getAttribute('lon') ?? ''}")`, nameEl?.textContent?.trim());
+    return null;
+  }
+
+  const point: ParsedMapPoint = {
+    name: nameEl?.textContent?.trim() || null,
+    description: descEl?.textContent?.trim() || null,
+    lat,
+    lng,
+    state: getUSStateFromCoords(lat, lng),
+    category: typeEl?.textContent?.trim() || 'waypoint',
+    rawMetadata: extractGPXMetadata(wpt)
+  };
+  const time = parseTimestamp(wpt.getElementsByTagName('time')[0]?.textContent);
+  if (time) point.time = time;
+  return point;
+}
+
+/**
+ * Extract a point from a GPX track; index is used for unnamed tracks
+ */
+export function parseGPXTrack(trk: Element, index: number, skip?: SkipReporter): ParsedMapPoint | null {
+  const segments: TrackPoint[][] = [];
+  const trksegs = trk.getElementsByTagName('trkseg');
+  for (let j = 0; j < trksegs.length; j++) {
+    const segment = readGPXTrackPoints(trksegs[j].getElementsByTagName('trkpt'));
+    if (segment.length > 0) segments.push(segment);
+  }
+
+  return buildGPXTrackPoint(trk, segments, 'track', `Track ${index + 1}`, skip);
+}
+
+/**
+ * Extract a point from a GPX route; index is used for unnamed routes
+ */
+export function parseGPXRoute(rte: Element, index: number, skip?: SkipReporter): ParsedMapPoint | null {
+  const segment = readGPXTrackPoints(rte.getElementsByTagName('rtept'));
+  return buildGPXTrackPoint(rte, segment.length > 0 ? [segment] : [], 'route', `Route ${index + 1}`, skip);
+}
+
+/**
+ * Parse GPX content
+ */
+function parseGPX(content: string, file: SourceFile, onWarning?: WarningHandler): ParsedMapPoint[] {
+  const points: ParsedMapPoint[] = [];
+  const parser = new DOMParser();
+  const doc = parser.parseFromString(content, 'text/xml');
+
+  // Waypoints
+  const waypoints = doc.getElementsByTagName('wpt');
+  for (let i = 0; i < waypoints.length; i++) {
+    const line = getElementLine(waypoints[i]);
+    const point = parseGPXWaypoint(waypoints[i], createSkipReporter(onWarning, i, line));
+    if (point) {
+      setPointSource(point, file, i, line);
+      points.push(point);
+    }
+  }
+
+  // Tracks (first point as representative, all segments as geometry)
+  const tracks = doc.getElementsByTagName('trk');
+  for (let i = 0; i < tracks.length; i++) {
+    const line = getElementLine(tracks[i]);
+    const point = parseGPXTrack(tracks[i], i, createSkipReporter(onWarning, i, line));
+    if (point) {
+      setPointSource(point, file, i, line);
+      points.push(point);
+    }
+  }
+
+  // Routes
+  const routes = doc.getElementsByTagName('rte');
+  for (let i = 0; i < routes.length; i++) {
+    const line = getElementLine(routes[i]);
+    const point = parseGPXRoute(routes[i], i, createSkipReporter(onWarning, i, line));
+    if (point) {
+      setPointSource(point, file, i, line);
+      points.push(point);
+    }
+  }
+
+  return points;
+}
+
+// ============================================================================
+// GEOJSON PARSING
+// ============================================================================
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * First non-empty value among the given property names, as text
+ */
+function getTextProperty(props: Record<string, unknown>, keys: string[]): string | null {
+  for (const key of keys) {
+    const value = props[key];
+    if (value && typeof value !== 'object') return String(value);
+  }
+  return null;
+}
+
+/**
+ * Extract a point from the properties of a geometry-less Feature holding a
+ * coordinate string (e.g. "coordinates": "42°10'12\"N 78°44'24\"W")
+ */
+function parseGeoJSONPropertyCoordinates(props: Record<string, unknown>): ParsedMapPoint | null {
+  for (const [key, value] of Object.entries(props)) {
+    if (typeof value !== 'string' || !COMBINED_COORDINATE_HEADERS.includes(key.toLowerCase())) continue;
+
+    const coords = parseCoordinateString(value);
+    if (!coords) continue;
+
+    const { lat, lng } = coords;
+    return {
+      name: getTextProperty(props, ['name', 'title', 'Name', 'Title']),
+      description: getTextProperty(props, ['description', 'desc', 'Description']),
+      lat,
+      lng,
+      state: getTextProperty(props, ['state', 'State']) || getUSStateFromCoords(lat, lng),
+      category: getTextProperty(props, ['category', 'type']) || 'Point',
+      rawMetadata: props
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Polygon coordinates with a non-empty outer ring
+ */
+function hasOuterRing(coordinates: unknown): coordinates is Position[][] {
+  return Array.isArray(coordinates) && Array.isArray(coordinates[0]) && coordinates[0].length > 0;
+}
+
+/**
+ * Polygons of an areal GeoJSON geometry, including those inside a GeometryCollection
+ */
+function collectGeoJSONPolygons(geometry: unknown): Position[][][] {
+  if (!isObject(geometry)) return [];
+  const { coordinates } = geometry;
+  switch (geometry.type) {
+    case 'Polygon':
+      return hasOuterRing(coordinates) ? [coordinates] : [];
+    case 'MultiPolygon':
+      return Array.isArray(coordinates) ? coordinates.filter(hasOuterRing) : [];
+    case 'GeometryCollection':
+      return Array.isArray(geometry.geometries) ? geometry.geometries.flatMap(collectGeoJSONPolygons) : [];
+    default:
+      return [];
+  }
+}
+
+/**
+ * First position of a GeoJSON geometry
+ */
+function firstGeoJSONPosition(geometry: unknown): Position | null {
+  if (!isObject(geometry)) return null;
+  // Array nesting above the positions
+  let depth: number;
+  switch (geometry.type) {
+    case 'Point':
+      depth = 0;
+      break;
+    case 'MultiPoint':
+    case 'LineString':
+      depth = 1;
+      break;
+    case 'MultiLineString':
+    case 'Polygon':
+      depth = 2;
+      break;
+    case 'MultiPolygon':
+      depth = 3;
+      break;
+    case 'GeometryCollection':
+      for (const member of Array.isArray(geometry.geometries) ? geometry.geometries : []) {
+        const first = firstGeoJSONPosition(member);
+        if (first) return first;
+      }
+      return null;
+    default:
+      return null;
+  }
+  let position = geometry.coordinates;
+  for (let i = 0; i < depth && Array.isArray(position); i++) position = position[0];
+  return Array.isArray(position) && typeof position[0] === 'number' && typeof position[1] === 'number'
+    ? position
+    : null;
+}
+
+/**
+ * Representative [lat, lng] of a geometry: area-weighted centroid (or a
+ * point on the surface) for areal geometries, the first position otherwise
+ */
+function getGeometryRepresentativePoint(geometry: unknown): [number, number] | null {
+  const polygons = collectGeoJSONPolygons(geometry);
+  if (polygons.length > 0) return calculateRepresentativePoint(polygons);
+
+  const position = firstGeoJSONPosition(geometry);
+  return position ? [position[1], position[0]] : null;
+}
+
+const GEOJSON_GEOMETRY_TYPES = new Set([
+  'Point', 'MultiPoint', 'LineString', 'MultiLineString', 'Polygon', 'MultiPolygon', 'GeometryCollection'
+]);
+
+/**
+ * Extract a point from a GeoJSON Feature (shared with the streaming parser)
+ */
+export function parseGeoJSONFeature(feature: unknown, skip?: SkipReporter): ParsedMapPoint | null {
+  if (isTakeoutFeature(feature)) return parseTakeoutFeature(feature, skip);
+
+  const props = isObject(feature) && isObject(feature.properties) ? feature.properties : {};
+  const name = getTextProperty(props, ['name', 'title', 'Name', 'Title']);
+  const description = getTextProperty(props, ['description', 'desc', 'Description']);
+
+  const geometry = isObject(feature) ? feature.geometry : undefined;
+  if (!geometry) {
+    const point = parseGeoJSONPropertyCoordinates(props);
+    if (!point) skip?.('missing geometry', name);
+    return point;
+  }
+
+  const type = isObject(geometry) ? geometry.type : undefined;
+  if (typeof type !== 'string' || !GEOJSON_GEOMETRY_TYPES.has(type)) {
+    skip?.(`unsupported geometry type "${String(type)}"`, name);
+    return null;
+  }
+  const representative = getGeometryRepresentativePoint(geometry);
+  if (!representative) {
+    skip?.('empty or malformed geometry', name);
+    return null;
+  }
+  const [lat, lng] = representative;
+
+  if (!isValidCoordinate(lat, lng)) {
+    skip?.('invalid coordinates', name);
+    return null;
+  }
+
+  const point: ParsedMapPoint = {
+    name,
+    description,
+    lat,
+    lng,
+    state: getTextProperty(props, ['state', 'State']) || getUSStateFromCoords(lat, lng),
+    category: getTextProperty(props, ['category', 'type']) || type,
+    rawMetadata: Object.keys(props).length > 0 ? props : null
+  };
+  if (type !== 'Point') {
+    point.geometry = geometry as MapGeometry;
+  }
+  return point;
+}
+
+/**
+ * Parse GeoJSON content
+ */
+function parseGeoJSON(content: string, file: SourceFile, onWarning?: WarningHandler): ParsedMapPoint[] {
+  const points: ParsedMapPoint[] = [];
+
+  let data;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    onWarning?.({ reason: `invalid JSON: ${error instanceof Error ? error.message : String(error)}` });
+    return points;
+  }
+
+  const features = data.type === 'FeatureCollection' ? data.features : [data];
+
+  for (let i = 0; i < features.length; i++) {
+    const point = parseGeoJSONFeature(features[i], createSkipReporter(onWarning, i));
+    if (point) {
+      setPointSource(point, file, i, undefined, features[i]?.id);
+      points.push(point);
+    }
+  }
+
+  return points;
+}
+
+// ============================================================================
+// GEOJSON TEXT SEQUENCES / NDJSON
+// ============================================================================
+
+/**
+ * One JSON text of a sequence and the line it starts on
+ */
+export interface JSONSequenceRecord {
+  text: string;
+  line: number;
+}
+
+/**
+ * Incremental splitter for newline-delimited JSON and RFC 8142 sequences
+ * (records prefixed with the RS character). The separator is chosen from
+ * the first non-blank character, so RS-delimited records may span lines.
+ */
+export interface JSONSequenceSplitter {
+  /** Feed text; returns the records completed so far */
+  push(chunk: string): JSONSequenceRecord[];
+  /** Flush the last record */
+  end(): JSONSequenceRecord[];
+}
+
+const RECORD_SEPARATOR = '\x1e';
+
+function countNewlines(text: string): number {
+  let count = 0;
+  for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) count++;
+  return count;
+}
+
+export function createJSONSequenceSplitter(): JSONSequenceSplitter {
+  let pending = '';
+  let pendingLine = 1;
+  let separator: string | null = null;
+
+  const take = (final: boolean): JSONSequenceRecord[] => {
+    if (separator === null) {
+      const first = pending.match(/\S/);
+      if (!first) return [];
+      separator = first[0] === RECORD_SEPARATOR ? RECORD_SEPARATOR : '\n';
+    }
+
+    const records: JSONSequenceRecord[] = [];
+    let start = 0;
+    for (;;) {
+      let end = pending.indexOf(separator, start);
+      if (end === -1) {
+        if (!final) break;
+        end = pending.length;
+      }
+      const text = pending.slice(start, end);
+      const trimmed = text.trim();
+      if (trimmed) records.push({ text: trimmed, line: pendingLine + countNewlines(text.slice(0, text.search(/\S/))) });
+      pendingLine += countNewlines(text) + (separator === '\n' ? 1 : 0);
+      start = end + 1;
+      if (end === pending.length) break;
+    }
+    pending = pending.slice(start);
+    return records;
+  };
+
+  return {
+    push(chunk) {
+      pending += chunk;
+      return take(false);
+    },
+    end() {
+      return take(true);
+    },
+  };
+}
+
+/**
+ * Rebuild a point from a record written by the ndjson output format
+ */
+function parsePointRecord(record: Record<string, unknown>, skip?: SkipReporter): ParsedMapPoint | null {
+  const name = typeof record.name === 'string' ? record.name : null;
+  const { lat, lng } = record;
+  if (typeof lat !== 'number' || typeof lng !== 'number' || !isValidCoordinate(lat, lng)) {
+    skip?.('invalid coordinates', name);
+    return null;
+  }
+
+  const point: ParsedMapPoint = {
+    name,
+    description: typeof record.description === 'string' ? record.description : null,
+    lat,
+    lng,
+    state: typeof record.state === 'string' ? record.state : getUSStateFromCoords(lat, lng),
+    category: typeof record.category === 'string' ? record.category : null,
+    rawMetadata: isObject(record.rawMetadata) ? record.rawMetadata : null,
+  };
+  if (isObject(record.geometry) && GEOJSON_GEOMETRY_TYPES.has(record.geometry.type as string)) {
+    point.geometry = record.geometry as MapGeometry;
+  }
+  if (isObject(record.style)) point.style = record.style as PointStyle;
+  for (const key of ['time', 'timeStart', 'timeEnd'] as const) {
+    const value = record[key];
+    const time = typeof value === 'string' ? parseTimestamp(value) : null;
+    if (time) point[key] = time;
+  }
+  return point;
+}
+
+/**
+ * Parse one record of a GeoJSON text sequence or NDJSON file: a Feature,
+ * a bare geometry, or a point as written by the ndjson output format
+ * (shared with the streaming parser)
+ */
+export function parseJSONSequenceRecord(
+  record: JSONSequenceRecord,
+  index: number,
+  file: SourceFile,
+  onWarning?: WarningHandler
+): ParsedMapPoint | null {
+  const skip = createSkipReporter(onWarning, index, record.line);
+  let value: unknown;
+  try {
+    value = JSON.parse(record.text.replace(/^\x1e/, ''));
+  } catch (error) {
+    skip(`invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+
+  const data = isObject(value) ? value : {};
+  let point: ParsedMapPoint | null;
+  if (data.type === 'Feature') {
+    point = parseGeoJSONFeature(data, skip);
+  } else if (typeof data.type === 'string' && GEOJSON_GEOMETRY_TYPES.has(data.type)) {
+    point = parseGeoJSONFeature({ type: 'Feature', geometry: data, properties: {} }, skip);
+  } else if ('lat' in data && 'lng' in data) {
+    point = parsePointRecord(data, skip);
+  } else {
+    skip('not a GeoJSON Feature or point record');
+    return null;
+  }
+
+  if (point) {
+    const { id } = data;
+    setPointSource(point, file, index, record.line, typeof id === 'string' || typeof id === 'number' ? id : undefined);
+  }
+  return point;
+}
+
+/**
+ * Parse newline-delimited GeoJSON (GeoJSONSeq) or NDJSON content
+ */
+function parseGeoJSONSeq(content: string, file: SourceFile, onWarning?: WarningHandler): ParsedMapPoint[] {
+  const splitter = createJSONSequenceSplitter();
+  const records = [...splitter.push(content), ...splitter.end()];
+  const points: ParsedMapPoint[] = [];
+  for (let i = 0; i < records.length; i++) {
+    const point = parseJSONSequenceRecord(records[i], i, file, onWarning);
+    if (point) points.push(point);
+  }
+  return points;
+}
+
+// ============================================================================
+// GOOGLE TAKEOUT PARSING
+// ============================================================================
+
+/**
+ * Detect a Google Takeout "Saved Places.json" feature. Current exports nest
+ * name/address under properties.location; older ones use "Location" with
+ * "Business Name" and "Geo Coordinates".
+ */
+function isTakeoutFeature(feature: unknown): feature is { properties: Record<string, unknown>; geometry?: unknown } {
+  if (!isObject(feature) || !isObject(feature.properties)) return false;
+  return 'google_maps_url' in feature.properties || 'Google Maps URL' in feature.properties;
+}
+
+/**
+ * Extract a point from a Google Takeout Saved Places feature.
+ * Places without stored coordinates are exported at [0, 0]; those fall
+ * back to the coordinates in the Google Maps URL.
+ */
+function parseTakeoutFeature(
+  feature: { properties: Record<string, unknown>; geometry?: unknown },
+  skip?: SkipReporter
+): ParsedMapPoint | null {
+  const props = feature.properties;
+  const location = isObject(props.location) ? props.location : isObject(props.Location) ? props.Location : {};
+  const url = getTextProperty(props, ['google_maps_url', 'Google Maps URL']);
+  const name = getTextProperty(location, ['name', 'Business Name']) || getTextProperty(props, ['Title']);
+
+  let coords: { lat: number; lng: number } | null = null;
+  const { geometry } = feature;
+  const position = isObject(geometry) && geometry.type === 'Point' ? geometry.coordinates : null;
+  const geoCoordinates = location['Geo Coordinates'];
+  if (Array.isArray(position) && (position[0] !== 0 || position[1] !== 0)) {
+    coords = { lat: position[1], lng: position[0] };
+  } else if (isObject(geoCoordinates)) {
+    coords = {
+      lat: parseFloat(String(geoCoordinates.Latitude)),
+      lng: parseFloat(String(geoCoordinates.Longitude)),
+    };
+  } else if (url) {
+    coords = parseGoogleMapsUrl(url);
+  }
+
+  if (!coords || !isValidCoordinate(coords.lat, coords.lng)) {
+    skip?.(coords ? 'invalid coordinates' : 'no stored coordinates or Google Maps URL coordinates', name);
+    return null;
+  }
+
+  // Flatten location fields next to date/URL/comment
+  const metadata: Record<string, unknown> = {};
+  for (const source of [props, location]) {
+    for (const [key, value] of Object.entries(source)) {
+      if (value !== null && value !== '' && typeof value !== 'object') {
+        metadata[key] = value;
+      }
+    }
+  }
+
+  const { lat, lng } = coords;
+  return {
+    name,
+    description: getTextProperty(props, ['Comment', 'comment']) || getTextProperty(location, ['address', 'Address']),
+    lat,
+    lng,
+    state: getUSStateFromCoords(lat, lng),
+    category: 'saved',
+    rawMetadata: metadata
+  };
+}
+
+// ============================================================================
+// CSV PARSING
+// ============================================================================
+
+/**
+ * Detect CSV delimiter
+ */
+export function detectDelimiter(firstLine: string): string {
+  const delimiters = [',', '\t', ';', '|'];
+  let maxCount = 0;
+  let detected = ',';
+
+  // Delimiters inside quoted fields don't count
+  const unquoted = firstLine.replace(/"[^"]*"/g, '');
+
+  for (const delim of delimiters) {
+    const count = (unquoted.match(new RegExp(delim.replace(/[|\\{}()[\]^$+*?.]/g, '\\$&'), 'g')) || []).length;
+    if (count > maxCount) {
+      maxCount = count;
+      detected = delim;
+    }
+  }
+
+  return detected;
+}
+
+/**
+ * Find column indices for lat/lng
+ */
+function findCoordinateColumns(headers: string[]): { latCol: number; lngCol: number } | null {
+  const latPatterns = ['lat', 'latitude', 'y', 'lat_dd'];
+  const lngPatterns = ['lng', 'lon', 'longitude', 'long', 'x', 'lon_dd', 'lng_dd'];
+
+  let latCol = -1;
+  let lngCol = -1;
+
+  const lowerHeaders = headers.map(h => h.toLowerCase().trim());
+
+  for (let i = 0; i < lowerHeaders.length; i++) {
+    const header = lowerHeaders[i];
+
+    if (latPatterns.includes(header)) {
+      latCol = i;
+    }
+    if (lngPatterns.includes(header)) {
+      lngCol = i;
+    }
+  }
+
+  if (latCol === -1 || lngCol === -1) {
+    return null;
+  }
+
+  return { latCol, lngCol };
+}
+
+/**
+ * Incremental RFC 4180 tokenizer: feed text chunks, receive complete records
+ */
+export interface CSVTokenizer {
+  /** Tokenize a chunk, returning the records completed by it */
+  push(chunk: string): string[][];
+  /** Flush the final record */
+  end(): string[][];
+  /** 1-based start line of each record returned by the last push or end call */
+  readonly lines: number[];
+}
+
+/**
+ * Create an RFC 4180 CSV tokenizer.
+ *
+ * Handles quoted fields containing delimiters, CR/LF line breaks and
+ * doubled ("") quotes. Unquoted fields are trimmed; blank lines are skipped.
+ */
+export function createCSVTokenizer(delimiter: string): CSVTokenizer {
+  let field = '';
+  let record: string[] = [];
+  let inQuotes = false;
+  let wasQuoted = false;
+  let quotePending = false;
+  let skipLineFeed = false;
+  let line = 1;
+  let recordLine = 1;
+  let lines: number[] = [];
+
+  const endField = () => {
+    record.push(wasQuoted ? field : field.trim());
+    field = '';
+    wasQuoted = false;
+  };
+
+  const endRecord = (records: string[][]) => {
+    endField();
+    if (record.length > 1 || record[0] !== '') {
+      records.push(record);
+      lines.push(recordLine);
+    }
+    record = [];
+  };
+
+  const endLine = (records: string[][]) => {
+    endRecord(records);
+    line++;
+    recordLine = line;
+  };
+
+  return {
+    push(chunk: string): string[][] {
+      const records: string[][] = [];
+      lines = [];
+
+      for (const c of chunk) {
+        if (skipLineFeed) {
+          skipLineFeed = false;
+          if (c === '\n') continue;
+        }
+
+        // Line breaks inside quoted fields still advance the line count
+        if (c === '\n' && inQuotes && !quotePending) line++;
+
+        if (inQuotes) {
+          if (quotePending) {
+            quotePending = false;
+            if (c === '"') {
+              field += '"';
+              continue;
+            }
+            inQuotes = false; // Closing quote: handle c below
+          } else if (c === '"') {
+            quotePending = true;
+            continue;
+          } else {
+            field += c;
+            continue;
+          }
+        }
+
+        if (c === delimiter) {
+          endField();
+        } else if (c === '\n') {
+          endLine(records);
+        } else if (c === '\r') {
+          endLine(records);
+          skipLineFeed = true;
+        } else if (c === '"' && !wasQuoted && field.trim() === '') {
+          inQuotes = true;
+          wasQuoted = true;
+          field = '';
+        } else {
+          field += c;
+        }
+      }
+
+      return records;
+    },
+
+    end(): string[][] {
+      const records: string[][] = [];
+      lines = [];
+      if (field || wasQuoted || record.length > 0) {
+        endRecord(records);
+      }
+      inQuotes = false;
+      quotePending = false;
+      return records;
+    },
+
+    get lines(): number[] {
+      return lines;
+    },
+  };
+}
+
+/**
+ * Normalize a delimiter option ("tab" and "\\t" mean a tab character)
+ */
+export function resolveDelimiter(delimiter: string | undefined, firstLine: string): string {
+  if (!delimiter) return detectDelimiter(firstLine);
+  if (delimiter === 'tab' || delimiter === '\\t') return '\t';
+  return delimiter;
+}
+
+/**
+ * Column layout of a CSV table
+ */
+export interface CSVColumns {
+  headers: string[];
+  latCol: number;
+  lngCol: number;
+  nameCol: number;
+  descCol: number;
+  stateCol: number;
+  categoryCol: number;
+  /** Combined coordinate column, used when latCol/lngCol are -1 */
+  coordsCol: number;
+  /** Google Maps URL column (Takeout lists), used when there are no coordinate columns */
+  mapsUrlCol: number;
+  /** Feature id column, recorded in the point's source */
+  idCol: number;
+  /** Geometry column: supplies the coordinates when there are no coordinate columns, else only the shape */
+  geometryCol: number;
+}
+
+/** Header names (and DBF fields) of feature id columns */
+const ID_HEADERS = ['id', 'fid', 'objectid', 'uuid'];
+
+/** Header names of columns holding both coordinates */
+const COMBINED_COORDINATE_HEADERS = [
+  'coordinates', 'coordinate', 'coords', 'latlng', 'lat/lng', 'lat_lng', 'latlon', 'lat/lon',
+  'lat_lon', 'lat,lng', 'lat, lng', 'gps', 'location', 'position', 'utm', 'mgrs',
+];
+
+/** Header names of geometry columns (PostGIS/QGIS exports, our own CSV output) */
+const GEOMETRY_HEADERS = ['wkt', 'wkb', 'geom', 'geometry', 'the_geom', 'wkb_geometry', 'geojson'];
+
+/** Header names of Google Maps URL columns (Takeout saved lists: Title, Note, URL, Comment) */
+const MAPS_URL_HEADERS = ['url', 'google maps url', 'google_maps_url', 'maps url', 'link'];
+
+/**
+ * Resolve an explicit column reference (header name or 1-based number)
+ */
+function resolveCSVColumn(headers: string[], ref: string): number {
+  const lowerRef = ref.toLowerCase().trim();
+  const byName = headers.findIndex(h => h.toLowerCase().trim() === lowerRef);
+  if (byName >= 0) return byName;
+
+  if (/^\d+$/.test(lowerRef)) {
+    const index = parseInt(lowerRef, 10) - 1;
+    if (index >= 0 && index < headers.length) return index;
+  }
+
+  throw new Error(`CSV column not found: ${ref}`);
+}
+
+/**
+ * Build the header list for a table: the first record, or generated
+ * column1..columnN names when the table has no header row
+ */
+export function getCSVHeaders(firstRecord: string[], options: CSVOptions = {}): string[] {
+  if (options.hasHeader === false) {
+    return firstRecord.map((_, i) => `column${i + 1}`);
+  }
+  return firstRecord;
+}
+
+/**
+ * Resolve coordinate and attribute columns from the header row.
+ * Explicit column options take precedence over header-name detection.
+ */
+export function findCSVColumns(headers: string[], options: CSVOptions = {}): CSVColumns | null {
+  const lowerHeaders = headers.map(h => h.toLowerCase().trim());
+  const resolve = (ref: string | undefined, patterns: string[]): number =>
+    ref ? resolveCSVColumn(headers, ref) : lowerHeaders.findIndex(h => patterns.includes(h));
+
+  let latCol = options.latColumn ? resolveCSVColumn(headers, options.latColumn) : -1;
+  let lngCol = options.lngColumn ? resolveCSVColumn(headers, options.lngColumn) : -1;
+  let coordsCol = -1;
+  let mapsUrlCol = -1;
+  const geometryCol = resolve(options.geometryColumn, GEOMETRY_HEADERS);
+  if (options.coordsColumn) {
+    coordsCol = resolveCSVColumn(headers, options.coordsColumn);
+  } else if (latCol === -1 || lngCol === -1) {
+    const coords = findCoordinateColumns(headers);
+    if (coords) {
+      if (latCol === -1) latCol = coords.latCol;
+      if (lngCol === -1) lngCol = coords.lngCol;
+    } else if (latCol === -1 && lngCol === -1) {
+      // A geometry column takes precedence over combined coordinate and URL columns
+      if (geometryCol === -1) {
+        coordsCol = lowerHeaders.findIndex(h => COMBINED_COORDINATE_HEADERS.includes(h));
+        if (coordsCol === -1) {
+          mapsUrlCol = lowerHeaders.findIndex(h => MAPS_URL_HEADERS.includes(h));
+          if (mapsUrlCol === -1) return null;
+        }
       }
+    } else {
+      return null;
     }
-    parent = parent.parentNode;
   }
 
-  return null;
+  return {
+    headers,
+    latCol: coordsCol >= 0 || mapsUrlCol >= 0 ? -1 : latCol,
+    lngCol: coordsCol >= 0 || mapsUrlCol >= 0 ? -1 : lngCol,
+    coordsCol,
+    mapsUrlCol,
+    nameCol: resolve(options.nameColumn, ['name', 'title', 'label', 'placename', 'place']),
+    descCol: resolve(options.descColumn, ['description', 'desc', 'notes', 'note', 'comment', 'comments']),
+    stateCol: lowerHeaders.findIndex(h => ['state', 'region', 'province'].includes(h)),
+    categoryCol: options.categoryColumn ? resolveCSVColumn(headers, options.categoryColumn) : -1,
+    idCol: lowerHeaders.findIndex(h => ID_HEADERS.includes(h)),
+    geometryCol,
+  };
 }
 
+/** Warning for a table without recognizable coordinate columns */
+export const CSV_NO_COORDINATES = 'no coordinate columns found in header';
+
 /**
- * Extract extended data from KML placemark
+ * Parse a geometry cell: GeoJSON geometry object, hex WKB/EWKB, or WKT/EWKT
  */
-function extractKMLMetadata(placemark: Element): Record<string, unknown> | null {
-  const metadata: Record<string, unknown> = {};
+function parseCSVGeometry(text: string): MapGeometry | null {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{')) {
+    try {
+      const geometry = JSON.parse(trimmed);
+      return GEOJSON_GEOMETRY_TYPES.has(geometry?.type) ? geometry : null;
+    } catch {
+      return null;
+    }
+  }
+  return /^(?:\\x)?[0-9a-f]+$/i.test(trimmed) ? parseWKB(trimmed) : parseWKT(trimmed);
+}
 
-  const extendedData = placemark.getElementsByTagName('ExtendedData')[0];
-  if (extendedData) {
-    // SimpleData elements
-    const simpleData = extendedData.getElementsByTagName('SimpleData');
-    for (let i = 0; i < simpleData.length; i++) {
-      const el = simpleData[i];
-      const name = el.getAttribute('name');
-      if (name && el.textContent) {
-        metadata[name] = el.textContent.trim();
-      }
+/**
+ * Convert one CSV row into a point (shared with the streaming parser)
+ */
+export function parseCSVRow(columns: CSVColumns, values: string[], skip?: SkipReporter): ParsedMapPoint | null {
+  const { headers, latCol, lngCol, nameCol, descCol, stateCol, categoryCol, coordsCol, mapsUrlCol, geometryCol } = columns;
+  const name = nameCol >= 0 ? values[nameCol] || null : null;
+  const geometryText = geometryCol >= 0 ? values[geometryCol] || '' : '';
+  const geometry = geometryText ? parseCSVGeometry(geometryText) : null;
+
+  let lat: number;
+  let lng: number;
+  if (latCol === -1 && coordsCol === -1 && mapsUrlCol === -1) {
+    const representative = geometry ? getGeometryRepresentativePoint(geometry) : null;
+    if (!representative) {
+      const excerpt = geometryText.length > 40 ? `${geometryText.slice(0, 40)}...` : geometryText;
+      if (!geometryText) skip?.('missing geometry', name);
+      else skip?.(geometry ? 'empty or malformed geometry' : `unparseable geometry "${excerpt}"`, name);
+      return null;
+    }
+    [lat, lng] = representative;
+  } else if (coordsCol >= 0 || mapsUrlCol >= 0) {
+    const text = (coordsCol >= 0 ? values[coordsCol] : values[mapsUrlCol]) || '';
+    const coords = coordsCol >= 0 ? parseCoordinateString(text) : parseGoogleMapsUrl(text);
+    if (!coords) {
+      if (!text) skip?.('missing coordinates', name);
+      else skip?.(coordsCol >= 0 ? `unparseable coordinates "${text}"` : 'no coordinates in URL', name);
+      return null;
     }
+    ({ lat, lng } = coords);
+  } else {
+    lat = parseCoordinateValue(values[latCol] || '', 'lat') ?? NaN;
+    lng = parseCoordinateValue(values[lngCol] || '', 'lng') ?? NaN;
+  }
 
-    // Data elements
-    const dataElements = extendedData.getElementsByTagName('Data');
-    for (let i = 0; i < dataElements.length; i++) {
-      const el = dataElements[i];
-      const name = el.getAttribute('name');
-      const value = el.getElementsByTagName('value')[0];
-      if (name && value?.textContent) {
-        metadata[name] = value.textContent.trim();
-      }
+  if (!isValidCoordinate(lat, lng)) {
+    if (latCol === -1) skip?.('invalid coordinates', name);
+    else if (!values[latCol] && !values[lngCol]) skip?.('missing coordinates', name);
+    else skip?.(`invalid coordinates "${values[latCol] ?? ''}", "${values[lngCol] ?? ''}"`, name);
+    return null;
+  }
+
+  const metadata: Record<string, unknown> = {};
+  for (let j = 0; j < headers.length; j++) {
+    if (j !== latCol && j !== lngCol && j !== coordsCol && j !== geometryCol && values[j]) {
+      metadata[headers[j]] = values[j];
     }
   }
 
-  return Object.keys(metadata).length > 0 ? metadata : null;
+  const csvState = stateCol >= 0 ? values[stateCol] || null : null;
+  const point: ParsedMapPoint = {
+    name,
+    description: descCol >= 0 ? values[descCol] || null : null,
+    lat,
+    lng,
+    state: csvState || getUSStateFromCoords(lat, lng),
+    category: (categoryCol >= 0 ? values[categoryCol] : null) || 'csv',
+    rawMetadata: Object.keys(metadata).length > 0 ? metadata : null
+  };
+  if (geometry && geometry.type !== 'Point') {
+    point.geometry = geometry;
+  }
+  return point;
 }
 
 /**
- * Parse KML content and extract placemarks
+ * Parse CSV content
  */
-function parseKML(content: string): ParsedMapPoint[] {
+function parseCSV(content: string, file: SourceFile, options: CSVOptions = {}, onWarning?: WarningHandler): ParsedMapPoint[] {
   const points: ParsedMapPoint[] = [];
-  const parser = new DOMParser();
-  const doc = parser.parseFromString(content, 'text/xml');
 
-  const placemarks = doc.getElementsByTagName('Placemark');
+  const firstLine = content.slice(0, content.search(/\r|\n|$/));
+  const tokenizer = createCSVTokenizer(resolveDelimiter(options.delimiter, firstLine));
+  const records = tokenizer.push(content);
+  const lines = tokenizer.lines;
+  records.push(...tokenizer.end());
+  lines.push(...tokenizer.lines);
 
-  for (let i = 0; i < placemarks.length; i++) {
-    const placemark = placemarks[i];
-
-    const nameEl = placemark.getElementsByTagName('name')[0];
-    const name = nameEl?.textContent?.trim() || null;
-
-    const descEl = placemark.getElementsByTagName('description')[0];
-    const description = descEl?.textContent?.trim() || null;
-
-    // Try Point coordinates first
-    const pointEl = placemark.getElementsByTagName('Point')[0];
-    if (pointEl) {
-      const coordsEl = pointEl.getElementsByTagName('coordinates')[0];
-      if (coordsEl?.textContent) {
-        const coords = coordsEl.textContent.trim().split(',');
-        if (coords.length >= 2) {
-          const lng = parseFloat(coords[0]);
-          const lat = parseFloat(coords[1]);
-          if (isValidCoordinate(lat, lng)) {
-            points.push({
-              name,
-              description,
-              lat,
-              lng,
-              state: getUSStateFromCoords(lat, lng),
-              category: getKMLCategory(placemark),
-              rawMetadata: extractKMLMetadata(placemark)
-            });
-          }
-        }
-      }
-    }
+  const dataStart = options.hasHeader === false ? 0 : 1;
+  if (records.length <= dataStart) return points;
 
-    // LineString (use first point)
-    const lineString = placemark.getElementsByTagName('LineString')[0];
-    if (lineString && !pointEl) {
-      const coordsEl = lineString.getElementsByTagName('coordinates')[0];
-      if (coordsEl?.textContent) {
-        const firstCoord = coordsEl.textContent.trim().split(/\s+/)[0];
-        const coords = firstCoord.split(',');
-        if (coords.length >= 2) {
-          const lng = parseFloat(coords[0]);
-          const lat = parseFloat(coords[1]);
-          if (isValidCoordinate(lat, lng)) {
-            points.push({
-              name,
-              description,
-              lat,
-              lng,
-              state: getUSStateFromCoords(lat, lng),
-              category: getKMLCategory(placemark) || 'line',
-              rawMetadata: extractKMLMetadata(placemark)
-            });
-          }
-        }
-      }
-    }
+  const columns = findCSVColumns(getCSVHeaders(records[0], options), options);
+  if (!columns) {
+    onWarning?.({ reason: CSV_NO_COORDINATES, line: lines[0] });
+    return points;
+  }
 
-    // Polygon (use centroid)
-    const polygon = placemark.getElementsByTagName('Polygon')[0];
-    if (polygon && !pointEl && !lineString) {
-      const outerBoundary = polygon.getElementsByTagName('outerBoundaryIs')[0];
-      if (outerBoundary) {
-        const linearRing = outerBoundary.getElementsByTagName('LinearRing')[0];
-        if (linearRing) {
-          const coordsEl = linearRing.getElementsByTagName('coordinates')[0];
-          if (coordsEl?.textContent) {
-            const coordPairs = coordsEl.textContent.trim().split(/\s+/);
-            let sumLat = 0, sumLng = 0, count = 0;
-            for (const pair of coordPairs) {
-              const coords = pair.split(',');
-              if (coords.length >= 2) {
-                const lng = parseFloat(coords[0]);
-                const lat = parseFloat(coords[1]);
-                if (isValidCoordinate(lat, lng)) {
-                  sumLat += lat;
-                  sumLng += lng;
-                  count++;
-                }
-              }
-            }
-            if (count > 0) {
-              const centroidLat = sumLat / count;
-              const centroidLng = sumLng / count;
-              points.push({
-                name,
-                description,
-                lat: centroidLat,
-                lng: centroidLng,
-                state: getUSStateFromCoords(centroidLat, centroidLng),
-                category: getKMLCategory(placemark) || 'polygon',
-                rawMetadata: extractKMLMetadata(placemark)
-              });
-            }
-          }
-        }
-      }
+  for (let i = dataStart; i < records.length; i++) {
+    const skip = createSkipReporter(onWarning, i - dataStart, lines[i]);
+    const point = parseCSVRow(columns, records[i], skip);
+    if (point) {
+      setPointSource(point, file, i - dataStart, lines[i], columns.idCol >= 0 ? records[i][columns.idCol] : null);
+      points.push(point);
     }
   }
 
@@ -238,320 +2201,346 @@ function parseKML(content: string): ParsedMapPoint[] {
 }
 
 // ============================================================================
-// GPX PARSING
+// XLSX PARSING
 // ============================================================================
 
 /**
- * Extract metadata from GPX waypoint
+ * Convert one worksheet into points, treating it as a CSV table (shared
+ * with the streaming parser). Warnings and sources carry the sheet name;
+ * their line is the spreadsheet row number.
  */
-function extractGPXMetadata(wpt: Element): Record<string, unknown> | null {
-  const metadata: Record<string, unknown> = {};
-
-  const eleEl = wpt.getElementsByTagName('ele')[0];
-  if (eleEl?.textContent) {
-    metadata.elevation = parseFloat(eleEl.textContent);
-  }
+export function parseXLSXSheet(
+  sheet: XLSXSheet,
+  file: SourceFile,
+  options: CSVOptions = {},
+  onWarning?: WarningHandler
+): ParsedMapPoint[] {
+  const points: ParsedMapPoint[] = [];
+  const sheetFile: SourceFile = { ...file, sheet: sheet.name };
+  const sheetWarning: WarningHandler | undefined = onWarning && (warning => onWarning({ ...warning, sheet: sheet.name }));
 
-  const timeEl = wpt.getElementsByTagName('time')[0];
-  if (timeEl?.textContent) {
-    metadata.time = timeEl.textContent.trim();
-  }
+  const dataStart = options.hasHeader === false ? 0 : 1;
+  if (sheet.rows.length <= dataStart) return points;
 
-  const linkEl = wpt.getElementsByTagName('link')[0];
-  if (linkEl) {
-    const href = linkEl.getAttribute('href');
-    if (href) metadata.link = href;
+  const columns = findCSVColumns(getCSVHeaders(sheet.rows[0].values, options), options);
+  if (!columns) {
+    sheetWarning?.({ reason: CSV_NO_COORDINATES, line: sheet.rows[0].number });
+    return points;
   }
 
-  const symEl = wpt.getElementsByTagName('sym')[0];
-  if (symEl?.textContent) {
-    metadata.symbol = symEl.textContent.trim();
+  for (let i = dataStart; i < sheet.rows.length; i++) {
+    const { number, values } = sheet.rows[i];
+    const point = parseCSVRow(columns, values, createSkipReporter(sheetWarning, i - dataStart, number));
+    if (point) {
+      setPointSource(point, sheetFile, i - dataStart, number, columns.idCol >= 0 ? values[columns.idCol] : null);
+      points.push(point);
+    }
   }
 
-  return Object.keys(metadata).length > 0 ? metadata : null;
+  return points;
 }
 
 /**
- * Parse GPX content
+ * Parse an Excel workbook: every sheet, or the one selected in options
  */
-function parseGPX(content: string): ParsedMapPoint[] {
+async function parseXLSX(
+  filePath: string,
+  file: SourceFile,
+  csvOptions: CSVOptions = {},
+  xlsxOptions: XLSXOptions = {},
+  onWarning?: WarningHandler
+): Promise<ParsedMapPoint[]> {
   const points: ParsedMapPoint[] = [];
-  const parser = new DOMParser();
-  const doc = parser.parseFromString(content, 'text/xml');
-
-  // Waypoints
-  const waypoints = doc.getElementsByTagName('wpt');
-  for (let i = 0; i < waypoints.length; i++) {
-    const wpt = waypoints[i];
-    const lat = parseFloat(wpt.getAttribute('lat') || '');
-    const lng = parseFloat(wpt.getAttribute('lon') || '');
-
-    if (isValidCoordinate(lat, lng)) {
-      const nameEl = wpt.getElementsByTagName('name')[0];
-      const descEl = wpt.getElementsByTagName('desc')[0];
-      const typeEl = wpt.getElementsByTagName('type')[0];
-
-      points.push({
-        name: nameEl?.textContent?.trim() || null,
-        description: descEl?.textContent?.trim() || null,
-        lat,
-        lng,
-        state: getUSStateFromCoords(lat, lng),
-        category: typeEl?.textContent?.trim() || 'waypoint',
-        rawMetadata: extractGPXMetadata(wpt)
-      });
-    }
-  }
-
-  // Tracks (use first point as representative)
-  const tracks = doc.getElementsByTagName('trk');
-  for (let i = 0; i < tracks.length; i++) {
-    const trk = tracks[i];
-    const trkNameEl = trk.getElementsByTagName('name')[0];
-    const trkName = trkNameEl?.textContent?.trim() || `Track ${i + 1}`;
-
-    const segments = trk.getElementsByTagName('trkseg');
-    for (let j = 0; j < segments.length; j++) {
-      const trkpts = segments[j].getElementsByTagName('trkpt');
-      if (trkpts.length > 0) {
-        const firstPt = trkpts[0];
-        const lat = parseFloat(firstPt.getAttribute('lat') || '');
-        const lng = parseFloat(firstPt.getAttribute('lon') || '');
-
-        if (isValidCoordinate(lat, lng)) {
-          points.push({
-            name: trkName,
-            description: `Track with ${trkpts.length} points`,
-            lat,
-            lng,
-            state: getUSStateFromCoords(lat, lng),
-            category: 'track',
-            rawMetadata: { pointCount: trkpts.length }
-          });
-        }
-      }
-    }
-  }
-
-  // Routes
-  const routes = doc.getElementsByTagName('rte');
-  for (let i = 0; i < routes.length; i++) {
-    const rte = routes[i];
-    const rteNameEl = rte.getElementsByTagName('name')[0];
-    const rteName = rteNameEl?.textContent?.trim() || `Route ${i + 1}`;
-
-    const rtepts = rte.getElementsByTagName('rtept');
-    if (rtepts.length > 0) {
-      const firstPt = rtepts[0];
-      const lat = parseFloat(firstPt.getAttribute('lat') || '');
-      const lng = parseFloat(firstPt.getAttribute('lon') || '');
-
-      if (isValidCoordinate(lat, lng)) {
-        points.push({
-          name: rteName,
-          description: `Route with ${rtepts.length} points`,
-          lat,
-          lng,
-          state: getUSStateFromCoords(lat, lng),
-          category: 'route',
-          rawMetadata: { pointCount: rtepts.length }
-        });
-      }
-    }
+  for (const sheet of await readXLSX(filePath, xlsxOptions.sheet)) {
+    points.push(...parseXLSXSheet(sheet, file, csvOptions, onWarning));
   }
-
   return points;
 }
 
 // ============================================================================
-// GEOJSON PARSING
+// PHOTO PARSING
 // ============================================================================
 
 /**
- * Parse GeoJSON content
+ * Capture time of a photo: DateTimeOriginal with its OffsetTimeOriginal,
+ * else the GPS fix time (UTC), else DateTimeOriginal read as UTC
  */
-function parseGeoJSON(content: string): ParsedMapPoint[] {
-  const points: ParsedMapPoint[] = [];
+function getPhotoTime(tags: Record<string, string | number>, gpsTime: string | undefined): string | null {
+  const local = String(tags.DateTimeOriginal ?? '').replace(/^(\d{4}):(\d{2}):(\d{2}) /, '$1-$2-$3T');
+  const offset = typeof tags.OffsetTimeOriginal === 'string' ? tags.OffsetTimeOriginal : '';
+  if (local && /^[+-]\d{2}:\d{2}$/.test(offset)) return parseTimestamp(local + offset);
+  return gpsTime ?? parseTimestamp(local);
+}
 
-  let data;
-  try {
-    data = JSON.parse(content);
-  } catch {
-    return points;
+/**
+ * Convert a geotagged JPEG/HEIC photo into a point named after the file
+ * (shared with the streaming parser). Camera tags go to rawMetadata.
+ */
+export function parsePhoto(bytes: Uint8Array, file: SourceFile, onWarning?: WarningHandler): ParsedMapPoint[] {
+  const skip = createSkipReporter(onWarning, 0);
+  const exif = readExif(bytes);
+  if (!exif?.gps) {
+    skip(exif ? 'no GPS position in EXIF' : 'no EXIF data', file.file);
+    return [];
   }
 
-  const features = data.type === 'FeatureCollection' ? data.features : [data];
+  const { latitude: lat, longitude: lng, altitude, direction, time: gpsTime } = exif.gps;
+  if (!isValidCoordinate(lat, lng)) {
+    skip('invalid coordinates', file.file);
+    return [];
+  }
 
-  for (const feature of features) {
-    if (!feature.geometry) continue;
+  const metadata: Record<string, unknown> = { ...exif.tags };
+  if (altitude !== undefined) metadata.elevation = altitude;
+  if (direction !== undefined) metadata.direction = direction;
+
+  const point: ParsedMapPoint = {
+    name: file.file,
+    description: typeof exif.tags.ImageDescription === 'string' ? exif.tags.ImageDescription : null,
+    lat,
+    lng,
+    state: getUSStateFromCoords(lat, lng),
+    category: 'photo',
+    rawMetadata: metadata,
+  };
+  const time = getPhotoTime(exif.tags, gpsTime);
+  if (time) point.time = time;
+  setPointSource(point, file, 0);
+  return [point];
+}
 
-    const props = feature.properties || {};
-    const name = props.name || props.title || props.Name || props.Title || null;
-    const description = props.description || props.desc || props.Description || null;
+// ============================================================================
+// OSM XML PARSING
+// ============================================================================
 
-    const { type, coordinates } = feature.geometry;
+/** OSM tag predicate built by compileOSMFilter */
+export type OSMTagFilter = (tags: Record<string, string>) => boolean;
 
-    let lat: number | null = null;
-    let lng: number | null = null;
+/** Node coordinates by id, [lng, lat], used to resolve way geometry */
+export type OSMNodeIndex = Map<string, Position>;
 
-    switch (type) {
-      case 'Point':
-        lng = coordinates[0];
-        lat = coordinates[1];
-        break;
+/** Tags that don't make an otherwise bare node a feature */
+const OSM_UNINTERESTING_TAGS = new Set(['created_by', 'source']);
 
-      case 'MultiPoint':
-        if (coordinates.length > 0) {
-          lng = coordinates[0][0];
-          lat = coordinates[0][1];
-        }
-        break;
+/** Keys used for the category, in priority order (lifecycle prefixes come first) */
+const OSM_CATEGORY_KEYS = [
+  'historic', 'railway', 'building', 'man_made', 'amenity', 'landuse', 'military',
+  'tourism', 'leisure', 'industrial', 'shop', 'office', 'highway', 'waterway', 'natural',
+];
+const OSM_LIFECYCLE_PREFIXES = /^(abandoned|disused|ruins|demolished|razed|was):/;
 
-      case 'LineString':
-        if (coordinates.length > 0) {
-          lng = coordinates[0][0];
-          lat = coordinates[0][1];
-        }
-        break;
+/** Tags that make a closed way a line rather than an area */
+const OSM_LINEAR_KEYS = ['highway', 'railway', 'barrier', 'waterway'];
 
-      case 'Polygon':
-        // Calculate centroid
-        if (coordinates.length > 0 && coordinates[0].length > 0) {
-          let sumLat = 0, sumLng = 0;
-          const ring = coordinates[0];
-          for (const coord of ring) {
-            sumLng += coord[0];
-            sumLat += coord[1];
-          }
-          lng = sumLng / ring.length;
-          lat = sumLat / ring.length;
+/**
+ * Build a predicate from a tag filter expression.
+ *
+ * Conditions: `key` (present), `!key` (absent), `key=a,b` (value in list),
+ * `key!=a` (absent or different), `key~regex` (case-insensitive match).
+ * Keys may use `*` wildcards (`abandoned:*`). Join conditions with `&`
+ * (all must hold) and alternatives with `|` (any may hold).
+ *
+ * @throws For empty conditions or invalid regular expressions
+ */
+export function compileOSMFilter(expression: string): OSMTagFilter {
+  const invalid = () => new Error(`Invalid OSM filter: "${expression}"`);
+
+  const alternatives = expression.split('|').map(alternative =>
+    alternative.split('&').map(text => {
+      const condition = text.trim();
+      const match = condition.match(/^(!?)([^!=~]+?)\s*(?:(!=|=|~)\s*(.*))?$/);
+      if (!match) throw invalid();
+
+      const [, negate, rawKey, op, rawValue] = match;
+      const key = rawKey.trim();
+      if (!key || (op && !rawValue?.trim())) throw invalid();
+
+      const keyPattern = key.includes('*')
+        ? new RegExp(`^${key.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`)
+        : null;
+      const values = op && op !== '~' ? rawValue.split(',').map(v => v.trim()) : [];
+      let regex: RegExp | null = null;
+      if (op === '~') {
+        try {
+          regex = new RegExp(rawValue.trim(), 'i');
+        } catch {
+          throw invalid();
         }
-        break;
-    }
+      }
 
-    if (lat !== null && lng !== null && isValidCoordinate(lat, lng)) {
-      points.push({
-        name,
-        description,
-        lat,
-        lng,
-        state: props.state || props.State || getUSStateFromCoords(lat, lng),
-        category: props.category || props.type || type,
-        rawMetadata: Object.keys(props).length > 0 ? props : null
-      });
-    }
-  }
+      return (tags: Record<string, string>): boolean => {
+        const tagValues = keyPattern
+          ? Object.keys(tags).filter(k => keyPattern.test(k)).map(k => tags[k])
+          : (key in tags ? [tags[key]] : []);
+
+        let result: boolean;
+        if (!op) {
+          result = tagValues.length > 0;
+        } else if (op === '~') {
+          result = tagValues.some(v => regex!.test(v));
+        } else {
+          const matches = tagValues.some(v => values.includes('*') || values.includes(v));
+          result = op === '=' ? matches : !matches;
+        }
+        return negate ? !result : result;
+      };
+    })
+  );
 
-  return points;
+  return tags => alternatives.some(conditions => conditions.every(condition => condition(tags)));
 }
 
-// ============================================================================
-// CSV PARSING
-// ============================================================================
-
 /**
- * Detect CSV delimiter
+ * Read the <tag k= v=> children of an OSM element
  */
-function detectDelimiter(firstLine: string): string {
-  const delimiters = [',', '\t', ';', '|'];
-  let maxCount = 0;
-  let detected = ',';
-
-  for (const delim of delimiters) {
-    const count = (firstLine.match(new RegExp(delim.replace(/[|\\{}()[\]^$+*?.]/g, '\\$&'), 'g')) || []).length;
-    if (count > maxCount) {
-      maxCount = count;
-      detected = delim;
-    }
+function readOSMTags(el: Element): Record<string, string> {
+  const tags: Record<string, string> = {};
+  const tagEls = el.getElementsByTagName('tag');
+  for (let i = 0; i < tagEls.length; i++) {
+    const key = tagEls[i].getAttribute('k');
+    if (key) tags[key] = tagEls[i].getAttribute('v') || '';
   }
-
-  return detected;
+  return tags;
 }
 
 /**
- * Find column indices for lat/lng
+ * Pick a category like "historic=ruins" or "abandoned:railway=rail"
  */
-function findCoordinateColumns(headers: string[]): { latCol: number; lngCol: number } | null {
-  const latPatterns = ['lat', 'latitude', 'y', 'lat_dd'];
-  const lngPatterns = ['lng', 'lon', 'longitude', 'long', 'x', 'lon_dd', 'lng_dd'];
+function getOSMCategory(tags: Record<string, string>, fallback: string): string {
+  const lifecycleKey = Object.keys(tags).find(k => OSM_LIFECYCLE_PREFIXES.test(k));
+  if (lifecycleKey) return `${lifecycleKey}=${tags[lifecycleKey]}`;
 
-  let latCol = -1;
-  let lngCol = -1;
-
-  const lowerHeaders = headers.map(h => h.toLowerCase().trim());
+  const key = OSM_CATEGORY_KEYS.find(k => k in tags);
+  return key ? `${key}=${tags[key]}` : fallback;
+}
 
-  for (let i = 0; i < lowerHeaders.length; i++) {
-    const header = lowerHeaders[i];
+/**
+ * Build a point from OSM tags at a representative position
+ */
+function buildOSMPoint(
+  type: 'node' | 'way',
+  id: string,
+  tags: Record<string, string>,
+  lat: number,
+  lng: number
+): ParsedMapPoint {
+  return {
+    name: tags.name || tags.old_name || null,
+    description: tags.description || tags.note || null,
+    lat,
+    lng,
+    state: tags['addr:state'] || getUSStateFromCoords(lat, lng),
+    category: getOSMCategory(tags, type),
+    rawMetadata: { '@id': `${type}/${id}`, ...tags }
+  };
+}
 
-    if (latPatterns.includes(header)) {
-      latCol = i;
-    }
-    if (lngPatterns.includes(header)) {
-      lngCol = i;
-    }
-  }
+/**
+ * Whether an element has tags other than editor bookkeeping (created_by, source)
+ */
+function hasInterestingOSMTags(tags: Record<string, string>): boolean {
+  return Object.keys(tags).some(k => !OSM_UNINTERESTING_TAGS.has(k));
+}
 
-  if (latCol === -1 || lngCol === -1) {
+/**
+ * Record an OSM node's position and extract a point if it is tagged
+ * (shared with the streaming parser)
+ */
+export function parseOSMNode(
+  node: Element,
+  nodeIndex: OSMNodeIndex,
+  filter?: OSMTagFilter,
+  skip?: SkipReporter
+): ParsedMapPoint | null {
+  const id = node.getAttribute('id') || '';
+  const lat = parseFloat(node.getAttribute('lat') || '');
+  const lng = parseFloat(node.getAttribute('lon') || '');
+  if (!isValidCoordinate(lat, lng)) {
+    skip?.('invalid coordinates', `node/${id}`);
     return null;
   }
+  nodeIndex.set(id, [lng, lat]);
 
-  return { latCol, lngCol };
+  const tags = readOSMTags(node);
+  if (!hasInterestingOSMTags(tags)) return null;
+  if (filter && !filter(tags)) return null;
+
+  return buildOSMPoint('node', id, tags, lat, lng);
 }
 
 /**
- * Parse CSV content
+ * Extract a point at the centroid of an OSM way; its nodes must already be
+ * in the index (shared with the streaming parser)
  */
-function parseCSV(content: string): ParsedMapPoint[] {
-  const points: ParsedMapPoint[] = [];
-  const lines = content.split(/\r?\n/).filter(line => line.trim());
-
-  if (lines.length < 2) return points;
-
-  const delimiter = detectDelimiter(lines[0]);
-  const headers = lines[0].split(delimiter).map(h => h.trim().replace(/^["']|["']$/g, ''));
-
-  const coords = findCoordinateColumns(headers);
-  if (!coords) return points;
-
-  const { latCol, lngCol } = coords;
-
-  // Find name column
-  const namePatterns = ['name', 'title', 'label', 'placename', 'place'];
-  const lowerHeaders = headers.map(h => h.toLowerCase().trim());
-  const nameCol = lowerHeaders.findIndex(h => namePatterns.includes(h));
+export function parseOSMWay(
+  way: Element,
+  nodeIndex: OSMNodeIndex,
+  filter?: OSMTagFilter,
+  skip?: SkipReporter
+): ParsedMapPoint | null {
+  const tags = readOSMTags(way);
+  // Untagged ways are members of multipolygon and route relations
+  if (!hasInterestingOSMTags(tags)) return null;
+  if (filter && !filter(tags)) return null;
+
+  const refs: string[] = [];
+  const nds = way.getElementsByTagName('nd');
+  for (let i = 0; i < nds.length; i++) {
+    refs.push(nds[i].getAttribute('ref') || '');
+  }
 
-  // Find description column
-  const descPatterns = ['description', 'desc', 'notes', 'comment', 'comments'];
-  const descCol = lowerHeaders.findIndex(h => descPatterns.includes(h));
+  // Extracts clipped at a bounding box may miss some nodes
+  const coords = refs.map(ref => nodeIndex.get(ref)).filter((c): c is Position => c !== undefined);
+  if (coords.length === 0) {
+    skip?.('way has no resolvable nodes', tags.name || `way/${way.getAttribute('id') || ''}`);
+    return null;
+  }
 
-  // Find state column
-  const statePatterns = ['state', 'region', 'province'];
-  const stateCol = lowerHeaders.findIndex(h => statePatterns.includes(h));
+  const closed = refs.length >= 4 && refs[0] === refs[refs.length - 1];
+  const isArea = closed && tags.area !== 'no'
+    && (tags.area === 'yes' || !OSM_LINEAR_KEYS.some(k => k in tags));
 
-  for (let i = 1; i < lines.length; i++) {
-    const values = lines[i].split(delimiter).map(v => v.trim().replace(/^["']|["']$/g, ''));
+  const vertices = closed ? coords.slice(0, -1) : coords;
+  const [lat, lng] = isArea && coords.length >= 4
+    ? calculateRepresentativePoint([[coords]])
+    : calculateCentroid(vertices.map(c => [c[1], c[0]]));
 
-    const lat = parseFloat(values[latCol]);
-    const lng = parseFloat(values[lngCol]);
+  const point = buildOSMPoint('way', way.getAttribute('id') || '', tags, lat, lng);
+  if (coords.length > 1) {
+    point.geometry = isArea
+      ? { type: 'Polygon', coordinates: [coords] }
+      : { type: 'LineString', coordinates: coords };
+  }
+  return point;
+}
 
-    if (isValidCoordinate(lat, lng)) {
-      const metadata: Record<string, unknown> = {};
-      for (let j = 0; j < headers.length; j++) {
-        if (j !== latCol && j !== lngCol && values[j]) {
-          metadata[headers[j]] = values[j];
-        }
-      }
+/**
+ * Parse OpenStreetMap XML: tagged nodes become points, ways become
+ * centroids. Relations are not resolved.
+ */
+function parseOSM(content: string, file: SourceFile, options: OSMOptions = {}, onWarning?: WarningHandler): ParsedMapPoint[] {
+  const points: ParsedMapPoint[] = [];
+  const filter = options.filter ? compileOSMFilter(options.filter) : undefined;
+  const doc = new DOMParser().parseFromString(content, 'text/xml');
+  const nodeIndex: OSMNodeIndex = new Map();
+
+  const nodes = doc.getElementsByTagName('node');
+  for (let i = 0; i < nodes.length; i++) {
+    const line = getElementLine(nodes[i]);
+    const point = parseOSMNode(nodes[i], nodeIndex, filter, createSkipReporter(onWarning, i, line));
+    if (point) {
+      setPointSource(point, file, i, line, point.rawMetadata?.['@id'] as string);
+      points.push(point);
+    }
+  }
 
-      const csvState = stateCol >= 0 ? values[stateCol] || null : null;
-      points.push({
-        name: nameCol >= 0 ? values[nameCol] || null : null,
-        description: descCol >= 0 ? values[descCol] || null : null,
-        lat,
-        lng,
-        state: csvState || getUSStateFromCoords(lat, lng),
-        category: 'csv',
-        rawMetadata: Object.keys(metadata).length > 0 ? metadata : null
-      });
+  const ways = doc.getElementsByTagName('way');
+  for (let i = 0; i < ways.length; i++) {
+    const line = getElementLine(ways[i]);
+    const point = parseOSMWay(ways[i], nodeIndex, filter, createSkipReporter(onWarning, i, line));
+    if (point) {
+      setPointSource(point, file, i, line, point.rawMetadata?.['@id'] as string);
+      points.push(point);
     }
   }
 
@@ -565,7 +2554,12 @@ function parseCSV(content: string): ParsedMapPoint[] {
 /**
  * Parse KMZ file (ZIP containing KML)
  */
-async function parseKMZ(filePath: string): Promise<ParsedMapPoint[]> {
+async function parseKMZ(
+  filePath: string,
+  file: SourceFile,
+  encoding?: string,
+  onWarning?: WarningHandler
+): Promise<ParsedMapPoint[]> {
   const directory = await unzipper.Open.file(filePath);
   const kmlFile = directory.files.find(f => f.path.endsWith('.kml'));
 
@@ -574,7 +2568,120 @@ async function parseKMZ(filePath: string): Promise<ParsedMapPoint[]> {
   }
 
   const content = await kmlFile.buffer();
-  return parseKML(content.toString('utf-8'));
+  return parseKML(decodeText(content, encoding), file, onWarning);
+}
+
+// ============================================================================
+// SHAPEFILE PARSING
+// ============================================================================
+
+/** DBF attribute names used for point names/descriptions (case-insensitive) */
+const SHAPEFILE_NAME_FIELDS = ['name', 'title', 'label', 'site_name', 'sitename', 'resname'];
+const SHAPEFILE_DESC_FIELDS = ['description', 'desc', 'descr', 'notes', 'comments'];
+const SHAPEFILE_CATEGORY_FIELDS = ['category', 'type', 'class'];
+
+/**
+ * Find the first non-empty attribute among candidate field names
+ */
+function findAttribute(attributes: Record<string, unknown>, fields: string[]): string | null {
+  const byLowerName = new Map(Object.entries(attributes).map(([key, value]) => [key.toLowerCase(), value]));
+  for (const field of fields) {
+    const value = byLowerName.get(field);
+    if (value !== undefined && value !== null && value !== '') return String(value);
+  }
+  return null;
+}
+
+/**
+ * Extract a point from a shapefile record (shared with the streaming parser)
+ */
+export function parseShapefileRecord(record: ShapefileRecord, skip?: SkipReporter): ParsedMapPoint | null {
+  const feature = { type: 'Feature', geometry: record.geometry, properties: record.attributes };
+  const point = parseGeoJSONFeature(feature, skip && ((reason, name) =>
+    skip(reason, name || findAttribute(record.attributes, SHAPEFILE_NAME_FIELDS))));
+  if (!point) return null;
+
+  point.name = point.name || findAttribute(record.attributes, SHAPEFILE_NAME_FIELDS);
+  point.description = point.description || findAttribute(record.attributes, SHAPEFILE_DESC_FIELDS);
+  point.category = findAttribute(record.attributes, SHAPEFILE_CATEGORY_FIELDS) ?? point.category;
+  return point;
+}
+
+/**
+ * Id attribute of a shapefile record (FID, OBJECTID...)
+ */
+export function getShapefileRecordId(record: ShapefileRecord): string | null {
+  return findAttribute(record.attributes, ID_HEADERS);
+}
+
+/**
+ * Load shapefile layers: a .shp with its sibling .dbf/.prj/.cpg files,
+ * or every .shp inside a ZIP bundle
+ */
+export async function loadShapefileLayers(filePath: string): Promise<ShapefileLayer[]> {
+  if (!isZipHeader(await readFileHead(filePath, 4))) {
+    const dir = path.dirname(filePath);
+    const stem = path.basename(filePath, path.extname(filePath)).toLowerCase();
+    const entries = await fsPromises.readdir(dir);
+    const sibling = (ext: string) => entries.find(entry => entry.toLowerCase() === stem + ext);
+
+    const dbf = sibling('.dbf');
+    const prj = sibling('.prj');
+    const cpg = sibling('.cpg');
+    return [{
+      shp: await fsPromises.readFile(filePath),
+      dbf: dbf ? await fsPromises.readFile(path.join(dir, dbf)) : undefined,
+      prj: prj ? await fsPromises.readFile(path.join(dir, prj), 'utf-8') : undefined,
+      cpg: cpg ? await fsPromises.readFile(path.join(dir, cpg), 'utf-8') : undefined,
+    }];
+  }
+
+  const directory = await unzipper.Open.file(filePath);
+  const files = directory.files.filter(f => f.type === 'File' && !f.path.startsWith('__MACOSX/'));
+  const shpFiles = files.filter(f => f.path.toLowerCase().endsWith('.shp'));
+
+  if (shpFiles.length === 0) {
+    throw new Error('No .shp file found in ZIP archive');
+  }
+
+  const layers: ShapefileLayer[] = [];
+  for (const shpFile of shpFiles) {
+    const stem = shpFile.path.slice(0, -4).toLowerCase();
+    const sibling = (ext: string) => files.find(f => f.path.toLowerCase() === stem + ext);
+
+    const dbf = sibling('.dbf');
+    const prj = sibling('.prj');
+    const cpg = sibling('.cpg');
+    layers.push({
+      shp: await shpFile.buffer(),
+      dbf: dbf ? await dbf.buffer() : undefined,
+      prj: prj ? (await prj.buffer()).toString('utf-8') : undefined,
+      cpg: cpg ? (await cpg.buffer()).toString('utf-8') : undefined,
+    });
+  }
+
+  return layers;
+}
+
+/**
+ * Parse a shapefile (.shp or zipped bundle)
+ */
+async function parseShapefile(filePath: string, file: SourceFile, onWarning?: WarningHandler): Promise<ParsedMapPoint[]> {
+  const points: ParsedMapPoint[] = [];
+
+  let index = 0;
+  for (const layer of await loadShapefileLayers(filePath)) {
+    for (const record of readShapefile(layer)) {
+      const point = parseShapefileRecord(record, createSkipReporter(onWarning, index));
+      if (point) {
+        setPointSource(point, file, index, undefined, getShapefileRecordId(record));
+        points.push(point);
+      }
+      index++;
+    }
+  }
+
+  return points;
 }
 
 // ============================================================================
@@ -584,9 +2691,14 @@ async function parseKMZ(filePath: string): Promise<ParsedMapPoint[]> {
 /**
  * Parse a map file and extract points
  */
-export async function parseMapFile(filePath: string): Promise<ParsedMapResult> {
-  const fileType = getFileType(filePath);
+export async function parseMapFile(filePath: string, options: ParseOptions = {}): Promise<ParsedMapResult> {
+  const fileType = options.inputFormat ?? await detectFileType(filePath);
   const fileName = path.basename(filePath);
+  const warnings: ParseWarning[] = [];
+  const onWarning: WarningHandler = warning => {
+    warnings.push(warning);
+    options.onWarning?.(warning);
+  };
 
   if (fileType === 'unknown') {
     return {
@@ -594,30 +2706,44 @@ export async function parseMapFile(filePath: string): Promise<ParsedMapResult> {
       points: [],
       fileType,
       fileName,
-      error: `Unsupported file type: ${path.extname(filePath)}`
+      warnings,
+      error: `Unsupported file type: ${path.extname(filePath) || fileName}`
     };
   }
 
   try {
     let points: ParsedMapPoint[];
+    const file: SourceFile = { file: fileName, format: fileType };
 
     if (fileType === 'kmz') {
-      points = await parseKMZ(filePath);
+      points = await parseKMZ(filePath, file, options.encoding, onWarning);
+    } else if (fileType === 'shapefile') {
+      points = await parseShapefile(filePath, file, onWarning);
+    } else if (fileType === 'xlsx') {
+      points = await parseXLSX(filePath, file, options.csv, options.xlsx, onWarning);
+    } else if (fileType === 'photo') {
+      points = parsePhoto(await fsPromises.readFile(filePath), file, onWarning);
     } else {
-      const content = await fsPromises.readFile(filePath, 'utf-8');
+      const content = decodeText(await fsPromises.readFile(filePath), options.encoding);
 
       switch (fileType) {
         case 'kml':
-          points = parseKML(content);
+          points = parseKML(content, file, onWarning);
           break;
         case 'gpx':
-          points = parseGPX(content);
+          points = parseGPX(content, file, onWarning);
           break;
         case 'geojson':
-          points = parseGeoJSON(content);
+          points = parseGeoJSON(content, file, onWarning);
+          break;
+        case 'geojsonseq':
+          points = parseGeoJSONSeq(content, file, onWarning);
           break;
         case 'csv':
-          points = parseCSV(content);
+          points = parseCSV(content, file, options.csv, onWarning);
+          break;
+        case 'osm':
+          points = parseOSM(content, file, options.osm, onWarning);
           break;
         default:
           points = [];
@@ -628,7 +2754,8 @@ export async function parseMapFile(filePath: string): Promise<ParsedMapResult> {
       success: true,
       points,
       fileType,
-      fileName
+      fileName,
+      warnings
     };
   } catch (error) {
     return {
@@ -636,6 +2763,7 @@ export async function parseMapFile(filePath: string): Promise<ParsedMapResult> {
       points: [],
       fileType,
       fileName,
+      warnings,
       error: error instanceof Error ? error.message : String(error)
     };
   }
@@ -644,8 +2772,8 @@ export async function parseMapFile(filePath: string): Promise<ParsedMapResult> {
 /**
  * Parse multiple map files
  */
-export async function parseMapFiles(filePaths: string[]): Promise<ParsedMapResult[]> {
-  const results = await Promise.all(filePaths.map(parseMapFile));
+export async function parseMapFiles(filePaths: string[], options: ParseOptions = {}): Promise<ParsedMapResult[]> {
+  const results = await Promise.all(filePaths.map(f => parseMapFile(f, options)));
   return results;
 }
 
@@ -657,13 +2785,16 @@ export function mergeParseResults(results: ParsedMapResult[]): {
   successCount: number;
   errorCount: number;
   errors: Array<{ file: string; error: string }>;
+  warnings: Array<ParseWarning & { file: string }>;
 } {
   const allPoints: ParsedMapPoint[] = [];
   let successCount = 0;
   let errorCount = 0;
   const errors: Array<{ file: string; error: string }> = [];
+  const warnings: Array<ParseWarning & { file: string }> = [];
 
   for (const result of results) {
+    warnings.push(...result.warnings.map(warning => ({ file: result.fileName, ...warning })));
     if (result.success) {
       allPoints.push(...result.points);
       successCount++;
@@ -677,6 +2808,7 @@ export function mergeParseResults(results: ParsedMapResult[]): {
     points: allPoints,
     successCount,
     errorCount,
-    errors
+    errors,
+    warnings
   };
 }
@@ -0,0 +1,519 @@
+/**
+ * Shapefile Reader Module
+ *
+ * Reads ESRI Shapefile layers: geometry from the .shp, attributes from the
+ * .dbf and the coordinate system from the .prj. Projected layers are
+ * converted back to latitude/longitude with the projections in geo-utils.
+ */
+
+import {
+  ringContains,
+  unproject,
+  WGS84_ELLIPSOID,
+  type Ellipsoid,
+  type Projection,
+} from './geo-utils.js';
+import { createTextDecoder } from './encoding.js';
+import type { MapGeometry, Position } from './parser.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * The component files of one shapefile layer
+ */
+export interface ShapefileLayer {
+  shp: Buffer;
+  dbf?: Buffer;
+  /** Contents of the .prj file (WKT) */
+  prj?: string;
+  /** Contents of the .cpg file (DBF code page) */
+  cpg?: string;
+}
+
+/**
+ * One feature read from a shapefile
+ */
+export interface ShapefileRecord {
+  /** Geometry in [lng, lat, alt?] order, or null for null shapes */
+  geometry: MapGeometry | null;
+  /** DBF attributes (empty values omitted) */
+  attributes: Record<string, unknown>;
+}
+
+// ============================================================================
+// PRJ (WKT COORDINATE SYSTEM) PARSING
+// ============================================================================
+
+interface WKTNode {
+  keyword: string;
+  args: Array<string | number | WKTNode>;
+}
+
+/**
+ * Parse WKT1 coordinate system text into a node tree
+ */
+function parseWKTNode(text: string): WKTNode {
+  let pos = 0;
+
+  const skipSpace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+
+  const parseNode = (): WKTNode => {
+    skipSpace();
+    const keyword = text.slice(pos).match(/^[A-Za-z_][A-Za-z0-9_]*/)?.[0];
+    if (!keyword) throw new Error(`Invalid .prj: expected keyword at offset ${pos}`);
+    pos += keyword.length;
+    skipSpace();
+
+    const args: WKTNode['args'] = [];
+    if (text[pos] !== '[' && text[pos] !== '(') return { keyword, args };
+    const close = text[pos] === '[' ? ']' : ')';
+    pos++;
+
+    while (pos < text.length) {
+      skipSpace();
+      const ch = text[pos];
+      if (ch === close) {
+        pos++;
+        return { keyword, args };
+      }
+      if (ch === ',') {
+        pos++;
+      } else if (ch === '"') {
+        const end = text.indexOf('"', pos + 1);
+        if (end === -1) break;
+        args.push(text.slice(pos + 1, end));
+        pos = end + 1;
+      } else if (/[-+.\d]/.test(ch)) {
+        const number = text.slice(pos).match(/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/)?.[0];
+        if (!number) break;
+        args.push(parseFloat(number));
+        pos += number.length;
+      } else {
+        args.push(parseNode());
+      }
+    }
+
+    throw new Error('Invalid .prj: unbalanced brackets');
+  };
+
+  return parseNode();
+}
+
+function childNodes(node: WKTNode, keyword: string): WKTNode[] {
+  return node.args.filter((arg): arg is WKTNode =>
+    typeof arg === 'object' && arg.keyword.toUpperCase() === keyword
+  );
+}
+
+function findNode(node: WKTNode, keyword: string): WKTNode | null {
+  for (const arg of node.args) {
+    if (typeof arg !== 'object') continue;
+    if (arg.keyword.toUpperCase() === keyword) return arg;
+    const nested = findNode(arg, keyword);
+    if (nested) return nested;
+  }
+  return null;
+}
+
+const PROJECTION_METHODS: Record<string, Projection['method']> = {
+  transverse_mercator: 'transverse_mercator',
+  gauss_kruger: 'transverse_mercator',
+  lambert_conformal_conic: 'lambert_conformal_conic',
+  lambert_conformal_conic_1sp: 'lambert_conformal_conic',
+  lambert_conformal_conic_2sp: 'lambert_conformal_conic',
+  albers: 'albers',
+  albers_conic_equal_area: 'albers',
+  mercator: 'mercator',
+  mercator_1sp: 'mercator',
+  mercator_2sp: 'mercator',
+  mercator_auxiliary_sphere: 'mercator',
+  popular_visualisation_pseudo_mercator: 'mercator',
+};
+
+/**
+ * Parse a .prj file.
+ *
+ * @param text - WKT1 coordinate system (as written by ArcGIS/QGIS)
+ * @returns Projection parameters, or null for geographic (lat/lng) systems
+ * @throws For projections that cannot be converted
+ */
+export function parsePrj(text: string): Projection | null {
+  const root = parseWKTNode(text.trim());
+  const keyword = root.keyword.toUpperCase();
+  if (keyword === 'GEOGCS') return null;
+  if (keyword !== 'PROJCS') {
+    throw new Error(`Unsupported .prj coordinate system: ${root.keyword}`);
+  }
+
+  const projectionNode = childNodes(root, 'PROJECTION')[0];
+  const projectionName = String(projectionNode?.args[0] ?? '');
+  const method = PROJECTION_METHODS[projectionName.toLowerCase().replace(/[\s-]+/g, '_')];
+  if (!method) {
+    throw new Error(`Unsupported shapefile projection: ${projectionName || 'unknown'}`);
+  }
+
+  const parameters: Record<string, number> = {};
+  for (const param of childNodes(root, 'PARAMETER')) {
+    parameters[String(param.args[0]).toLowerCase()] = Number(param.args[1]);
+  }
+  const param = (names: string[], fallback: number): number => {
+    const name = names.find(n => parameters[n] !== undefined);
+    return name ? parameters[name] : fallback;
+  };
+
+  const spheroid = findNode(root, 'SPHEROID') ?? findNode(root, 'ELLIPSOID');
+  let ellipsoid: Ellipsoid = WGS84_ELLIPSOID;
+  if (spheroid) {
+    const inverseFlattening = Number(spheroid.args[2]);
+    ellipsoid = { a: Number(spheroid.args[1]), f: inverseFlattening ? 1 / inverseFlattening : 0 };
+  }
+  // Web Mercator projects WGS84 coordinates onto a sphere
+  const rootName = String(root.args[0] ?? '').toLowerCase();
+  if (/auxiliary_sphere|pseudo/.test(projectionName.toLowerCase()) || rootName.includes('pseudo')) {
+    ellipsoid = { a: ellipsoid.a, f: 0 };
+  }
+
+  const unitNode = childNodes(root, 'UNIT')[0];
+
+  return {
+    method,
+    ellipsoid,
+    centralMeridian: param(['central_meridian', 'longitude_of_origin', 'longitude_of_center', 'longitude_of_natural_origin'], 0),
+    latitudeOfOrigin: param(['latitude_of_origin', 'latitude_of_center', 'latitude_of_natural_origin'], 0),
+    standardParallel1: parameters.standard_parallel_1,
+    standardParallel2: parameters.standard_parallel_2,
+    scaleFactor: param(['scale_factor'], 1),
+    falseEasting: param(['false_easting'], 0),
+    falseNorthing: param(['false_northing'], 0),
+    unit: unitNode ? Number(unitNode.args[1]) || 1 : 1,
+  };
+}
+
+// ============================================================================
+// DBF ATTRIBUTE PARSING
+// ============================================================================
+
+interface DBFField {
+  name: string;
+  type: string;
+  length: number;
+}
+
+/**
+ * Create a decoder for DBF text from the .cpg code page. Without a .cpg,
+ * text is read as UTF-8 and falls back to Windows-1252.
+ */
+function createDBFDecoder(cpg: string | undefined): (bytes: Uint8Array) => string {
+  const utf8 = new TextDecoder('utf-8', { fatal: true });
+  const cp1252 = createTextDecoder('windows-1252');
+
+  if (cpg) {
+    const codePage = cpg.trim();
+    const numeric = codePage.match(/^(?:ansi\s*)?(\d{3,5})$/i);
+    const label = numeric ? `windows-${numeric[1]}` : codePage;
+    try {
+      const decode = createTextDecoder(label);
+      return bytes => decode(bytes);
+    } catch {
+      // Unknown code page: fall through to detection
+    }
+  }
+
+  return bytes => {
+    try {
+      return utf8.decode(bytes);
+    } catch {
+      return cp1252(bytes);
+    }
+  };
+}
+
+/**
+ * Convert one DBF field value to a JS value (null when empty)
+ */
+function readDBFValue(field: DBFField, bytes: Buffer, decode: (bytes: Uint8Array) => string): unknown {
+  switch (field.type) {
+    case 'N':
+    case 'F': {
+      const text = bytes.toString('latin1').trim();
+      if (!text || /^\*+$/.test(text)) return null;
+      const value = Number(text);
+      return Number.isNaN(value) ? null : value;
+    }
+    case 'L': {
+      const flag = bytes.toString('latin1').trim().toUpperCase();
+      if (flag === 'T' || flag === 'Y') return true;
+      if (flag === 'F' || flag === 'N') return false;
+      return null;
+    }
+    case 'D': {
+      const text = bytes.toString('latin1').trim();
+      return /^\d{8}$/.test(text) ? `${text.slice(0, 4)}-${text.slice(4, 6)}-${text.slice(6, 8)}` : null;
+    }
+    case 'I':
+      return bytes.length >= 4 ? bytes.readInt32LE(0) : null;
+    case 'O':
+      return bytes.length >= 8 ? bytes.readDoubleLE(0) : null;
+    default: {
+      const text = decode(bytes).replace(/\0+$/, '').trim();
+      return text || null;
+    }
+  }
+}
+
+/**
+ * Read all DBF records. Deleted records are returned as null so indexes
+ * stay aligned with the .shp records.
+ */
+function readDBF(buffer: Buffer, cpg: string | undefined): Array<Record<string, unknown> | null> {
+  const recordCount = buffer.readUInt32LE(4);
+  const headerLength = buffer.readUInt16LE(8);
+  const recordLength = buffer.readUInt16LE(10);
+  const decode = createDBFDecoder(cpg);
+
+  const fields: DBFField[] = [];
+  for (let offset = 32; offset + 32 <= headerLength && buffer[offset] !== 0x0d; offset += 32) {
+    const nameBytes = buffer.subarray(offset, offset + 11);
+    const nameEnd = nameBytes.indexOf(0);
+    fields.push({
+      name: decode(nameBytes.subarray(0, nameEnd === -1 ? 11 : nameEnd)).trim(),
+      type: String.fromCharCode(buffer[offset + 11]).toUpperCase(),
+      length: buffer[offset + 16],
+    });
+  }
+
+  const records: Array<Record<string, unknown> | null> = [];
+  for (let i = 0; i < recordCount; i++) {
+    const start = headerLength + i * recordLength;
+    if (start + recordLength > buffer.length) break;
+    if (buffer[start] === 0x2a) {
+      records.push(null);
+      continue;
+    }
+
+    const attributes: Record<string, unknown> = {};
+    let offset = start + 1;
+    for (const field of fields) {
+      const value = readDBFValue(field, buffer.subarray(offset, offset + field.length), decode);
+      if (value !== null) {
+        attributes[field.name] = value;
+      }
+      offset += field.length;
+    }
+    records.push(attributes);
+  }
+
+  return records;
+}
+
+// ============================================================================
+// SHP GEOMETRY PARSING
+// ============================================================================
+
+/** Shape types that carry Z values after the XY points */
+const Z_SHAPE_TYPES = new Set([11, 13, 15, 18]);
+
+/**
+ * Signed area of a ring in source coordinates (negative = clockwise)
+ */
+function ringSignedArea(ring: Position[]): number {
+  let area = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    area += (ring[j][0] - ring[i][0]) * (ring[j][1] + ring[i][1]);
+  }
+  return area / 2;
+}
+
+/**
+ * Group shapefile rings into polygons. Shapefile outer rings are clockwise
+ * and holes counter-clockwise; output follows GeoJSON winding (outer CCW).
+ */
+function buildPolygons(rings: Position[][]): Position[][][] {
+  const outers: Position[][][] = [];
+  const holes: Position[][] = [];
+
+  for (const ring of rings) {
+    if (ringSignedArea(ring) < 0) {
+      outers.push([ring]);
+    } else {
+      holes.push(ring);
+    }
+  }
+
+  // No clockwise rings: writer ignored winding, treat every ring as a polygon
+  if (outers.length === 0) {
+    return holes.map(ring => [[...ring].reverse()]);
+  }
+
+  for (const hole of holes) {
+    const owner = outers.find(polygon => ringContains(polygon[0], hole[0])) ?? outers[outers.length - 1];
+    owner.push(hole);
+  }
+
+  return outers.map(polygon => polygon.map(ring => [...ring].reverse()));
+}
+
+/**
+ * Read one .shp record's content into geometry (source coordinates)
+ */
+function readShape(buffer: Buffer, offset: number, contentLength: number): MapGeometry | null {
+  const shapeType = buffer.readInt32LE(offset);
+  const hasZ = Z_SHAPE_TYPES.has(shapeType);
+  const readPoint = (at: number): Position => [buffer.readDoubleLE(at), buffer.readDoubleLE(at + 8)];
+
+  switch (shapeType) {
+    case 0:
+      return null;
+
+    case 1:
+    case 11:
+    case 21: {
+      const point = readPoint(offset + 4);
+      if (hasZ) point.push(buffer.readDoubleLE(offset + 20));
+      return { type: 'Point', coordinates: point };
+    }
+
+    case 8:
+    case 18:
+    case 28: {
+      const numPoints = buffer.readInt32LE(offset + 36);
+      const pointsStart = offset + 40;
+      const zStart = pointsStart + numPoints * 16 + 16;
+      const points: Position[] = [];
+      for (let i = 0; i < numPoints; i++) {
+        const point = readPoint(pointsStart + i * 16);
+        if (hasZ && zStart + i * 8 + 8 <= offset + contentLength) {
+          point.push(buffer.readDoubleLE(zStart + i * 8));
+        }
+        points.push(point);
+      }
+      return { type: 'MultiPoint', coordinates: points };
+    }
+
+    case 3:
+    case 13:
+    case 23:
+    case 5:
+    case 15:
+    case 25: {
+      const numParts = buffer.readInt32LE(offset + 36);
+      const numPoints = buffer.readInt32LE(offset + 40);
+      const partsStart = offset + 44;
+      const pointsStart = partsStart + numParts * 4;
+      const zStart = pointsStart + numPoints * 16 + 16;
+
+      const parts: Position[][] = [];
+      for (let p = 0; p < numParts; p++) {
+        const first = buffer.readInt32LE(partsStart + p * 4);
+        const last = p + 1 < numParts ? buffer.readInt32LE(partsStart + (p + 1) * 4) : numPoints;
+        const part: Position[] = [];
+        for (let i = first; i < last; i++) {
+          const point = readPoint(pointsStart + i * 16);
+          if (hasZ && zStart + i * 8 + 8 <= offset + contentLength) {
+            point.push(buffer.readDoubleLE(zStart + i * 8));
+          }
+          part.push(point);
+        }
+        if (part.length > 0) parts.push(part);
+      }
+      if (parts.length === 0) return null;
+
+      if (shapeType === 3 || shapeType === 13 || shapeType === 23) {
+        return parts.length === 1
+          ? { type: 'LineString', coordinates: parts[0] }
+          : { type: 'MultiLineString', coordinates: parts };
+      }
+      const polygons = buildPolygons(parts);
+      return polygons.length === 1
+        ? { type: 'Polygon', coordinates: polygons[0] }
+        : { type: 'MultiPolygon', coordinates: polygons };
+    }
+
+    default:
+      // MultiPatch (31) and unknown types
+      return null;
+  }
+}
+
+/**
+ * Apply a coordinate transform to every position in a geometry
+ */
+function transformGeometry(geometry: MapGeometry, transform: (position: Position) => Position): MapGeometry {
+  switch (geometry.type) {
+    case 'Point':
+      return { type: 'Point', coordinates: transform(geometry.coordinates) };
+    case 'MultiPoint':
+    case 'LineString':
+      return { type: geometry.type, coordinates: geometry.coordinates.map(transform) };
+    case 'MultiLineString':
+    case 'Polygon':
+      return { type: geometry.type, coordinates: geometry.coordinates.map(ring => ring.map(transform)) };
+    case 'MultiPolygon':
+      return {
+        type: 'MultiPolygon',
+        coordinates: geometry.coordinates.map(polygon => polygon.map(ring => ring.map(transform))),
+      };
+    case 'GeometryCollection':
+      return { type: 'GeometryCollection', geometries: geometry.geometries.map(member => transformGeometry(member, transform)) };
+  }
+}
+
+// ============================================================================
+// MAIN READER
+// ============================================================================
+
+/**
+ * Read the features of a shapefile layer, converting projected coordinates
+ * to WGS84 longitude/latitude when a .prj describes a projection.
+ *
+ * No datum shift is applied: NAD83 matches WGS84 within a meter or two,
+ * while NAD27 layers are offset by tens of meters.
+ *
+ * @param layer - Layer component files
+ * @yields One record per non-deleted .shp record
+ * @throws For invalid files, unsupported projections, or projected data without a .prj
+ */
+export function* readShapefile(layer: ShapefileLayer): Generator<ShapefileRecord> {
+  const { shp } = layer;
+  if (shp.length < 100 || shp.readInt32BE(0) !== 9994) {
+    throw new Error('Invalid shapefile: bad .shp header');
+  }
+
+  const projection = layer.prj ? parsePrj(layer.prj) : null;
+  if (!layer.prj) {
+    const [minX, minY, maxX, maxY] = [36, 44, 52, 60].map(at => shp.readDoubleLE(at));
+    if (minX < -180 || maxX > 180 || minY < -90 || maxY > 90) {
+      throw new Error('Shapefile has no .prj file and its coordinates are not latitude/longitude');
+    }
+  }
+
+  const transform = (position: Position): Position => {
+    if (!projection) return position;
+    const { lat, lng } = unproject(position[0], position[1], projection);
+    return position.length > 2 ? [lng, lat, position[2]] : [lng, lat];
+  };
+
+  const attributes = layer.dbf ? readDBF(layer.dbf, layer.cpg) : [];
+  const fileLength = Math.min(shp.readInt32BE(24) * 2, shp.length);
+
+  let offset = 100;
+  for (let index = 0; offset + 8 <= fileLength; index++) {
+    const contentLength = shp.readInt32BE(offset + 4) * 2;
+    const contentStart = offset + 8;
+    offset = contentStart + contentLength;
+    if (offset > fileLength) break;
+
+    const recordAttributes = layer.dbf ? attributes[index] : {};
+    if (recordAttributes === null) continue;
+
+    const geometry = readShape(shp, contentStart, contentLength);
+    yield {
+      geometry: geometry ? transformGeometry(geometry, transform) : null,
+      attributes: recordAttributes ?? {},
+    };
+  }
+}
@@ -0,0 +1,740 @@
+/**
+ * Streaming Parser Module
+ *
+ * Parses map files incrementally so memory stays bounded on very large
+ * exports. KML, GPX and OSM XML are read with a SAX-style scanner that
+ * only builds a DOM for one Placemark/wpt/trk/rte/node/way at a time;
+ * GeoJSON features, GeoJSONSeq/NDJSON records and CSV rows are read one by one. Per-feature logic is
+ * shared with parser.ts.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { DOMParser } from '@xmldom/xmldom';
+import * as unzipper from 'unzipper';
+import { decodeTextStream } from './encoding.js';
+import { isValidCoordinate } from './geo-utils.js';
+import { readShapefile } from './shapefile.js';
+import { readXLSX } from './xlsx.js';
+import {
+  detectFileType,
+  parseKMLPlacemark,
+  createKMLStyleIndex,
+  addKMLStyleDefinition,
+  parseGPXWaypoint,
+  parseGPXTrack,
+  parseGPXRoute,
+  parseGeoJSONFeature,
+  createJSONSequenceSplitter,
+  parseJSONSequenceRecord,
+  parseShapefileRecord,
+  getShapefileRecordId,
+  loadShapefileLayers,
+  parseOSMNode,
+  parseOSMWay,
+  compileOSMFilter,
+  type OSMNodeIndex,
+  type OSMOptions,
+  createCSVTokenizer,
+  resolveDelimiter,
+  getCSVHeaders,
+  findCSVColumns,
+  parseCSVRow,
+  parseXLSXSheet,
+  parsePhoto,
+  CSV_NO_COORDINATES,
+  createSkipReporter,
+  setPointSource,
+  type SourceFile,
+  type CSVColumns,
+  type CSVOptions,
+  type CSVTokenizer,
+  type JSONSequenceRecord,
+  type ParseOptions,
+  type ParsedMapPoint,
+  type ParsedMapResult,
+  type ParseWarning,
+  type WarningHandler,
+} from './parser.js';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** Files at or above this size are streamed by the CLI (bytes) */
+export const DEFAULT_STREAM_THRESHOLD = 50 * 1024 * 1024;
+
+/**
+ * Check whether a file is large enough to be parsed with the streaming API
+ */
+export function shouldStreamFile(filePath: string, threshold: number = DEFAULT_STREAM_THRESHOLD): boolean {
+  try {
+    return fs.statSync(filePath).size >= threshold;
+  } catch {
+    return false;
+  }
+}
+
+// ============================================================================
+// SAX-STYLE XML SCANNER
+// ============================================================================
+
+interface XMLAncestor {
+  /** Local tag name (namespace prefix removed) */
+  tag: string;
+  /** Text of the element's first direct <name> child */
+  name: string | null;
+}
+
+export interface CapturedXMLElement {
+  /** Local tag name of the captured element */
+  tag: string;
+  /** Raw XML of the element, start tag through end tag */
+  xml: string;
+  /** Open ancestors (outermost first), excluding the document element */
+  ancestors: XMLAncestor[];
+  /** Raw start tag of the document element (keeps namespace declarations) */
+  rootTag: string;
+  /** 1-based line of the element's start tag */
+  line: number;
+}
+
+function localName(tag: string): string {
+  const colon = tag.indexOf(':');
+  return colon >= 0 ? tag.slice(colon + 1) : tag;
+}
+
+function decodeXMLEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_, entity: string) => {
+    switch (entity.toLowerCase()) {
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'amp': return '&';
+      case 'quot': return '"';
+      case 'apos': return "'";
+    }
+    const code = entity[1].toLowerCase() === 'x'
+      ? parseInt(entity.slice(2), 16)
+      : parseInt(entity.slice(1), 10);
+    return String.fromCodePoint(code);
+  });
+}
+
+function escapeXMLText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Find the end of a start/end tag, skipping '>' inside quoted attributes
+ */
+function findTagEnd(buffer: string, from: number): number {
+  let quote: string | null = null;
+  for (let i = from; i < buffer.length; i++) {
+    const c = buffer[i];
+    if (quote) {
+      if (c === quote) quote = null;
+    } else if (c === '"' || c === "'") {
+      quote = c;
+    } else if (c === '>') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Scan XML text chunks and yield each element whose local name is in
+ * captureTags as raw XML, together with its ancestor context.
+ * Only the element currently being captured is held in memory.
+ */
+export async function* scanXMLElements(
+  chunks: AsyncIterable<string>,
+  captureTags: string[]
+): AsyncGenerator<CapturedXMLElement> {
+  const capture = new Set(captureTags);
+  const stack: XMLAncestor[] = [];
+  let rootTag: string | null = null;
+  let buffer = '';
+
+  // Line number of buffer[linePos]
+  let line = 1;
+  let linePos = 0;
+  const advanceTo = (index: number) => {
+    for (let i = linePos; i < index; i++) {
+      if (buffer.charCodeAt(i) === 10) line++;
+    }
+    linePos = index;
+  };
+
+  // Current capture state
+  let captured: string[] | null = null;
+  let capturedTag = '';
+  let capturedAncestors: XMLAncestor[] = [];
+  let capturedLine = 0;
+  let captureDepth = 0;
+
+  // Text of a <name> element being read outside a capture
+  let nameText: string | null = null;
+
+  const appendText = (text: string) => {
+    if (captured) captured.push(text);
+    else if (nameText !== null) nameText += text;
+  };
+
+  for await (const chunk of chunks) {
+    buffer += chunk;
+    let pos = 0;
+
+    while (pos < buffer.length) {
+      const lt = buffer.indexOf('<', pos);
+      if (lt === -1) break;
+      if (lt > pos) {
+        appendText(buffer.slice(pos, lt));
+        pos = lt;
+      }
+
+      // Wait for enough characters to tell comments and CDATA apart
+      const lookahead = buffer.slice(lt, lt + 9);
+      if (lookahead.length < 9 && ('<![CDATA['.startsWith(lookahead) || '<!--'.startsWith(lookahead))) break;
+
+      let end: number;
+      let raw: string;
+
+      if (buffer.startsWith('<!--', lt)) {
+        end = buffer.indexOf('-->', lt + 4);
+        if (end === -1) break;
+        pos = end + 3;
+        if (captured) captured.push(buffer.slice(lt, pos));
+        continue;
+      }
+
+      if (buffer.startsWith('<![CDATA[', lt)) {
+        end = buffer.indexOf(']]>', lt + 9);
+        if (end === -1) break;
+        pos = end + 3;
+        if (captured) captured.push(buffer.slice(lt, pos));
+        else if (nameText !== null) nameText += buffer.slice(lt + 9, end);
+        continue;
+      }
+
+      if (buffer.startsWith('<?', lt) || buffer.startsWith('<!', lt)) {
+        end = buffer.indexOf('>', lt);
+        if (end === -1) break;
+        pos = end + 1;
+        continue;
+      }
+
+      end = findTagEnd(buffer, lt + 1);
+      if (end === -1) break;
+      raw = buffer.slice(lt, end + 1);
+      pos = end + 1;
+
+      // End tag
+      if (raw[1] === '/') {
+        if (captured) {
+          captured.push(raw);
+          if (--captureDepth === 0) {
+            const element: CapturedXMLElement = {
+              tag: capturedTag,
+              xml: captured.join(''),
+              ancestors: capturedAncestors,
+              rootTag: rootTag || '',
+              line: capturedLine,
+            };
+            captured = null;
+            yield element;
+          }
+          continue;
+        }
+
+        const closed = stack.pop();
+        if (closed?.tag === 'name' && nameText !== null) {
+          const parent = stack[stack.length - 1];
+          if (parent && parent.name === null) {
+            parent.name = decodeXMLEntities(nameText.trim());
+          }
+          nameText = null;
+        }
+        continue;
+      }
+
+      // Start tag (possibly self-closing)
+      const tag = localName(raw.slice(1).match(/^[^\s/>]+/)?.[0] || '');
+      const selfClosing = raw.endsWith('/>');
+
+      if (rootTag === null) {
+        rootTag = selfClosing ? raw.slice(0, -2) + '>' : raw;
+        if (!selfClosing) stack.push({ tag, name: null });
+        continue;
+      }
+
+      if (captured) {
+        captured.push(raw);
+        if (!selfClosing) captureDepth++;
+        continue;
+      }
+
+      if (capture.has(tag)) {
+        capturedTag = tag;
+        capturedAncestors = stack.slice(1).map(a => ({ ...a }));
+        advanceTo(lt);
+        capturedLine = line;
+        if (selfClosing) {
+          yield { tag, xml: raw, ancestors: capturedAncestors, rootTag, line };
+        } else {
+          captured = [raw];
+          captureDepth = 1;
+        }
+        continue;
+      }
+
+      if (!selfClosing) {
+        stack.push({ tag, name: null });
+        if (tag === 'name') nameText = '';
+      }
+    }
+
+    advanceTo(pos);
+    buffer = buffer.slice(pos);
+    linePos = 0;
+  }
+}
+
+/**
+ * Rebuild a minimal standalone document around a captured element so
+ * namespace declarations and Folder names are available to the DOM.
+ */
+function wrapCapturedElement(element: CapturedXMLElement): string {
+  const rootName = element.rootTag.match(/^<([^\s/>]+)/)?.[1] || 'root';
+  const open = element.ancestors
+    .map(a => `<${a.tag}>${a.name !== null ? `<name>${escapeXMLText(a.name)}</name>` : ''}`)
+    .join('');
+  const close = element.ancestors.map(a => `</${a.tag}>`).reverse().join('');
+  return `${element.rootTag}${open}${element.xml}${close}</${rootName}>`;
+}
+
+function parseCapturedElement(element: CapturedXMLElement): Element | null {
+  const doc = new DOMParser().parseFromString(wrapCapturedElement(element), 'text/xml');
+  return doc.getElementsByTagName(element.tag)[0] || null;
+}
+
+// ============================================================================
+// FORMAT STREAMS
+// ============================================================================
+
+/**
+ * Stream KML. Shared styles are indexed as they are read; like Google Earth,
+ * this expects them to be defined before the placemarks that use them.
+ */
+async function* streamKML(
+  chunks: AsyncIterable<string>,
+  file: SourceFile,
+  onWarning?: WarningHandler
+): AsyncGenerator<ParsedMapPoint> {
+  const styles = createKMLStyleIndex();
+  let placemarkIndex = 0;
+
+  for await (const element of scanXMLElements(chunks, ['Style', 'StyleMap', 'Placemark'])) {
+    const el = parseCapturedElement(element);
+    if (!el) continue;
+
+    if (element.tag === 'Placemark') {
+      const index = placemarkIndex++;
+      for (const point of parseKMLPlacemark(el, styles, createSkipReporter(onWarning, index, element.line))) {
+        setPointSource(point, file, index, element.line, el.getAttribute('id'));
+        yield point;
+      }
+    } else {
+      addKMLStyleDefinition(styles, el);
+    }
+  }
+}
+
+async function* streamGPX(
+  chunks: AsyncIterable<string>,
+  file: SourceFile,
+  onWarning?: WarningHandler
+): AsyncGenerator<ParsedMapPoint> {
+  let waypointIndex = 0;
+  let trackIndex = 0;
+  let routeIndex = 0;
+
+  for await (const element of scanXMLElements(chunks, ['wpt', 'trk', 'rte'])) {
+    const el = parseCapturedElement(element);
+    if (!el) continue;
+
+    let point: ParsedMapPoint | null;
+    let index: number;
+    switch (element.tag) {
+      case 'wpt':
+        index = waypointIndex++;
+        point = parseGPXWaypoint(el, createSkipReporter(onWarning, index, element.line));
+        break;
+      case 'trk':
+        index = trackIndex++;
+        point = parseGPXTrack(el, index, createSkipReporter(onWarning, index, element.line));
+        break;
+      default:
+        index = routeIndex++;
+        point = parseGPXRoute(el, index, createSkipReporter(onWarning, index, element.line));
+    }
+    if (point) {
+      setPointSource(point, file, index, element.line);
+      yield point;
+    }
+  }
+}
+
+/**
+ * Stream OSM XML. Every node position is kept in an index so ways (which
+ * follow the nodes in OSM files) can be resolved to centroids.
+ */
+async function* streamOSM(
+  chunks: AsyncIterable<string>,
+  file: SourceFile,
+  options: OSMOptions = {},
+  onWarning?: WarningHandler
+): AsyncGenerator<ParsedMapPoint> {
+  const filter = options.filter ? compileOSMFilter(options.filter) : undefined;
+  const nodeIndex: OSMNodeIndex = new Map();
+  let nodeCount = 0;
+  let wayCount = 0;
+
+  for await (const element of scanXMLElements(chunks, ['node', 'way'])) {
+    // Most nodes are bare way vertices: index them without building a DOM
+    // (invalid ones fall through so the DOM path reports them)
+    if (element.tag === 'node' && element.xml.endsWith('/>')) {
+      const id = element.xml.match(/\sid=["']([^"']+)/)?.[1];
+      const lat = parseFloat(element.xml.match(/\slat=["']([^"']+)/)?.[1] || '');
+      const lng = parseFloat(element.xml.match(/\slon=["']([^"']+)/)?.[1] || '');
+      if (id && isValidCoordinate(lat, lng)) {
+        nodeIndex.set(id, [lng, lat]);
+        nodeCount++;
+        continue;
+      }
+    }
+
+    const el = parseCapturedElement(element);
+    if (!el) continue;
+
+    const index = element.tag === 'node' ? nodeCount++ : wayCount++;
+    const skip = createSkipReporter(onWarning, index, element.line);
+    const point = element.tag === 'node'
+      ? parseOSMNode(el, nodeIndex, filter, skip)
+      : parseOSMWay(el, nodeIndex, filter, skip);
+    if (point) {
+      setPointSource(point, file, index, element.line, point.rawMetadata?.['@id'] as string);
+      yield point;
+    }
+  }
+}
+
+/**
+ * Yield each Feature object of a GeoJSON FeatureCollection without
+ * materialising the whole document. Other documents are buffered and
+ * treated as a single Feature.
+ */
+async function* streamGeoJSON(
+  chunks: AsyncIterable<string>,
+  file: SourceFile,
+  onWarning?: WarningHandler
+): AsyncGenerator<ParsedMapPoint> {
+  let featureIndex = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let keyText: string | null = null;
+  let lastKey: string | null = null;
+  let inFeatures = false;
+  let featureParts: string[] | null = null;
+  let fallback: string[] | null = [];
+
+  for await (const chunk of chunks) {
+    let featureStart = 0;
+
+    for (let i = 0; i < chunk.length; i++) {
+      const c = chunk[i];
+
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (c === '\\') escaped = true;
+        else if (c === '"') {
+          inString = false;
+          if (keyText !== null) {
+            lastKey = keyText;
+            keyText = null;
+          }
+        } else if (keyText !== null) keyText += c;
+        continue;
+      }
+
+      switch (c) {
+        case '"':
+          inString = true;
+          if (depth === 1) keyText = '';
+          break;
+
+        case '{':
+        case '[':
+          if (depth === 1 && c === '[' && lastKey === 'features') {
+            inFeatures = true;
+            fallback = null;
+          } else if (inFeatures && depth === 2 && c === '{') {
+            featureParts = [];
+            featureStart = i;
+          }
+          depth++;
+          break;
+
+        case '}':
+        case ']':
+          depth--;
+          if (featureParts && depth === 2) {
+            featureParts.push(chunk.slice(featureStart, i + 1));
+            const text = featureParts.join('');
+            featureParts = null;
+            const index = featureIndex++;
+            const skip = createSkipReporter(onWarning, index);
+            let feature;
+            try {
+              feature = JSON.parse(text);
+            } catch (error) {
+              skip(`invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+              continue;
+            }
+            const point = parseGeoJSONFeature(feature, skip);
+            if (point) {
+              setPointSource(point, file, index, undefined, feature?.id);
+              yield point;
+            }
+          } else if (inFeatures && depth === 1) {
+            inFeatures = false;
+          }
+          break;
+      }
+    }
+
+    if (featureParts) featureParts.push(chunk.slice(featureStart));
+    if (fallback) fallback.push(chunk);
+  }
+
+  if (fallback) {
+    let data;
+    try {
+      data = JSON.parse(fallback.join(''));
+    } catch (error) {
+      onWarning?.({ reason: `invalid JSON: ${error instanceof Error ? error.message : String(error)}` });
+      return;
+    }
+    const features = data.type === 'FeatureCollection' ? data.features || [] : [data];
+    for (let i = 0; i < features.length; i++) {
+      const point = parseGeoJSONFeature(features[i], createSkipReporter(onWarning, i));
+      if (point) {
+        setPointSource(point, file, i, undefined, features[i]?.id);
+        yield point;
+      }
+    }
+  }
+}
+
+/**
+ * Yield the records of a GeoJSON text sequence or NDJSON file as their
+ * lines arrive
+ */
+async function* streamGeoJSONSeq(
+  chunks: AsyncIterable<string>,
+  file: SourceFile,
+  onWarning?: WarningHandler
+): AsyncGenerator<ParsedMapPoint> {
+  const splitter = createJSONSequenceSplitter();
+  let index = 0;
+  const handleRecords = function* (records: JSONSequenceRecord[]): Generator<ParsedMapPoint> {
+    for (const record of records) {
+      const point = parseJSONSequenceRecord(record, index++, file, onWarning);
+      if (point) yield point;
+    }
+  };
+
+  for await (const chunk of chunks) yield* handleRecords(splitter.push(chunk));
+  yield* handleRecords(splitter.end());
+}
+
+async function* streamCSV(
+  chunks: AsyncIterable<string>,
+  file: SourceFile,
+  options: CSVOptions = {},
+  onWarning?: WarningHandler
+): AsyncGenerator<ParsedMapPoint> {
+  let tokenizer: CSVTokenizer | null = null;
+  let columns: CSVColumns | null = null;
+  let head = '';
+  let headerRead = false;
+  let rowIndex = 0;
+
+  // Returns false once it is clear the table has no coordinate columns
+  const handleRecords = function* (records: string[][]): Generator<ParsedMapPoint, boolean> {
+    const lines = tokenizer!.lines;
+    for (let i = 0; i < records.length; i++) {
+      const record = records[i];
+      if (!headerRead) {
+        headerRead = true;
+        columns = findCSVColumns(getCSVHeaders(record, options), options);
+        if (!columns) {
+          onWarning?.({ reason: CSV_NO_COORDINATES, line: lines[i] });
+          return false;
+        }
+        if (options.hasHeader !== false) continue;
+      }
+      const index = rowIndex++;
+      const point = parseCSVRow(columns!, record, createSkipReporter(onWarning, index, lines[i]));
+      if (point) {
+        setPointSource(point, file, index, lines[i], columns!.idCol >= 0 ? record[columns!.idCol] : null);
+        yield point;
+      }
+    }
+    return true;
+  };
+
+  for await (const chunk of chunks) {
+    // The delimiter is detected from the first line, so hold text until it is complete
+    if (!tokenizer) {
+      head += chunk;
+      const lineEnd = head.search(/\r|\n/);
+      if (lineEnd === -1) continue;
+      tokenizer = createCSVTokenizer(resolveDelimiter(options.delimiter, head.slice(0, lineEnd)));
+      if (!(yield* handleRecords(tokenizer.push(head)))) return;
+      head = '';
+      continue;
+    }
+    if (!(yield* handleRecords(tokenizer.push(chunk)))) return;
+  }
+
+  if (!tokenizer) {
+    tokenizer = createCSVTokenizer(resolveDelimiter(options.delimiter, head));
+    yield* handleRecords(tokenizer.push(head));
+  }
+  yield* handleRecords(tokenizer.end());
+}
+
+// ============================================================================
+// MAIN STREAM FUNCTION
+// ============================================================================
+
+/**
+ * Open a map file as a stream of UTF-8 text chunks (KMZ: the inner KML)
+ */
+async function openTextStream(filePath: string, fileType: string, encoding?: string): Promise<AsyncIterable<string>> {
+  if (fileType === 'kmz') {
+    const directory = await unzipper.Open.file(filePath);
+    const kmlFile = directory.files.find(f => f.path.toLowerCase().endsWith('.kml'));
+    if (!kmlFile) {
+      throw new Error('No KML file found in KMZ archive');
+    }
+    return decodeTextStream(kmlFile.stream(), encoding);
+  }
+
+  return decodeTextStream(fs.createReadStream(filePath), encoding);
+}
+
+/**
+ * Parse a map file incrementally, yielding points one at a time.
+ * Throws for unsupported file types and unreadable files.
+ */
+export async function* parseMapFileStream(
+  filePath: string,
+  options: ParseOptions = {}
+): AsyncGenerator<ParsedMapPoint> {
+  const fileType = options.inputFormat ?? await detectFileType(filePath);
+  if (fileType === 'unknown') {
+    throw new Error(`Unsupported file type: ${path.extname(filePath) || path.basename(filePath)}`);
+  }
+
+  // Shapefiles are binary: records are decoded one at a time from the layer buffers
+  const file: SourceFile = { file: path.basename(filePath), format: fileType };
+
+  if (fileType === 'shapefile') {
+    let index = 0;
+    for (const layer of await loadShapefileLayers(filePath)) {
+      for (const record of readShapefile(layer)) {
+        const point = parseShapefileRecord(record, createSkipReporter(options.onWarning, index));
+        if (point) {
+          setPointSource(point, file, index, undefined, getShapefileRecordId(record));
+          yield point;
+        }
+        index++;
+      }
+    }
+    return;
+  }
+
+  // Workbooks are zipped XML with a shared string table: each sheet is read whole
+  if (fileType === 'xlsx') {
+    for (const sheet of await readXLSX(filePath, options.xlsx?.sheet)) {
+      yield* parseXLSXSheet(sheet, file, options.csv, options.onWarning);
+    }
+    return;
+  }
+
+  if (fileType === 'photo') {
+    yield* parsePhoto(await fs.promises.readFile(filePath), file, options.onWarning);
+    return;
+  }
+
+  const chunks = await openTextStream(filePath, fileType, options.encoding);
+
+  switch (fileType) {
+    case 'kml':
+    case 'kmz':
+      yield* streamKML(chunks, file, options.onWarning);
+      break;
+    case 'gpx':
+      yield* streamGPX(chunks, file, options.onWarning);
+      break;
+    case 'geojson':
+      yield* streamGeoJSON(chunks, file, options.onWarning);
+      break;
+    case 'geojsonseq':
+      yield* streamGeoJSONSeq(chunks, file, options.onWarning);
+      break;
+    case 'csv':
+      yield* streamCSV(chunks, file, options.csv, options.onWarning);
+      break;
+    case 'osm':
+      yield* streamOSM(chunks, file, options.osm, options.onWarning);
+      break;
+  }
+}
+
+/**
+ * Parse a map file through the streaming API and collect the result in the
+ * same shape as parseMapFile
+ */
+export async function parseMapFileStreamed(
+  filePath: string,
+  options: ParseOptions = {}
+): Promise<ParsedMapResult> {
+  const fileType = options.inputFormat ?? await detectFileType(filePath);
+  const fileName = path.basename(filePath);
+  const points: ParsedMapPoint[] = [];
+  const warnings: ParseWarning[] = [];
+  const onWarning: WarningHandler = warning => {
+    warnings.push(warning);
+    options.onWarning?.(warning);
+  };
+
+  try {
+    for await (const point of parseMapFileStream(filePath, { ...options, inputFormat: fileType, onWarning })) {
+      points.push(point);
+    }
+    return { success: true, points, fileType, fileName, warnings };
+  } catch (error) {
+    return {
+      success: false,
+      points: [],
+      fileType,
+      fileName,
+      warnings,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
@@ -0,0 +1,357 @@
+/**
+ * WKT / WKB Module
+ *
+ * Reads and writes the OGC Well-Known Text and Well-Known Binary geometry
+ * encodings used by PostGIS and other spatial databases, including the
+ * PostGIS extended forms (EWKT `SRID=4326;POINT(...)`, EWKB with SRID and
+ * Z/M flags). Coordinates are longitude/latitude; M values are dropped.
+ */
+
+import type { MapGeometry, Position } from './parser.js';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** SRIDs accepted as longitude/latitude (WGS 84, NAD83, ETRS89 and their 3D variants) */
+const GEOGRAPHIC_SRIDS = new Set([4326, 4979, 4269, 4258]);
+
+/** SRID 0 is PostGIS for "unknown"; the coordinates are taken as longitude/latitude */
+function isGeographicSRID(srid: number): boolean {
+  return srid === 0 || GEOGRAPHIC_SRIDS.has(srid);
+}
+
+/** WKB geometry type codes */
+const WKB_TYPES: Record<number, MapGeometry['type']> = {
+  1: 'Point',
+  2: 'LineString',
+  3: 'Polygon',
+  4: 'MultiPoint',
+  5: 'MultiLineString',
+  6: 'MultiPolygon',
+  7: 'GeometryCollection',
+};
+
+/** EWKB flags in the high bits of the type code */
+const EWKB_Z = 0x80000000;
+const EWKB_M = 0x40000000;
+const EWKB_SRID = 0x20000000;
+
+// ============================================================================
+// WKT READER
+// ============================================================================
+
+const WKT_TOKEN = /\s*(?:([A-Za-z]+)|([-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?)|([(),]))/y;
+
+interface WKTTokens {
+  text: string;
+  pos: number;
+  /** Coordinate dimension flags of the geometry being read */
+  hasZ: boolean;
+  hasM: boolean;
+}
+
+function peekWKT(tokens: WKTTokens): string | null {
+  WKT_TOKEN.lastIndex = tokens.pos;
+  const match = WKT_TOKEN.exec(tokens.text);
+  return match ? match[0].trim() : null;
+}
+
+function nextWKT(tokens: WKTTokens): string {
+  WKT_TOKEN.lastIndex = tokens.pos;
+  const match = WKT_TOKEN.exec(tokens.text);
+  if (!match) throw new SyntaxError(`Unexpected input at ${tokens.pos}`);
+  tokens.pos = WKT_TOKEN.lastIndex;
+  return match[0].trim();
+}
+
+function expectWKT(tokens: WKTTokens, expected: string): void {
+  const token = nextWKT(tokens);
+  if (token !== expected) throw new SyntaxError(`Expected "${expected}", got "${token}"`);
+}
+
+/**
+ * One coordinate: 2-4 numbers. Without a Z/M tag, a third number is Z and a
+ * fourth is M (PostGIS EWKT); with a lone M tag the third number is M.
+ */
+function readWKTPosition(tokens: WKTTokens): Position {
+  const values: number[] = [];
+  while (values.length < 4) {
+    const token = peekWKT(tokens);
+    if (token === null || !/^[-+.\d]/.test(token)) break;
+    values.push(Number(nextWKT(tokens)));
+  }
+  if (values.length < 2) throw new SyntaxError('Expected coordinate');
+  if (values.length === 2 || (tokens.hasM && !tokens.hasZ)) return values.slice(0, 2);
+  return values.slice(0, 3);
+}
+
+/**
+ * Comma-separated list inside parentheses
+ */
+function readWKTList<T>(tokens: WKTTokens, readItem: (tokens: WKTTokens) => T): T[] {
+  expectWKT(tokens, '(');
+  const items = [readItem(tokens)];
+  while (peekWKT(tokens) === ',') {
+    nextWKT(tokens);
+    items.push(readItem(tokens));
+  }
+  expectWKT(tokens, ')');
+  return items;
+}
+
+const readWKTPositions = (tokens: WKTTokens): Position[] => readWKTList(tokens, readWKTPosition);
+const readWKTRings = (tokens: WKTTokens): Position[][] => readWKTList(tokens, readWKTPositions);
+
+/**
+ * MULTIPOINT members may or may not be parenthesized: (1 2, 3 4) or ((1 2), (3 4))
+ */
+function readWKTMultiPointMember(tokens: WKTTokens): Position {
+  if (peekWKT(tokens) !== '(') return readWKTPosition(tokens);
+  nextWKT(tokens);
+  const position = readWKTPosition(tokens);
+  expectWKT(tokens, ')');
+  return position;
+}
+
+/**
+ * Read one tagged geometry. EMPTY geometries return null.
+ */
+function readWKTGeometry(tokens: WKTTokens): MapGeometry | null {
+  const keyword = nextWKT(tokens).toUpperCase();
+  const type = Object.values(WKB_TYPES).find(t => t.toUpperCase() === keyword);
+  if (!type) throw new SyntaxError(`Unknown geometry type "${keyword}"`);
+
+  let dimension = peekWKT(tokens)?.toUpperCase();
+  if (dimension === 'Z' || dimension === 'M' || dimension === 'ZM') {
+    nextWKT(tokens);
+  } else {
+    dimension = '';
+  }
+  const outer = { hasZ: tokens.hasZ, hasM: tokens.hasM };
+  tokens.hasZ = dimension.includes('Z');
+  tokens.hasM = dimension.includes('M');
+
+  let geometry: MapGeometry | null;
+  if (peekWKT(tokens)?.toUpperCase() === 'EMPTY') {
+    nextWKT(tokens);
+    geometry = type === 'GeometryCollection' ? { type, geometries: [] } : null;
+  } else {
+    switch (type) {
+      case 'Point': {
+        expectWKT(tokens, '(');
+        geometry = { type, coordinates: readWKTPosition(tokens) };
+        expectWKT(tokens, ')');
+        break;
+      }
+      case 'LineString':
+        geometry = { type, coordinates: readWKTPositions(tokens) };
+        break;
+      case 'Polygon':
+        geometry = { type, coordinates: readWKTRings(tokens) };
+        break;
+      case 'MultiPoint':
+        geometry = { type, coordinates: readWKTList(tokens, readWKTMultiPointMember) };
+        break;
+      case 'MultiLineString':
+        geometry = { type, coordinates: readWKTRings(tokens) };
+        break;
+      case 'MultiPolygon':
+        geometry = { type, coordinates: readWKTList(tokens, readWKTRings) };
+        break;
+      case 'GeometryCollection': {
+        const members = readWKTList(tokens, readWKTGeometry);
+        geometry = { type, geometries: members.filter((m): m is MapGeometry => m !== null) };
+        break;
+      }
+    }
+  }
+
+  tokens.hasZ = outer.hasZ;
+  tokens.hasM = outer.hasM;
+  return geometry;
+}
+
+/**
+ * Parse WKT or PostGIS EWKT into a GeoJSON-shaped geometry
+ *
+ * @param text - e.g. "POINT(-78.7 42.1)", "SRID=4326;POLYGON((...))", "LINESTRING Z (...)"
+ * @returns Geometry, or null for malformed or EMPTY input and for SRIDs that
+ *   are not longitude/latitude
+ */
+export function parseWKT(text: string): MapGeometry | null {
+  let body = text.trim();
+  const srid = body.match(/^SRID=(\d+);/i);
+  if (srid) {
+    if (!isGeographicSRID(parseInt(srid[1], 10))) return null;
+    body = body.slice(srid[0].length);
+  }
+
+  const tokens: WKTTokens = { text: body, pos: 0, hasZ: false, hasM: false };
+  try {
+    const geometry = readWKTGeometry(tokens);
+    if (tokens.text.slice(tokens.pos).trim()) return null;
+    return geometry;
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// WKB READER
+// ============================================================================
+
+interface WKBReader {
+  view: DataView;
+  offset: number;
+}
+
+function readWKBGeometry(reader: WKBReader): MapGeometry | null {
+  const { view } = reader;
+  const littleEndian = view.getUint8(reader.offset) === 1;
+  const rawType = view.getUint32(reader.offset + 1, littleEndian);
+  reader.offset += 5;
+
+  // ISO WKB encodes dimensions as thousands (1001 = Point Z), EWKB as flag bits
+  const isoDimension = Math.floor((rawType & 0xffff) / 1000);
+  const hasZ = (rawType & EWKB_Z) !== 0 || isoDimension === 1 || isoDimension === 3;
+  const hasM = (rawType & EWKB_M) !== 0 || isoDimension === 2 || isoDimension === 3;
+  if (rawType & EWKB_SRID) {
+    const srid = view.getUint32(reader.offset, littleEndian);
+    reader.offset += 4;
+    if (!isGeographicSRID(srid)) throw new RangeError(`Unsupported SRID ${srid}`);
+  }
+  const type = WKB_TYPES[(rawType & 0xffff) % 1000];
+  if (!type) throw new RangeError(`Unknown WKB geometry type ${rawType}`);
+
+  const dimensions = 2 + (hasZ ? 1 : 0) + (hasM ? 1 : 0);
+  const readCount = (): number => {
+    const count = view.getUint32(reader.offset, littleEndian);
+    reader.offset += 4;
+    return count;
+  };
+  const readPosition = (): Position => {
+    const position: Position = [];
+    for (let d = 0; d < dimensions; d++) {
+      position.push(view.getFloat64(reader.offset + d * 8, littleEndian));
+    }
+    reader.offset += dimensions * 8;
+    return hasZ ? position.slice(0, 3) : position.slice(0, 2);
+  };
+  const readPositions = (): Position[] => Array.from({ length: readCount() }, readPosition);
+  const readRings = (): Position[][] => Array.from({ length: readCount() }, readPositions);
+  const readMembers = (): Array<MapGeometry | null> =>
+    Array.from({ length: readCount() }, () => readWKBGeometry(reader));
+
+  switch (type) {
+    case 'Point': {
+      const coordinates = readPosition();
+      // An empty point is written as NaN coordinates
+      return Number.isNaN(coordinates[0]) ? null : { type, coordinates };
+    }
+    case 'LineString':
+      return { type, coordinates: readPositions() };
+    case 'Polygon':
+      return { type, coordinates: readRings() };
+    case 'MultiPoint':
+      return {
+        type,
+        coordinates: readMembers().flatMap(m => (m?.type === 'Point' ? [m.coordinates] : [])),
+      };
+    case 'MultiLineString':
+      return {
+        type,
+        coordinates: readMembers().flatMap(m => (m?.type === 'LineString' ? [m.coordinates] : [])),
+      };
+    case 'MultiPolygon':
+      return {
+        type,
+        coordinates: readMembers().flatMap(m => (m?.type === 'Polygon' ? [m.coordinates] : [])),
+      };
+    case 'GeometryCollection':
+      return { type, geometries: readMembers().filter((m): m is MapGeometry => m !== null) };
+  }
+}
+
+/**
+ * Parse WKB or PostGIS EWKB into a GeoJSON-shaped geometry
+ *
+ * @param input - Binary geometry, or its hex encoding (as PostGIS prints it, optionally `\x`-prefixed)
+ * @returns Geometry, or null for truncated or malformed input, empty points
+ *   and SRIDs that are not longitude/latitude
+ */
+export function parseWKB(input: Uint8Array | string): MapGeometry | null {
+  let bytes: Uint8Array;
+  if (typeof input === 'string') {
+    const hex = input.trim().replace(/^\\x/i, '');
+    if (!/^(?:[0-9a-f]{2})+$/i.test(hex)) return null;
+    bytes = Buffer.from(hex, 'hex');
+  } else {
+    bytes = input;
+  }
+
+  const reader: WKBReader = { view: new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength), offset: 0 };
+  try {
+    const geometry = readWKBGeometry(reader);
+    return reader.offset === bytes.byteLength ? geometry : null;
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// WKT WRITER
+// ============================================================================
+
+function formatWKTPosition(position: Position, hasZ: boolean): string {
+  return (hasZ ? position.slice(0, 3) : position.slice(0, 2)).join(' ');
+}
+
+function collectPositions(geometry: MapGeometry): Position[] {
+  switch (geometry.type) {
+    case 'Point': return [geometry.coordinates];
+    case 'MultiPoint':
+    case 'LineString': return geometry.coordinates;
+    case 'MultiLineString':
+    case 'Polygon': return geometry.coordinates.flat();
+    case 'MultiPolygon': return geometry.coordinates.flat(2);
+    case 'GeometryCollection': return geometry.geometries.flatMap(collectPositions);
+  }
+}
+
+/**
+ * Write a geometry as WKT. Altitudes are written (as `Z`) only when every
+ * position has one.
+ *
+ * @example toWKT({ type: 'Point', coordinates: [-78.7, 42.1] }) // "POINT (-78.7 42.1)"
+ */
+export function toWKT(geometry: MapGeometry): string {
+  const positions = collectPositions(geometry);
+  const hasZ = positions.length > 0 && positions.every(p => p.length >= 3 && Number.isFinite(p[2]));
+  return formatWKT(geometry, hasZ);
+}
+
+function formatWKT(geometry: MapGeometry, hasZ: boolean): string {
+  const tag = geometry.type.toUpperCase() + (hasZ ? ' Z' : '');
+  const positions = (list: Position[]): string => `(${list.map(p => formatWKTPosition(p, hasZ)).join(', ')})`;
+  const rings = (list: Position[][]): string => `(${list.map(positions).join(', ')})`;
+
+  switch (geometry.type) {
+    case 'Point':
+      return `${tag} (${formatWKTPosition(geometry.coordinates, hasZ)})`;
+    case 'MultiPoint':
+    case 'LineString':
+      return geometry.coordinates.length > 0 ? `${tag} ${positions(geometry.coordinates)}` : `${tag} EMPTY`;
+    case 'MultiLineString':
+    case 'Polygon':
+      return geometry.coordinates.length > 0 ? `${tag} ${rings(geometry.coordinates)}` : `${tag} EMPTY`;
+    case 'MultiPolygon':
+      return geometry.coordinates.length > 0
+        ? `${tag} (${geometry.coordinates.map(rings).join(', ')})`
+        : `${tag} EMPTY`;
+    case 'GeometryCollection':
+      return geometry.geometries.length > 0
+        ? `${tag} (${geometry.geometries.map(member => formatWKT(member, hasZ)).join(', ')})`
+        : `${tag} EMPTY`;
+  }
+}
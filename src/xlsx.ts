@@ -0,0 +1,264 @@
+/**
+ * XLSX Reader Module
+ *
+ * Reads the cell text of Excel .xlsx workbooks: the sheet list from
+ * workbook.xml and its relationships, shared strings, and each sheet's
+ * rows. Date-formatted numbers are converted to ISO 8601; other numbers
+ * keep the text Excel stored, so coordinates are not rounded.
+ */
+
+import * as path from 'path';
+import { DOMParser } from '@xmldom/xmldom';
+import * as unzipper from 'unzipper';
+import { decodeText } from './encoding.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * One spreadsheet row. Missing cells are empty strings.
+ */
+export interface XLSXRow {
+  /** 1-based row number in the sheet */
+  number: number;
+  values: string[];
+}
+
+export interface XLSXSheet {
+  name: string;
+  /** Rows that have at least one value */
+  rows: XLSXRow[];
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** Built-in number formats that display dates or times */
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+/** Serial of 1970-01-01 in the 1900 date system (day 0 is 1899-12-30, after Excel's 1900 leap-year bug) */
+const EPOCH_1900_OFFSET = 25569;
+/** Serial of 1970-01-01 in the 1904 date system (Mac Excel) */
+const EPOCH_1904_OFFSET = 24107;
+
+const MS_PER_DAY = 86400000;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function parseXML(bytes: Buffer): Document {
+  return new DOMParser().parseFromString(decodeText(bytes), 'text/xml');
+}
+
+/**
+ * Elements by local name, whatever the namespace prefix (transitional
+ * and strict OOXML use different namespace URIs)
+ */
+function elementsByName(parent: Document | Element, name: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS('*', name));
+}
+
+/**
+ * 0-based column index of a cell reference ("C7" -> 2, "AA1" -> 26)
+ */
+function columnIndex(ref: string): number | null {
+  const letters = ref.match(/^[A-Z]+/i)?.[0];
+  if (!letters) return null;
+  let index = 0;
+  for (const letter of letters.toUpperCase()) {
+    index = index * 26 + letter.charCodeAt(0) - 64;
+  }
+  return index - 1;
+}
+
+/**
+ * Text of a shared string or inline string: plain <t>, or the runs of rich
+ * text, without phonetic (<rPh>) annotations
+ */
+function readStringItem(item: Element): string {
+  return elementsByName(item, 't')
+    .filter(t => (t.parentNode as Element | null)?.localName !== 'rPh')
+    .map(t => t.textContent || '')
+    .join('');
+}
+
+/**
+ * Whether a custom number format code displays a date or time. Quoted
+ * literals, escapes and [color]/[$-locale] sections are ignored; elapsed
+ * time formats ([h]:mm) count as times.
+ */
+function isDateFormatCode(code: string): boolean {
+  const stripped = code
+    .replace(/"[^"]*"/g, '')
+    .replace(/\\./g, '')
+    .replace(/\[(h+|m+|s+)\]/gi, 'h')
+    .replace(/\[[^\]]*\]/g, '');
+  return /[dmyhs]/i.test(stripped);
+}
+
+/**
+ * Indexes of the cell styles (cellXfs) whose number format is a date
+ */
+function readDateStyles(styles: Document | null): Set<number> {
+  const dateStyles = new Set<number>();
+  if (!styles) return dateStyles;
+
+  const customDateFormats = new Set<number>();
+  for (const numFmt of elementsByName(styles, 'numFmt')) {
+    if (isDateFormatCode(numFmt.getAttribute('formatCode') || '')) {
+      customDateFormats.add(parseInt(numFmt.getAttribute('numFmtId') || '', 10));
+    }
+  }
+
+  const cellXfs = elementsByName(styles, 'cellXfs')[0];
+  if (!cellXfs) return dateStyles;
+  const xfs = elementsByName(cellXfs, 'xf');
+  for (let i = 0; i < xfs.length; i++) {
+    const numFmtId = parseInt(xfs[i].getAttribute('numFmtId') || '0', 10);
+    if (BUILTIN_DATE_FORMATS.has(numFmtId) || customDateFormats.has(numFmtId)) {
+      dateStyles.add(i);
+    }
+  }
+  return dateStyles;
+}
+
+/**
+ * Convert an Excel date serial to ISO 8601: a date, a date-time, or a
+ * time of day for serials below 1
+ */
+function excelSerialToISO(serial: number, date1904: boolean): string {
+  const days = serial - (date1904 ? EPOCH_1904_OFFSET : EPOCH_1900_OFFSET);
+  const iso = new Date(Math.round(days * MS_PER_DAY / 1000) * 1000).toISOString();
+  if (serial < 1 && !date1904) return iso.slice(11, 19);
+  return Number.isInteger(serial) ? iso.slice(0, 10) : iso.slice(0, 19);
+}
+
+// ============================================================================
+// WORKBOOK READER
+// ============================================================================
+
+interface WorkbookContext {
+  sharedStrings: string[];
+  dateStyles: Set<number>;
+  date1904: boolean;
+}
+
+function readCellValue(cell: Element, context: WorkbookContext): string {
+  const type = cell.getAttribute('t') || 'n';
+  if (type === 'inlineStr') {
+    const item = elementsByName(cell, 'is')[0];
+    return item ? readStringItem(item) : '';
+  }
+
+  const raw = elementsByName(cell, 'v')[0]?.textContent ?? '';
+  switch (type) {
+    case 's':
+      return context.sharedStrings[parseInt(raw, 10)] ?? '';
+    case 'b':
+      return raw === '1' ? 'TRUE' : raw === '0' ? 'FALSE' : raw;
+    case 'n': {
+      const style = parseInt(cell.getAttribute('s') || '', 10);
+      const serial = Number(raw);
+      if (raw && context.dateStyles.has(style) && Number.isFinite(serial)) {
+        return excelSerialToISO(serial, context.date1904);
+      }
+      return raw;
+    }
+    default:
+      // str (formula result), e (error such as #N/A), d (ISO date)
+      return raw;
+  }
+}
+
+function readSheetRows(sheet: Document, context: WorkbookContext): XLSXRow[] {
+  const rows: XLSXRow[] = [];
+  let previousNumber = 0;
+
+  for (const row of elementsByName(sheet, 'row')) {
+    const number = parseInt(row.getAttribute('r') || '', 10) || previousNumber + 1;
+    previousNumber = number;
+
+    const values: string[] = [];
+    for (const cell of elementsByName(row, 'c')) {
+      const index = columnIndex(cell.getAttribute('r') || '') ?? values.length;
+      while (values.length < index) values.push('');
+      values[index] = readCellValue(cell, context);
+    }
+    if (values.some(value => value !== '')) rows.push({ number, values });
+  }
+  return rows;
+}
+
+/**
+ * Resolve a relationship target against the workbook part (xl/workbook.xml)
+ */
+function resolvePartPath(target: string): string {
+  return target.startsWith('/') ? target.slice(1) : path.posix.normalize(path.posix.join('xl', target));
+}
+
+/**
+ * Read sheets of an .xlsx workbook
+ *
+ * @param filePath - Workbook path
+ * @param sheet - Sheet name (case-insensitive) or 1-based number; all sheets when omitted
+ * @returns Sheets in workbook order
+ */
+export async function readXLSX(filePath: string, sheet?: string): Promise<XLSXSheet[]> {
+  const directory = await unzipper.Open.file(filePath);
+  const entries = new Map<string, unzipper.File>(directory.files.map(f => [f.path.replace(/^\//, '').toLowerCase(), f]));
+  const readPart = async (partPath: string): Promise<Document | null> => {
+    const entry = entries.get(partPath.toLowerCase());
+    return entry ? parseXML(await entry.buffer()) : null;
+  };
+
+  const workbook = await readPart('xl/workbook.xml');
+  if (!workbook) {
+    throw new Error('No workbook found in XLSX archive');
+  }
+
+  const targets = new Map<string, string>();
+  const rels = await readPart('xl/_rels/workbook.xml.rels');
+  for (const rel of rels ? elementsByName(rels, 'Relationship') : []) {
+    targets.set(rel.getAttribute('Id') || '', resolvePartPath(rel.getAttribute('Target') || ''));
+  }
+
+  const sheetElements = elementsByName(workbook, 'sheet');
+  let selected = sheetElements;
+  if (sheet !== undefined) {
+    const ref = sheet.trim().toLowerCase();
+    const byName = sheetElements.find(el => (el.getAttribute('name') || '').toLowerCase() === ref);
+    const byNumber = /^\d+$/.test(ref) ? sheetElements[parseInt(ref, 10) - 1] : undefined;
+    const match = byName ?? byNumber;
+    if (!match) {
+      const names = sheetElements.map(el => el.getAttribute('name')).join(', ');
+      throw new Error(`Sheet not found: ${sheet} (sheets: ${names})`);
+    }
+    selected = [match];
+  }
+
+  const sharedStringsPart = await readPart('xl/sharedStrings.xml');
+  const workbookPr = elementsByName(workbook, 'workbookPr')[0];
+  const date1904 = workbookPr?.getAttribute('date1904');
+  const context: WorkbookContext = {
+    sharedStrings: sharedStringsPart ? elementsByName(sharedStringsPart, 'si').map(readStringItem) : [],
+    dateStyles: readDateStyles(await readPart('xl/styles.xml')),
+    date1904: date1904 === '1' || date1904 === 'true',
+  };
+
+  const sheets: XLSXSheet[] = [];
+  for (const el of selected) {
+    const relId = el.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id')
+      || el.getAttribute('r:id')
+      || '';
+    const target = targets.get(relId);
+    const part = target ? await readPart(target) : null;
+    if (!part) {
+      throw new Error(`Sheet data not found in XLSX archive: ${el.getAttribute('name')}`);
+    }
+    sheets.push({ name: el.getAttribute('name') || '', rows: readSheetRows(part, context) });
+  }
+  return sheets;
+}
@@ -9,6 +9,7 @@ import { execSync, spawn } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import * as unzipper from 'unzipper';
 
 const CLI_PATH = path.join(__dirname, '..', 'src', 'cli.ts');
 const FIXTURES_DIR = path.join(__dirname, 'fixtures');
@@ -129,6 +130,109 @@ describe('CLI Integration', () => {
       expect(geojson.features[0].geometry.type).toBe('Point');
     });
 
+    it('outputs one GeoJSON Feature per line with geojsonseq', () => {
+      const result = runCLI(['parse', `"${path.join(FIXTURES_DIR, 'sample.csv')}"`, '-f', 'geojsonseq', '--quiet']);
+      expect(result.exitCode).toBe(0);
+
+      const lines = result.stdout.trimEnd().split('\n');
+      expect(lines).toHaveLength(4);
+      const feature = JSON.parse(lines[0]);
+      expect(feature.type).toBe('Feature');
+      expect(feature.geometry.type).toBe('Point');
+    });
+
+    it('round-trips points through NDJSON output', () => {
+      const outFile = path.join(TEMP_DIR, 'sample.ndjson');
+      const written = runCLI(['parse', `"${path.join(FIXTURES_DIR, 'sample.gpx')}"`, '-f', 'ndjson', '-o', `"${outFile}"`, '--quiet']);
+      expect(written.exitCode).toBe(0);
+
+      const lines = fs.readFileSync(outFile, 'utf-8').trimEnd().split('\n');
+      const original = lines.map(line => JSON.parse(line));
+      expect(original.length).toBeGreaterThan(1);
+
+      const result = runCLI(['parse', `"${outFile}"`, '-f', 'json', '--quiet']);
+      expect(result.exitCode).toBe(0);
+      const reparsed = JSON.parse(result.stdout);
+      expect(reparsed.map((p: { name: string; lat: number }) => [p.name, p.lat]))
+        .toEqual(original.map((p: { name: string; lat: number }) => [p.name, p.lat]));
+      expect(reparsed[0].sources).toEqual([{ file: 'sample.ndjson', format: 'geojsonseq', featureIndex: 0, line: 1 }]);
+    });
+
+    it('preserves line and polygon geometry in GeoJSON output', () => {
+      const result = runCLI(['parse', `"${path.join(FIXTURES_DIR, 'geometries.geojson')}"`, '-f', 'geojson', '--quiet']);
+      expect(result.exitCode).toBe(0);
+
+      const geojson = JSON.parse(result.stdout);
+      const types = geojson.features.map((f: { geometry: { type: string } }) => f.geometry.type);
+      expect(types).toEqual(['Polygon', 'MultiLineString', 'MultiPolygon']);
+      expect(geojson.features[0].geometry.coordinates).toHaveLength(2);
+    });
+
+    it('writes polygon holes as KML inner boundaries', () => {
+      const result = runCLI(['parse', `"${path.join(FIXTURES_DIR, 'geometries.geojson')}"`, '-f', 'kml', '--quiet']);
+      expect(result.exitCode).toBe(0);
+
+      expect(result.stdout).toContain('<outerBoundaryIs>');
+      expect(result.stdout).toContain('<innerBoundaryIs>');
+      expect(result.stdout).toContain('<MultiGeometry>');
+    });
+
+    it('writes KML Style blocks for every styleUrl', () => {
+      const result = runCLI(['parse', `"${path.join(FIXTURES_DIR, 'styles.kml')}"`, '-f', 'kml', '--quiet']);
+      expect(result.exitCode).toBe(0);
+
+      expect(result.stdout).toContain('<StyleMap id="icon-1899-0288D1-nodesc">');
+      expect(result.stdout).toContain('<Style id="icon-1899-0288D1-nodesc-highlight">');
+      expect(result.stdout).toContain('<color>ff0000ff</color><scale>1.2</scale>');
+      expect(result.stdout).toContain('<LineStyle><color>7f00ff00</color><width>3</width></LineStyle>');
+
+      const styleUrls = [...result.stdout.matchAll(/<styleUrl>#([^<]+)<\/styleUrl>/g)].map(m => m[1]);
+      const ids = new Set([...result.stdout.matchAll(/<Style(?:Map)? id="([^"]+)"/g)].map(m => m[1]));
+      expect(styleUrls.length).toBeGreaterThan(0);
+      for (const url of styleUrls) expect(ids).toContain(url);
+      expect(ids).toContain('hospital-2');
+    });
+
+    it('writes lines as GPX tracks', () => {
+      const result = runCLI(['parse', `"${path.join(FIXTURES_DIR, 'sample.kml')}"`, '-f', 'gpx', '--quiet']);
+      expect(result.exitCode).toBe(0);
+
+      expect(result.stdout).toContain('<trk>');
+      expect(result.stdout).toContain('<trkpt lat="37.1" lon="-122.1"/>');
+    });
+
+    it('writes KMZ archives with icons found next to the input', () => {
+      const outFile = path.join(TEMP_DIR, 'mills.kmz');
+      const result = runCLI(['parse', `"${path.join(FIXTURES_DIR, 'local-icons.kml')}"`, '-f', 'kmz', '-o', `"${outFile}"`, '--quiet']);
+      expect(result.exitCode).toBe(0);
+
+      const reparsed = JSON.parse(runCLI(['parse', `"${outFile}"`, '--quiet']).stdout);
+      expect(reparsed.map((p: { name: string }) => p.name)).toEqual(['Smith Mill', 'Upper Dam', 'Canal Lock']);
+      expect(reparsed[0].style.iconHref).toBe('files/mill.png');
+    });
+
+    it('keeps bundled icons through KMZ to dedup to KMZ', async () => {
+      const firstFile = path.join(TEMP_DIR, 'mills-first.kmz');
+      const outFile = path.join(TEMP_DIR, 'mills-deduped.kmz');
+      runCLI(['parse', `"${path.join(FIXTURES_DIR, 'local-icons.kml')}"`, '-f', 'kmz', '-o', `"${firstFile}"`, '--quiet']);
+      const result = runCLI(['dedup', `"${firstFile}"`, '-f', 'kmz', '-o', `"${outFile}"`, '--quiet']);
+      expect(result.exitCode).toBe(0);
+
+      const directory = await unzipper.Open.file(outFile);
+      expect(directory.files.map(f => f.path)).toEqual(['doc.kml', 'files/mill.png']);
+      expect((await directory.files[0].buffer()).toString('utf-8')).toContain('<Icon><href>files/mill.png</href></Icon>');
+    });
+
+    it('keeps OsmAnd favourite extensions in GPX output', () => {
+      const result = runCLI(['parse', `"${path.join(FIXTURES_DIR, 'extensions.gpx')}"`, '-f', 'gpx', '--quiet']);
+      expect(result.exitCode).toBe(0);
+
+      expect(result.stdout).toContain('xmlns:osmand="https://osmand.net"');
+      expect(result.stdout).toContain('<osmand:icon>railway_station</osmand:icon>');
+      expect(result.stdout).toContain('<osmand:color>#b4d00d0d</osmand:color>');
+      expect(result.stdout).toContain('<type>Railroads</type>');
+    });
+
     it('outputs CSV format', () => {
       const result = runCLI(['parse', `"${path.join(FIXTURES_DIR, 'sample.csv')}"`, '-f', 'csv', '--quiet']);
       expect(result.exitCode).toBe(0);
@@ -138,6 +242,36 @@ describe('CLI Integration', () => {
       expect(lines.length).toBe(5); // header + 4 rows
     });
 
+    it('selects CSV columns with --columns and adds a BOM with --bom', () => {
+      const result = runCLI([
+        'parse', `"${path.join(FIXTURES_DIR, 'extensions.gpx')}"`, '-f', 'csv', '--columns', 'name,osmand.color,garmin.address.city', '--bom', '--quiet',
+      ]);
+      expect(result.exitCode).toBe(0);
+
+      const lines = result.stdout.trimEnd().split('\n');
+      expect(lines[0]).toBe('\uFEFFname,osmand.color,garmin.address.city');
+      expect(lines.slice(1)).toEqual(['GC1MILL,,', 'Erie Depot,#b4d00d0d,', 'Ischua Creamery,,Franklinville']);
+    });
+
+    it('writes a wkt column with --wkt and reads geometry columns back', () => {
+      const outFile = path.join(TEMP_DIR, 'trip-stops-wkt.csv');
+      const result = runCLI([
+        'parse', `"${path.join(FIXTURES_DIR, 'trip-stops.csv')}"`, '-f', 'csv', '--wkt', '-o', `"${outFile}"`, '--quiet',
+      ]);
+      expect(result.exitCode).toBe(0);
+
+      const lines = fs.readFileSync(outFile, 'utf-8').split('\n');
+      expect(lines[0]).toBe('name,lat,lng,state,category,description,geometry,wkt,id,notes,source');
+      expect(lines[1]).toContain(',POINT (-78.0441 42.5773),');
+      expect(lines[2]).toContain('"LINESTRING (-78.05 42.58, -78.04 42.57, -78.03 42.56)"');
+
+      const reparsed = runCLI(['parse', `"${outFile}"`, '--geometry-col', 'wkt', '--quiet']);
+      const points = JSON.parse(reparsed.stdout);
+      expect(points.map((p: { geometry?: { type: string } }) => p.geometry?.type)).toEqual([
+        undefined, 'LineString', 'Polygon', undefined,
+      ]);
+    });
+
     it('outputs table format', () => {
       const result = runCLI(['parse', `"${path.join(FIXTURES_DIR, 'sample.csv')}"`, '-f', 'table', '--quiet']);
       expect(result.exitCode).toBe(0);
@@ -171,12 +305,170 @@ describe('CLI Integration', () => {
       expect(points.length).toBe(9); // 4 CSV + 5 GPX
     });
 
+    it('reads XLSX workbooks and selects a sheet with --sheet', () => {
+      const workbook = `"${path.join(FIXTURES_DIR, 'volunteers.xlsx')}"`;
+      const all = runCLI(['parse', workbook, '--strict', '--quiet']);
+      expect(all.exitCode).toBe(1);
+      expect(all.stderr).toContain('Warning in volunteers.xlsx [Stops] line 5 "Lost Tannery": invalid coordinates');
+      expect(all.stderr).toContain('Warning in volunteers.xlsx [Read Me] line 1: no coordinate columns found in header');
+
+      const result = runCLI(['parse', workbook, '--sheet', 'Stops', '-f', 'csv', '--quiet']);
+      expect(result.exitCode).toBe(0);
+      const lines = result.stdout.trim().split('\n');
+      expect(lines).toHaveLength(4);
+      expect(lines[1]).toMatch(/^Smith Mill,42\.1701,-78\.7402,.*,volunteers\.xlsx\[Stops\]:2 \(A-1\)$/);
+    });
+
+    it('reads a directory of geotagged photos', () => {
+      const photos = `"${path.join(FIXTURES_DIR, 'photos')}"`;
+      const result = runCLI(['parse', photos, '--quiet']);
+      expect(result.exitCode).toBe(0);
+      const points = JSON.parse(result.stdout);
+      expect(points.map((p: { name: string }) => p.name)).toEqual(['IMG_2041.jpg', 'IMG_2042.heic']);
+
+      const strict = runCLI(['parse', photos, '--strict', '--quiet']);
+      expect(strict.exitCode).toBe(1);
+      expect(strict.stderr).toContain('Warning in IMG_2043.jpg feature 1 "IMG_2043.jpg": no GPS position in EXIF');
+    });
+
+    it('accepts CSV column mapping options', () => {
+      const result = runCLI([
+        'parse',
+        `"${path.join(FIXTURES_DIR, 'collab.csv')}"`,
+        '--lat-col', '"GPS Lat"',
+        '--lng-col', '"GPS Lng"',
+        '--name-col', 'Site',
+        '--quiet',
+      ]);
+      expect(result.exitCode).toBe(0);
+
+      const points = JSON.parse(result.stdout);
+      expect(points).toHaveLength(2);
+      expect(points[0].name).toBe('Smith Bros. Mill, Lower');
+    });
+
+    it('filters OSM extracts by tag expression', () => {
+      const result = runCLI([
+        'parse',
+        `"${path.join(FIXTURES_DIR, 'extract.osm')}"`,
+        '--osm-filter', '"historic=ruins|railway=abandoned"',
+        '--quiet',
+      ]);
+      expect(result.exitCode).toBe(0);
+
+      const points = JSON.parse(result.stdout);
+      expect(points.map((p: { name: string }) => p.name)).toEqual(['Smith Bros. Mill', 'Erie Branch']);
+    });
+
+    it('parses with the streaming parser when forced', () => {
+      const result = runCLI(['parse', `"${path.join(FIXTURES_DIR, 'sample.kml')}"`, '--stream', '--quiet']);
+      expect(result.exitCode).toBe(0);
+
+      const points = JSON.parse(result.stdout);
+      expect(points.length).toBe(5);
+    });
+
+    it('writes streamed points as they are parsed for line-delimited output', () => {
+      const input = `"${path.join(FIXTURES_DIR, 'sample.kml')}"`;
+      const streamed = runCLI(['parse', input, '--stream', '-f', 'ndjson', '--quiet']);
+      const collected = runCLI(['parse', input, '-f', 'ndjson', '--quiet']);
+      expect(streamed.exitCode).toBe(0);
+
+      const names = (stdout: string) => stdout.trimEnd().split('\n').map(line => JSON.parse(line).name);
+      expect(names(streamed.stdout)).toHaveLength(5);
+      expect(names(streamed.stdout)).toEqual(names(collected.stdout));
+    });
+
+    it('streams CSV with given columns and keeps going past a corrupt archive', () => {
+      const result = runCLI([
+        'parse', `"${path.join(FIXTURES_DIR, 'sample.kml')}"`, `"${path.join(FIXTURES_DIR, 'corrupt.kmz')}"`,
+        '--stream', '-f', 'csv', '--columns', 'name,lat,lng', '--quiet',
+      ]);
+      expect(result.exitCode).toBe(0);
+
+      const lines = result.stdout.trimEnd().split('\n');
+      expect(lines[0]).toBe('name,lat,lng');
+      expect(lines).toHaveLength(6);
+    });
+
     it('handles non-existent file gracefully', () => {
       const result = runCLI(['parse', '"nonexistent.kml"']);
       // CLI returns 0 but shows error in output, with empty array
       expect(result.exitCode).toBe(0);
       expect(result.stdout).toContain('[]');
     });
+
+    it('still parses the other files when an archive is corrupt', () => {
+      const result = runCLI([
+        'parse', `"${path.join(FIXTURES_DIR, 'sample.kml')}"`, `"${path.join(FIXTURES_DIR, 'corrupt.kmz')}"`, '--quiet',
+      ]);
+      expect(result.exitCode).toBe(0);
+      expect(JSON.parse(result.stdout)).toHaveLength(5);
+    });
+
+    it('parses renamed files by content and accepts --input-format', () => {
+      const detected = runCLI(['parse', `"${path.join(FIXTURES_DIR, 'kml-export.xml')}"`, '--quiet']);
+      expect(detected.exitCode).toBe(0);
+      expect(JSON.parse(detected.stdout)[0].name).toBe('Hidden Quarry');
+
+      const forced = runCLI(['parse', `"${path.join(FIXTURES_DIR, 'points.txt')}"`, '--input-format', 'csv', '--quiet']);
+      expect(forced.exitCode).toBe(0);
+      expect(JSON.parse(forced.stdout)).toHaveLength(2);
+    });
+
+    it('accepts --encoding and rejects unsupported encodings', () => {
+      const decoded = runCLI(['parse', `"${path.join(FIXTURES_DIR, 'excel-cp1252.csv')}"`, '--encoding', 'cp1252', '--quiet']);
+      expect(decoded.exitCode).toBe(0);
+      expect(JSON.parse(decoded.stdout)[0].name).toBe('Café Rouge');
+
+      const invalid = runCLI(['parse', `"${path.join(FIXTURES_DIR, 'sample.csv')}"`, '--encoding', 'ebcdic', '--quiet']);
+      expect(invalid.exitCode).toBe(1);
+      expect(invalid.stderr).toContain('Unsupported encoding: ebcdic');
+    });
+
+    it('rejects an unknown --input-format', () => {
+      const result = runCLI(['parse', `"${path.join(FIXTURES_DIR, 'sample.kml')}"`, '--input-format', 'dxf', '--quiet']);
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr).toContain('Invalid input format: dxf');
+    });
+
+    it('filters by time with --since and --until', () => {
+      const file = `"${path.join(FIXTURES_DIR, 'timeline.kml')}"`;
+      const recent = runCLI(['parse', file, '--since', '2024-06', '--quiet']);
+      expect(recent.exitCode).toBe(0);
+      expect(JSON.parse(recent.stdout).map((p: { name: string }) => p.name)).toEqual(['Letchworth Village', 'Gowanda Campus']);
+
+      const older = runCLI(['parse', file, '--until', '2023-12-31', '--quiet']);
+      expect(JSON.parse(older.stdout).map((p: { name: string }) => p.name)).toEqual(['Willard Asylum']);
+
+      const invalid = runCLI(['parse', file, '--since', 'last-trip', '--quiet']);
+      expect(invalid.exitCode).toBe(1);
+      expect(invalid.stderr).toContain('Invalid --since time: last-trip');
+    });
+
+    it('writes KML TimeStamp/TimeSpan and GPX time', () => {
+      const file = `"${path.join(FIXTURES_DIR, 'timeline.kml')}"`;
+      const kml = runCLI(['parse', file, '-f', 'kml', '--quiet']).stdout;
+      expect(kml).toContain('<TimeStamp><when>2023-09-02T18:30:00.000Z</when></TimeStamp>');
+      expect(kml).toContain('<TimeSpan><begin>2024-05</begin><end>2024-06-15</end></TimeSpan>');
+
+      const gpx = runCLI(['parse', `"${path.join(FIXTURES_DIR, 'sample.gpx')}"`, '-f', 'gpx', '--quiet']).stdout;
+      expect(gpx).toContain('<time>2024-01-15T12:00:00.000Z</time>');
+      expect(gpx).toContain('<ele>10</ele>');
+      expect(gpx).toContain('<sym>City</sym>');
+    });
+
+    it('fails with --strict when rows are skipped', () => {
+      const file = `"${path.join(FIXTURES_DIR, 'skipped-rows.csv')}"`;
+      const lenient = runCLI(['parse', file, '--quiet']);
+      expect(lenient.exitCode).toBe(0);
+      expect(JSON.parse(lenient.stdout)).toHaveLength(3);
+
+      const strict = runCLI(['parse', file, '--strict', '--quiet']);
+      expect(strict.exitCode).toBe(1);
+      expect(strict.stderr).toContain('Strict mode: 3 features skipped, 0 files failed');
+      expect(strict.stderr).toContain('Warning in skipped-rows.csv line 4 "Typo Mill": invalid coordinates');
+    });
   });
 
   // ============================================================================
@@ -242,6 +534,32 @@ describe('CLI Integration', () => {
     });
   });
 
+  // ============================================================================
+  // TRACKS COMMAND
+  // ============================================================================
+
+  describe('tracks command', () => {
+    it('lists tracks and routes as a table', () => {
+      const result = runCLI(['tracks', `"${path.join(FIXTURES_DIR, 'sample.gpx')}"`]);
+      expect(result.exitCode).toBe(0);
+
+      expect(result.stdout).toContain('Length km');
+      expect(result.stdout).toContain('Test Track');
+      expect(result.stdout).toContain('Test Route');
+    });
+
+    it('outputs track statistics as JSON', () => {
+      const result = runCLI(['tracks', `"${path.join(FIXTURES_DIR, 'track.gpx')}"`, '-f', 'json']);
+      expect(result.exitCode).toBe(0);
+
+      const tracks = JSON.parse(result.stdout.slice(result.stdout.indexOf('[')));
+      expect(tracks).toHaveLength(1);
+      expect(tracks[0].name).toBe('Scouting Trip');
+      expect(tracks[0].type).toBe('track');
+      expect(tracks[0].elevationGain).toBe(10);
+    });
+  });
+
   // ============================================================================
   // MERGE COMMAND
   // ============================================================================
@@ -261,6 +579,9 @@ describe('CLI Integration', () => {
       expect(fs.existsSync(outFile)).toBe(true);
       const geojson = JSON.parse(fs.readFileSync(outFile, 'utf-8'));
       expect(geojson.features.length).toBe(9);
+      expect(geojson.features[0].properties.sources).toEqual([
+        { file: 'sample.csv', format: 'csv', featureIndex: 0, line: 2 },
+      ]);
     });
 
     it('requires --output option', () => {
@@ -271,6 +592,21 @@ describe('CLI Integration', () => {
       expect(result.exitCode).toBe(1);
       expect(result.stderr).toContain('--output is required');
     });
+
+    it('fails with --strict when a file fails to parse', () => {
+      const outFile = path.join(TEMP_DIR, 'strict.geojson');
+      const result = runCLI([
+        'merge',
+        `"${path.join(FIXTURES_DIR, 'sample.csv')}"`,
+        '"nonexistent.kml"',
+        '-o', `"${outFile}"`,
+        '--strict',
+        '--quiet',
+      ]);
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr).toContain('Error in nonexistent.kml');
+      expect(fs.existsSync(outFile)).toBe(false);
+    });
   });
 
   // ============================================================================
@@ -304,6 +640,60 @@ describe('CLI Integration', () => {
       expect(points.length).toBeGreaterThan(0);
     });
 
+    it('keeps the sources of merged points', () => {
+      const result = runCLI([
+        'dedup',
+        `"${path.join(FIXTURES_DIR, 'sample.csv')}"`,
+        `"${path.join(FIXTURES_DIR, 'sample.csv')}"`,
+        '--quiet',
+      ]);
+      expect(result.exitCode).toBe(0);
+
+      const points = JSON.parse(result.stdout);
+      expect(points).toHaveLength(4);
+      expect(points[0].sources.map((s: { file: string }) => s.file)).toEqual(['sample.csv', 'sample.csv']);
+    });
+
+    it('keeps custom fields and merge results through KML output', () => {
+      const outFile = path.join(TEMP_DIR, 'dedup.kml');
+      const result = runCLI([
+        'dedup',
+        `"${path.join(FIXTURES_DIR, 'sample.kml')}"`,
+        `"${path.join(FIXTURES_DIR, 'sample.kml')}"`,
+        '-f', 'kml',
+        '--kml-folders', 'category',
+        '-o', `"${outFile}"`,
+        '--quiet',
+      ]);
+      expect(result.exitCode).toBe(0);
+      expect(fs.readFileSync(outFile, 'utf-8')).toContain('<Folder>\n      <name>historic</name>');
+
+      const reparsed = JSON.parse(runCLI(['parse', `"${outFile}"`, '--quiet']).stdout);
+      const mill = reparsed.find((p: { name: string }) => p.name === 'Old Mill');
+      expect(mill.category).toBe('historic');
+      expect(mill.rawMetadata).toMatchObject({ status: 'abandoned', year: '1850', duplicateCount: '1' });
+      expect(mill.rawMetadata.confidence).toBeDefined();
+
+      const invalid = runCLI(['dedup', `"${path.join(FIXTURES_DIR, 'sample.kml')}"`, '--kml-folders', 'county', '--quiet']);
+      expect(invalid.exitCode).toBe(1);
+      expect(invalid.stderr).toContain('Invalid --kml-folders key: county (expected category, state, source)');
+    });
+
+    it('writes metadata and merge results as CSV columns', () => {
+      const result = runCLI([
+        'dedup',
+        `"${path.join(FIXTURES_DIR, 'sample.kml')}"`,
+        `"${path.join(FIXTURES_DIR, 'sample.kml')}"`,
+        '-f', 'csv',
+        '--quiet',
+      ]);
+      expect(result.exitCode).toBe(0);
+
+      const lines = result.stdout.trim().split('\n');
+      expect(lines[0]).toBe('name,lat,lng,state,category,description,geometry,status,year,folderPath,duplicateCount,confidence,source');
+      expect(lines[1]).toBe('Old Mill,37.7749,-122.4194,CA,historic,Historic water mill from 1850,,abandoned,1850,Historic Sites,1,95,sample.kml:7; sample.kml:7');
+    });
+
     it('shows verbose output with -v', () => {
       const result = runCLI([
         'dedup',
@@ -361,6 +751,7 @@ describe('CLI Integration', () => {
       expect(fs.existsSync(outFile)).toBe(true);
       const content = fs.readFileSync(outFile, 'utf-8');
       expect(content).toContain('targetIndex,targetName,refIndex,refName');
+      expect(content.split('\n')[0]).toContain('targetSource,refSource');
     });
   });
 });
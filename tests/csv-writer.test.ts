@@ -0,0 +1,91 @@
+/**
+ * CSV Writer Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { writeCSV, writeCSVHeader, writeCSVRow } from '../src/csv-writer.js';
+import { point } from './helpers.js';
+
+describe('writeCSV', () => {
+  it('adds the union of metadata fields as columns, in order of first appearance', () => {
+    const csv = writeCSV([
+      point('Smith Mill', { rawMetadata: { status: 'ruins', year: 1850 } }),
+      point('Erie Depot', { rawMetadata: { owner: 'Erie RR', status: 'standing' } }),
+    ]);
+
+    expect(csv.split('\n')).toEqual([
+      'name,lat,lng,state,category,description,status,year,owner',
+      'Smith Mill,42.1,-78.7,NY,,,ruins,1850,',
+      'Erie Depot,42.1,-78.7,NY,,,standing,,Erie RR',
+    ]);
+  });
+
+  it('flattens nested values to dotted names', () => {
+    const csv = writeCSV([point('Erie Depot', {
+      rawMetadata: {
+        osmand: { color: '#b4d00d0d', address: { city: 'Salamanca' } },
+        tags: ['rail', 'depot'],
+        attributes: [{ name: 'Parking', positive: true }],
+      },
+    })]);
+
+    const [header, row] = csv.split('\n');
+    expect(header).toBe('name,lat,lng,state,category,description,osmand.color,osmand.address.city,tags,attributes');
+    expect(row).toBe('Erie Depot,42.1,-78.7,NY,,,#b4d00d0d,Salamanca,rail; depot,"[{""name"":""Parking"",""positive"":true}]"');
+  });
+
+  it('leaves out metadata that repeats a point column and prefixes the rest', () => {
+    const csv = writeCSV([
+      point('Smith Mill', { rawMetadata: { name: 'Smith Mill', State: 'NY', category: 'mill' } }),
+      point('Erie Depot', { category: 'depot', rawMetadata: { name: 'Erie Depot', category: 'station' } }),
+    ]);
+
+    expect(csv.split('\n')[0]).toBe('name,lat,lng,state,category,description,metadata.category');
+    expect(csv.split('\n')[2]).toBe('Erie Depot,42.1,-78.7,NY,depot,,station');
+  });
+
+  it('writes dedup fields, times and sources', () => {
+    const csv = writeCSV([{
+      ...point('Smith Mill', { time: '2024-05-03', sources: [{ file: 'a.kml', format: 'kml', line: 7 }, { file: 'b.csv', format: 'csv', line: 2 }] }),
+      akaNames: ['Smith Grist Mill', 'Old Mill'],
+      duplicateCount: 1,
+      confidence: 92,
+    }]);
+
+    expect(csv.split('\n')).toEqual([
+      'name,lat,lng,state,category,description,time,akaNames,duplicateCount,confidence,source',
+      'Smith Mill,42.1,-78.7,NY,,,2024-05-03,Smith Grist Mill; Old Mill,1,92,a.kml:7; b.csv:2',
+    ]);
+  });
+
+  it('selects and orders columns, including metadata and unknown ones', () => {
+    const csv = writeCSV(
+      [point('Smith Mill', { rawMetadata: { name: 'Smith Mill', osmand: { color: 'red' } } })],
+      { columns: ['osmand.color', 'name', 'metadata.name', 'wkt', 'missing'] }
+    );
+
+    expect(csv.split('\n')).toEqual([
+      'osmand.color,name,metadata.name,wkt,missing',
+      'red,Smith Mill,Smith Mill,POINT (-78.7 42.1),',
+    ]);
+  });
+
+  it('starts with a UTF-8 byte order mark when asked', () => {
+    expect(writeCSV([point('Mill')], { bom: true }).startsWith('\uFEFFname,')).toBe(true);
+    expect(writeCSV([point('Mill')]).startsWith('name,')).toBe(true);
+  });
+
+  it('quotes cells with commas, quotes and line breaks', () => {
+    const csv = writeCSV([point('Mill, "Old"', { description: 'Line 1\r\nLine 2' })]);
+
+    expect(csv).toContain('\n"Mill, ""Old""",42.1,-78.7,NY,,"Line 1\r\nLine 2"');
+  });
+
+  it('writes the same lines one row at a time', () => {
+    const points = [point('Smith Mill', { rawMetadata: { status: 'ruins' } }), point('Erie, Branch')];
+    const columns = ['name', 'status', 'lat'];
+
+    expect([writeCSVHeader(columns, true), ...points.map(p => writeCSVRow(p, columns))].join('\n'))
+      .toBe(writeCSV(points, { columns, bom: true }));
+  });
+});
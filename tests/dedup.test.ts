@@ -214,6 +214,21 @@ describe('generateDedupedPoints', () => {
     expect(deduped[0].description).toContain('First desc');
     expect(deduped[0].description).toContain('Second desc');
   });
+
+  it('collects the sources of every member', () => {
+    const points: ParsedMapPoint[] = [
+      { ...makePoint('Factory', 43.0, -77.0), sources: [{ file: 'a.kml', format: 'kml', featureIndex: 4, id: 'pm-4' }] },
+      { ...makePoint('Factory', 43.0001, -77.0001), sources: [{ file: 'b.csv', format: 'csv', featureIndex: 0, line: 2 }] },
+    ];
+
+    const result = deduplicatePoints(points);
+    const deduped = generateDedupedPoints(points, result);
+
+    expect(deduped[0].sources).toEqual([
+      { file: 'a.kml', format: 'kml', featureIndex: 4, id: 'pm-4' },
+      { file: 'b.csv', format: 'csv', featureIndex: 0, line: 2 },
+    ]);
+  });
 });
 
 describe('config options', () => {
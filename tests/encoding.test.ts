@@ -0,0 +1,81 @@
+/**
+ * Encoding Tests
+ *
+ * Tests encoding detection and decoding. Parsing of the encoded fixtures
+ * is covered in parser.test.ts.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Readable } from 'stream';
+import { decodeText, decodeTextStream, detectEncoding, resolveEncoding } from '../src/encoding.js';
+
+const cp1252 = (text: string) => Buffer.from(new Uint8Array([...text].map(c => ({ 'é': 0xe9, '’': 0x92 }[c] ?? c.charCodeAt(0)))));
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+describe('detectEncoding', () => {
+  it('reads byte order marks', () => {
+    expect(detectEncoding(Buffer.from([0xef, 0xbb, 0xbf, 0x61]))).toBe('utf-8');
+    expect(detectEncoding(Buffer.from([0xff, 0xfe, 0x61, 0x00]))).toBe('utf-16le');
+    expect(detectEncoding(Buffer.from([0xfe, 0xff, 0x00, 0x61]))).toBe('utf-16be');
+  });
+
+  it('recognizes BOM-less UTF-16 by its zero bytes', () => {
+    expect(detectEncoding(Buffer.from('name,lat,lng\n', 'utf16le'))).toBe('utf-16le');
+  });
+
+  it('honors the XML encoding declaration', () => {
+    expect(detectEncoding(Buffer.from('<?xml version="1.0" encoding="ISO-8859-1"?><kml/>'))).toBe('windows-1252');
+    expect(detectEncoding(Buffer.from("<?xml version='1.0' encoding='windows-1251'?><kml/>"))).toBe('windows-1251');
+  });
+
+  it('falls back to Windows-1252 for invalid UTF-8', () => {
+    expect(detectEncoding(Buffer.from('Café', 'utf-8'))).toBe('utf-8');
+    expect(detectEncoding(cp1252('Café'))).toBe('windows-1252');
+  });
+
+  it('ignores a multi-byte sequence cut off at the end of a partial sample', () => {
+    const cut = Buffer.from('Café', 'utf-8').subarray(0, 4);
+    expect(detectEncoding(cut, true)).toBe('utf-8');
+  });
+});
+
+describe('resolveEncoding', () => {
+  it('normalizes common labels', () => {
+    expect(resolveEncoding('UTF8')).toBe('utf-8');
+    expect(resolveEncoding('cp1252')).toBe('windows-1252');
+    expect(resolveEncoding('latin1')).toBe('windows-1252');
+  });
+
+  it('throws for unsupported encodings', () => {
+    expect(() => resolveEncoding('ebcdic')).toThrow('Unsupported encoding: ebcdic');
+  });
+});
+
+// ============================================================================
+// DECODING
+// ============================================================================
+
+describe('decodeText', () => {
+  it('decodes legacy text and strips byte order marks', () => {
+    expect(decodeText(cp1252('O’Brien’s Café'))).toBe('O’Brien’s Café');
+    expect(decodeText(Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('Café', 'utf16le')]))).toBe('Café');
+  });
+
+  it('uses an explicit encoding', () => {
+    expect(decodeText(Buffer.from([0xc7, 0xe0, 0xe2, 0xee, 0xe4]), 'windows-1251')).toBe('Завод');
+  });
+});
+
+describe('decodeTextStream', () => {
+  it('decodes characters split across chunks', async () => {
+    const bytes = Buffer.from('Zürich, Café', 'utf-8');
+    const chunks = [...bytes].map(b => Buffer.from([b]));
+    let text = '';
+    for await (const chunk of decodeTextStream(Readable.from(chunks))) text += chunk;
+
+    expect(text).toBe('Zürich, Café');
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * EXIF Reader Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { readExif, isPhotoHeader } from '../src/exif.js';
+
+const PHOTOS_DIR = path.join(__dirname, 'fixtures', 'photos');
+
+function readPhoto(name: string): Buffer {
+  return fs.readFileSync(path.join(PHOTOS_DIR, name));
+}
+
+describe('isPhotoHeader', () => {
+  it('recognizes JPEG and HEIF files', () => {
+    expect(isPhotoHeader(readPhoto('IMG_2041.jpg'))).toBe(true);
+    expect(isPhotoHeader(readPhoto('IMG_2042.heic'))).toBe(true);
+    expect(isPhotoHeader(Buffer.from('<?xml version="1.0"?>'))).toBe(false);
+  });
+});
+
+describe('readExif', () => {
+  it('reads big-endian TIFF tags from a JPEG APP1 segment', () => {
+    const exif = readExif(readPhoto('IMG_2041.jpg'));
+
+    expect(exif?.tags).toMatchObject({
+      Make: 'Apple',
+      Model: 'iPhone 13',
+      Orientation: 1,
+      DateTimeOriginal: '2024:05:03 14:22:10',
+      OffsetTimeOriginal: '-04:00',
+      ISOSpeedRatings: 50,
+      PixelXDimension: 4032,
+    });
+    expect(exif?.tags.ExposureTime).toBeCloseTo(1 / 120);
+    expect(exif?.gps).toEqual({ latitude: 42.1701, longitude: -78.7402, altitude: 431.25, direction: 212.5 });
+  });
+
+  it('reads little-endian TIFF from a HEIF Exif item', () => {
+    const exif = readExif(readPhoto('IMG_2042.heic'));
+
+    expect(exif?.tags.Model).toBe('SM-S911U');
+    expect(exif?.gps).toEqual({
+      latitude: 42.8864,
+      longitude: -78.8784,
+      altitude: -2.5,
+      time: '2024-05-03T14:41:05.000Z',
+    });
+  });
+
+  it('treats a 0,0 position as no fix', () => {
+    const exif = readExif(readPhoto('IMG_2043.jpg'));
+
+    expect(exif?.tags.Make).toBe('Canon');
+    expect(exif?.gps).toBeNull();
+  });
+
+  it('returns null without an EXIF block', () => {
+    expect(readExif(Buffer.from([0xff, 0xd8, 0xff, 0xd9]))).toBeNull();
+    expect(readExif(Buffer.from('not a photo'))).toBeNull();
+  });
+});
@@ -4,7 +4,18 @@ import {
   isWithinRadius,
   getBoundingBox,
   calculateCentroid,
+  calculatePolygonCentroid,
+  calculatePointOnSurface,
+  calculateRepresentativePoint,
+  ringContains,
   isValidCoordinate,
+  calculateTrackStats,
+  parseCoordinateValue,
+  parseCoordinateString,
+  utmToLatLng,
+  mgrsToLatLng,
+  unproject,
+  parseGoogleMapsUrl,
 } from '../src/geo-utils.js';
 
 describe('haversineDistance', () => {
@@ -107,6 +118,51 @@ describe('calculateCentroid', () => {
   });
 });
 
+describe('polygon centroids', () => {
+  // Unit square at (10, 20), with extra vertices crowded along its bottom edge
+  const square = [[10, 20], [10.25, 20], [10.5, 20], [10.75, 20], [11, 20], [11, 21], [10, 21], [10, 20]];
+  // L-shaped footprint: two 1-wide arms of length 10
+  const lShape = [[0, 0], [10, 0], [10, 1], [1, 1], [1, 10], [0, 10], [0, 0]];
+
+  it('is not pulled toward densely digitized edges', () => {
+    const [lat, lng] = calculatePolygonCentroid([[square]]);
+    expect(lat).toBeCloseTo(20.5, 10);
+    expect(lng).toBeCloseTo(10.5, 10);
+  });
+
+  it('subtracts holes regardless of winding', () => {
+    const hole = [[10, 20], [10.5, 20], [10.5, 21], [10, 21], [10, 20]];
+    const [lat, lng] = calculatePolygonCentroid([[square, hole]]);
+    expect(lat).toBeCloseTo(20.5, 10);
+    expect(lng).toBeCloseTo(10.75, 10);
+  });
+
+  it('weights multipolygon parts by area', () => {
+    const big = [[0, 0], [3, 0], [3, 1], [0, 1], [0, 0]];
+    const small = [[10, 0], [11, 0], [11, 1], [10, 1], [10, 0]];
+    const [, lng] = calculatePolygonCentroid([[big], [small]]);
+    expect(lng).toBeCloseTo((3 * 1.5 + 1 * 10.5) / 4, 10);
+  });
+
+  it('falls back to the vertex average for zero-area rings', () => {
+    expect(calculatePolygonCentroid([[[[0, 0], [2, 2], [0, 0]]]])).toEqual([1, 1]);
+  });
+
+  it('finds a point on the surface of concave shapes', () => {
+    const [lat, lng] = calculatePointOnSurface([[lShape]]);
+    expect(ringContains(lShape, [lng, lat])).toBe(true);
+  });
+
+  it('uses the centroid as representative point only when it is inside', () => {
+    const [centroidLat, centroidLng] = calculatePolygonCentroid([[lShape]]);
+    expect(ringContains(lShape, [centroidLng, centroidLat])).toBe(false);
+
+    const [lat, lng] = calculateRepresentativePoint([[lShape]]);
+    expect(ringContains(lShape, [lng, lat])).toBe(true);
+    expect(calculateRepresentativePoint([[square]])).toEqual(calculatePolygonCentroid([[square]]));
+  });
+});
+
 describe('isValidCoordinate', () => {
   it('accepts valid coordinates', () => {
     expect(isValidCoordinate(0, 0)).toBe(true);
@@ -130,3 +186,180 @@ describe('isValidCoordinate', () => {
     expect(isValidCoordinate(0, NaN)).toBe(false);
   });
 });
+
+describe('unproject', () => {
+  const base = { latitudeOfOrigin: 0, scaleFactor: 1, falseEasting: 0, falseNorthing: 0, unit: 1 };
+
+  it('inverts Lambert Conformal Conic in US survey feet', () => {
+    // EPSG guidance note 7-2 example: NAD27 / Texas South Central
+    const { lat, lng } = unproject(2963503.91, 254759.80, {
+      ...base,
+      method: 'lambert_conformal_conic',
+      ellipsoid: { a: 6378206.4, f: 1 / 294.9786982 },
+      centralMeridian: -99,
+      latitudeOfOrigin: 27 + 50 / 60,
+      standardParallel1: 28 + 23 / 60,
+      standardParallel2: 30 + 17 / 60,
+      falseEasting: 2000000,
+      unit: 0.3048006096012192,
+    });
+    expect(lat).toBeCloseTo(28.5, 6);
+    expect(lng).toBeCloseTo(-96, 6);
+  });
+
+  it('inverts Albers equal-area', () => {
+    // Snyder worked example (Clarke 1866)
+    const { lat, lng } = unproject(1885472.7, 1535925.0, {
+      ...base,
+      method: 'albers',
+      ellipsoid: { a: 6378206.4, f: 1 / 294.9786982 },
+      centralMeridian: -96,
+      latitudeOfOrigin: 23,
+      standardParallel1: 29.5,
+      standardParallel2: 45.5,
+    });
+    expect(lat).toBeCloseTo(35, 5);
+    expect(lng).toBeCloseTo(-75, 5);
+  });
+
+  it('inverts spherical Web Mercator', () => {
+    const { lat, lng } = unproject(-11169055.58, 2800000.0, {
+      ...base,
+      method: 'mercator',
+      ellipsoid: { a: 6378137, f: 0 },
+      centralMeridian: 0,
+    });
+    expect(lat).toBeCloseTo(24.381787, 5);
+    expect(lng).toBeCloseTo(-100.333333, 5);
+  });
+});
+
+describe('calculateTrackStats', () => {
+  it('sums length within segments only', () => {
+    const stats = calculateTrackStats([
+      [
+        { lat: 43.0, lng: -77.0, ele: null, time: null },
+        { lat: 43.001, lng: -77.0, ele: null, time: null },
+      ],
+      [
+        { lat: 44.0, lng: -77.0, ele: null, time: null },
+        { lat: 44.001, lng: -77.0, ele: null, time: null },
+      ],
+    ]);
+
+    expect(stats.pointCount).toBe(4);
+    expect(stats.segmentCount).toBe(2);
+    expect(stats.lengthMeters).toBeGreaterThan(220);
+    expect(stats.lengthMeters).toBeLessThan(225);
+    expect(stats.bounds).toEqual({ minLat: 43.0, maxLat: 44.001, minLng: -77.0, maxLng: -77.0 });
+  });
+
+  it('reports null elevation and time stats when data is missing', () => {
+    const stats = calculateTrackStats([[{ lat: 43.0, lng: -77.0, ele: null, time: null }]]);
+
+    expect(stats.elevationGain).toBeNull();
+    expect(stats.elevationLoss).toBeNull();
+    expect(stats.startTime).toBeNull();
+    expect(stats.movingDurationSeconds).toBeNull();
+  });
+
+  it('accumulates elevation gain and loss', () => {
+    const stats = calculateTrackStats([[
+      { lat: 43.0, lng: -77.0, ele: 100, time: null },
+      { lat: 43.001, lng: -77.0, ele: 130, time: null },
+      { lat: 43.002, lng: -77.0, ele: 110, time: null },
+    ]]);
+
+    expect(stats.elevationGain).toBe(30);
+    expect(stats.elevationLoss).toBe(20);
+  });
+
+  it('throws on empty track', () => {
+    expect(() => calculateTrackStats([])).toThrow();
+  });
+});
+
+describe('parseCoordinateValue', () => {
+  it('parses decimal, DMS and DDM notations', () => {
+    expect(parseCoordinateValue('-78.74')).toBe(-78.74);
+    expect(parseCoordinateValue(`42°10'12"N`)).toBeCloseTo(42.17, 6);
+    expect(parseCoordinateValue('W 78 44.4')).toBeCloseTo(-78.74, 6);
+  });
+
+  it('parses decimals without digits before or after the point', () => {
+    expect(parseCoordinateValue('.5')).toBe(0.5);
+    expect(parseCoordinateValue('-.5')).toBe(-0.5);
+    expect(parseCoordinateValue('42.')).toBe(42);
+    expect(parseCoordinateValue(`-.5°`)).toBe(-0.5);
+  });
+
+  it('parses exponent notation from spreadsheet exports', () => {
+    expect(parseCoordinateValue('4.21e1')).toBeCloseTo(42.1, 10);
+    expect(parseCoordinateValue('-7.87E+1')).toBeCloseTo(-78.7, 10);
+    expect(parseCoordinateValue('5e-1')).toBe(0.5);
+    expect(parseCoordinateValue('4.21e')).toBeNull();
+  });
+
+  it('rejects hemispheres on the wrong axis', () => {
+    expect(parseCoordinateValue('N42', 'lng')).toBeNull();
+    expect(parseCoordinateValue('E78', 'lat')).toBeNull();
+  });
+});
+
+describe('parseCoordinateString', () => {
+  it('parses decimal and DMS pairs', () => {
+    expect(parseCoordinateString('42.17, -78.74')).toEqual({ lat: 42.17, lng: -78.74 });
+    const dms = parseCoordinateString(`42°10'12"N 78°44'24"W`);
+    expect(dms?.lat).toBeCloseTo(42.17, 6);
+    expect(dms?.lng).toBeCloseTo(-78.74, 6);
+  });
+
+  it('swaps lng/lat pairs when the order is unambiguous', () => {
+    expect(parseCoordinateString('-120.5 37.25')).toEqual({ lat: 37.25, lng: -120.5 });
+  });
+
+  it('parses UTM and MGRS references', () => {
+    const utm = parseCoordinateString('18T 583960 4507523');
+    expect(utm?.lat).toBeCloseTo(40.714, 3);
+    expect(utm?.lng).toBeCloseTo(-74.006, 3);
+
+    const mgrs = parseCoordinateString('18S UJ 23487 06483');
+    expect(mgrs?.lat).toBeCloseTo(38.8895, 3);
+    expect(mgrs?.lng).toBeCloseTo(-77.0352, 3);
+  });
+
+  it('returns null for text that is not a coordinate', () => {
+    expect(parseCoordinateString('hello')).toBeNull();
+    expect(parseCoordinateString('12')).toBeNull();
+    expect(parseCoordinateString('1, 2, 3')).toBeNull();
+  });
+});
+
+describe('parseGoogleMapsUrl', () => {
+  it('reads place pins, viewports and search queries', () => {
+    expect(parseGoogleMapsUrl('https://www.google.com/maps/place/X/data=!3d42.17!4d-78.74'))
+      .toEqual({ lat: 42.17, lng: -78.74 });
+    expect(parseGoogleMapsUrl('https://www.google.com/maps/@42.17,-78.74,15z'))
+      .toEqual({ lat: 42.17, lng: -78.74 });
+    expect(parseGoogleMapsUrl('https://maps.google.com/?q=42.17%2C-78.74'))
+      .toEqual({ lat: 42.17, lng: -78.74 });
+  });
+
+  it('returns null for URLs without coordinates', () => {
+    expect(parseGoogleMapsUrl('http://maps.google.com/?cid=123')).toBeNull();
+  });
+});
+
+describe('utmToLatLng / mgrsToLatLng', () => {
+  it('handles the southern hemisphere', () => {
+    // Sydney Opera House: 56H 334873 6252266
+    const { lat, lng } = utmToLatLng(56, false, 334873, 6252266);
+    expect(lat).toBeCloseTo(-33.8568, 3);
+    expect(lng).toBeCloseTo(151.2153, 3);
+  });
+
+  it('returns null for malformed MGRS', () => {
+    expect(mgrsToLatLng('18SUJ234')).toBeNull();
+    expect(mgrsToLatLng('99ZZZ1234')).toBeNull();
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * GPX Writer Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { writeGPX } from '../src/gpx-writer.js';
+import { parseMapFile, type ParsedMapPoint } from '../src/parser.js';
+import { point, useTempDir } from './helpers.js';
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+const TEMP_DIR = useTempDir('mapsh-pit-gpx-writer-tests');
+
+async function reparse(gpx: string, name: string): Promise<ParsedMapPoint[]> {
+  const file = path.join(TEMP_DIR, name);
+  fs.writeFileSync(file, gpx);
+  return (await parseMapFile(file)).points;
+}
+
+describe('writeGPX', () => {
+  it('writes waypoint metadata as native elements in schema order', () => {
+    const gpx = writeGPX([point('Smith Mill', {
+      description: 'Roof gone',
+      category: 'Ruins',
+      time: '2024-05-03',
+      rawMetadata: { elevation: 431.5, link: 'https://example.com/?a=1&b=2', symbol: 'Building' },
+    })]);
+
+    expect(gpx).toContain(`  <wpt lat="42.1" lon="-78.7">
+    <ele>431.5</ele>
+    <time>2024-05-03T00:00:00.000Z</time>
+    <name>Smith Mill</name>
+    <desc>Roof gone</desc>
+    <link href="https://example.com/?a=1&amp;b=2"/>
+    <sym>Building</sym>
+    <type>Ruins</type>
+  </wpt>`);
+    expect(gpx).not.toContain('<extensions>');
+    expect(gpx).not.toContain('xmlns:mapsh-pit');
+  });
+
+  it('writes other metadata as mapsh-pit fields', () => {
+    const gpx = writeGPX([point('Smith Mill', {
+      rawMetadata: { status: 'ruins', year: 1850, tags: ['mill'], elevation: 'unknown' },
+    })]);
+
+    expect(gpx).toContain('xmlns:mapsh-pit="urn:mapsh-pit:gpx-extensions:1"');
+    expect(gpx).toContain('<mapsh-pit:field name="status">ruins</mapsh-pit:field>');
+    expect(gpx).toContain('<mapsh-pit:field name="year" type="json">1850</mapsh-pit:field>');
+    expect(gpx).toContain('<mapsh-pit:field name="tags" type="json">[&quot;mill&quot;]</mapsh-pit:field>');
+    expect(gpx).toContain('<mapsh-pit:field name="elevation">unknown</mapsh-pit:field>');
+    expect(gpx).not.toContain('<ele>');
+  });
+
+  it('writes routes as <rte> before tracks, with elevations and start/end times', () => {
+    const gpx = writeGPX([
+      point('Loop', {
+        category: 'track',
+        geometry: { type: 'MultiLineString', coordinates: [[[-78.7, 42.1, 400], [-78.8, 42.2, 410]], [[-78.9, 42.3], [-79, 42.4]]] },
+        timeStart: '2024-05-03T14:00:00.000Z',
+        timeEnd: '2024-05-03T16:30:00.000Z',
+      }),
+      point('Drive', {
+        category: 'route',
+        geometry: { type: 'LineString', coordinates: [[-78.7, 42.1], [-78.5, 42.3]] },
+      }),
+    ]);
+
+    expect(gpx.indexOf('<rte>')).toBeLessThan(gpx.indexOf('<trk>'));
+    expect(gpx).toContain('<rtept lat="42.1" lon="-78.7"/>');
+    expect(gpx).toContain('<trkpt lat="42.1" lon="-78.7"><ele>400</ele><time>2024-05-03T14:00:00.000Z</time></trkpt>');
+    expect(gpx).toContain('<trkpt lat="42.4" lon="-79"><time>2024-05-03T16:30:00.000Z</time></trkpt>');
+    expect(gpx.match(/<trkseg>/g)).toHaveLength(2);
+  });
+});
+
+describe('GPX round trip', () => {
+  for (const fixture of ['sample.gpx', 'extensions.gpx']) {
+    it(`keeps every parsed field of ${fixture}`, async () => {
+      const original = (await parseMapFile(path.join(FIXTURES_DIR, fixture))).points;
+      const reparsed = await reparse(writeGPX(original), fixture);
+
+      const strip = ({ sources, ...p }: ParsedMapPoint) => p;
+      expect(reparsed.map(strip)).toEqual(original.map(strip));
+    });
+  }
+
+  it('restores mapsh-pit fields with their types', async () => {
+    const rawMetadata = { status: 'ruins', year: 1850, visited: true, tags: ['mill', 'dam'], elevation: 431.5 };
+    const [wpt, trk] = await reparse(writeGPX([
+      point('Smith Mill', { rawMetadata }),
+      point('Race', {
+        category: 'track',
+        rawMetadata: { surface: 'gravel', pointCount: 2 },
+        geometry: { type: 'LineString', coordinates: [[-78.7, 42.1], [-78.8, 42.2]] },
+      }),
+    ]), 'fields.gpx');
+
+    expect(wpt.rawMetadata).toEqual(rawMetadata);
+    expect(trk.rawMetadata).toMatchObject({ surface: 'gravel', pointCount: 2 });
+  });
+});
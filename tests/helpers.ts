@@ -0,0 +1,43 @@
+/**
+ * Shared Test Helpers
+ */
+
+import { beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { ParsedMapPoint } from '../src/parser.js';
+
+/**
+ * A point in Allegany County, NY with no category or metadata
+ */
+export function point(name: string, extra: Partial<ParsedMapPoint> = {}): ParsedMapPoint {
+  return {
+    name,
+    description: null,
+    lat: 42.1,
+    lng: -78.7,
+    state: 'NY',
+    category: null,
+    rawMetadata: null,
+    ...extra,
+  };
+}
+
+/**
+ * Temporary directory created before the tests of the calling file (or
+ * describe block) and removed after them
+ */
+export function useTempDir(name: string): string {
+  const dir = path.join(os.tmpdir(), name);
+
+  beforeAll(() => {
+    fs.mkdirSync(dir, { recursive: true });
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  return dir;
+}
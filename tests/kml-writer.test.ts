@@ -0,0 +1,94 @@
+/**
+ * KML Writer Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { writeKML } from '../src/kml-writer.js';
+import { parseMapFile, type ParsedMapPoint } from '../src/parser.js';
+import { point, useTempDir } from './helpers.js';
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+
+describe('writeKML', () => {
+  it('writes rawMetadata as ExtendedData', () => {
+    const kml = writeKML([point('Smith Mill', {
+      rawMetadata: { status: 'ruins', year: 1850, visited: true, tags: ['mill', 'dam'], empty: null },
+    })]);
+
+    expect(kml).toContain('<Data name="status"><value>ruins</value></Data>');
+    expect(kml).toContain('<Data name="year"><value>1850</value></Data>');
+    expect(kml).toContain('<Data name="visited"><value>true</value></Data>');
+    expect(kml).toContain('<Data name="tags"><value>[&quot;mill&quot;,&quot;dam&quot;]</value></Data>');
+    expect(kml).not.toContain('name="empty"');
+  });
+
+  it('writes the merge fields of deduplicated points', () => {
+    const kml = writeKML([{
+      ...point('Smith Mill'),
+      memberIndices: [0, 3],
+      akaNames: ['Smiths Mill'],
+      duplicateCount: 1,
+      confidence: 95,
+    }]);
+
+    expect(kml).toContain('<Data name="akaNames"><value>[&quot;Smiths Mill&quot;]</value></Data>');
+    expect(kml).toContain('<Data name="duplicateCount"><value>1</value></Data>');
+    expect(kml).toContain('<Data name="confidence"><value>95</value></Data>');
+  });
+
+  it('generates one colored style per category', () => {
+    const kml = writeKML([
+      point('A', { category: 'mill' }),
+      point('B', { category: 'bridge' }),
+      point('C', { category: 'mill' }),
+      point('D'),
+    ]);
+
+    expect(kml.match(/<Style id="mill">/g)).toHaveLength(1);
+    expect(kml).toContain('<IconStyle><color>ff4b19e6</color><Icon><href>http://maps.google.com/mapfiles/kml/paddle/wht-blank.png</href></Icon></IconStyle>');
+    expect(kml).toContain('<Style id="bridge">\n      <IconStyle><color>ff4bb43c</color>');
+    expect(kml.match(/<styleUrl>#mill<\/styleUrl>/g)).toHaveLength(2);
+    expect(kml.match(/<styleUrl>/g)).toHaveLength(3);
+  });
+
+  it('groups placemarks into folders, leaving points without a value at the top level', () => {
+    const points = [
+      point('A', { state: 'PA' }),
+      point('B', { state: 'NY' }),
+      point('C', { state: 'PA' }),
+      point('D', { state: null }),
+    ];
+    const kml = writeKML(points, { folderBy: 'state', name: 'Trip' });
+
+    expect(kml).toContain('<name>Trip</name>');
+    const folders = [...kml.matchAll(/<Folder>\s*<name>([^<]+)<\/name>([\s\S]*?)<\/Folder>/g)];
+    expect(folders.map(m => m[1])).toEqual(['PA', 'NY']);
+    expect([...folders[0][2].matchAll(/<name>([^<]+)<\/name>/g)].map(m => m[1])).toEqual(['A', 'C']);
+    expect(kml.lastIndexOf('<name>D</name>')).toBeGreaterThan(kml.lastIndexOf('</Folder>'));
+  });
+
+  it('groups by source file', () => {
+    const kml = writeKML([
+      point('A', { sources: [{ file: 'north.kml', format: 'kml' }] }),
+      point('B', { sources: [{ file: 'south.csv', format: 'csv' }, { file: 'north.kml', format: 'kml' }] }),
+    ], { folderBy: 'source' });
+
+    expect([...kml.matchAll(/<Folder>\s*<name>([^<]+)<\/name>/g)].map(m => m[1])).toEqual(['north.kml', 'south.csv']);
+  });
+});
+
+describe('KML round trip', () => {
+  const TEMP_DIR = useTempDir('mapsh-pit-kml-writer-tests');
+
+  it('keeps names, categories, metadata and times', async () => {
+    const original = await parseMapFile(path.join(FIXTURES_DIR, 'sample.kml'));
+    const outFile = path.join(TEMP_DIR, 'sample.kml');
+    fs.writeFileSync(outFile, writeKML(original.points));
+    const reparsed = await parseMapFile(outFile);
+
+    const summary = (p: ParsedMapPoint) => [p.name, p.description, p.category, p.rawMetadata, p.geometry, p.time];
+    expect(reparsed.points.map(summary)).toEqual(original.points.map(summary));
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * KMZ Writer Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { pathToFileURL } from 'url';
+import * as unzipper from 'unzipper';
+import { writeKMZ, readKMZIcons } from '../src/kmz-writer.js';
+import { parseMapFile, type ParsedMapPoint } from '../src/parser.js';
+import { point, useTempDir } from './helpers.js';
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+const TEMP_DIR = useTempDir('mapsh-pit-kmz-writer-tests');
+
+async function readArchive(kmz: Buffer): Promise<Map<string, Buffer>> {
+  const directory = await unzipper.Open.buffer(kmz);
+  const entries = new Map<string, Buffer>();
+  for (const file of directory.files) entries.set(file.path, await file.buffer());
+  return entries;
+}
+
+/**
+ * Width, height and the RGBA pixel at (x, y) of an unfiltered 8-bit RGBA PNG
+ */
+function readPNGPixel(png: Buffer, x: number, y: number): { width: number; height: number; rgba: number[] } {
+  const width = png.readUInt32BE(16);
+  const height = png.readUInt32BE(20);
+  const idatLength = png.readUInt32BE(33);
+  const raw = zlib.inflateSync(png.subarray(41, 41 + idatLength));
+  const offset = y * (width * 4 + 1) + 1 + x * 4;
+  return { width, height, rgba: [...raw.subarray(offset, offset + 4)] };
+}
+
+describe('writeKMZ', () => {
+  it('puts doc.kml first and bundles local icons', async () => {
+    const { points } = await parseMapFile(path.join(FIXTURES_DIR, 'local-icons.kml'));
+    const entries = await readArchive(writeKMZ(points, { iconDirs: [FIXTURES_DIR] }));
+
+    expect([...entries.keys()]).toEqual(['doc.kml', 'files/mill.png']);
+    expect(entries.get('files/mill.png')).toEqual(fs.readFileSync(path.join(FIXTURES_DIR, 'icons', 'mill.png')));
+
+    const kml = entries.get('doc.kml')!.toString('utf-8');
+    expect(kml).toContain('<Icon><href>files/mill.png</href></Icon>');
+    // Missing files keep their href
+    expect(kml).toContain('<Icon><href>icons/dam.png</href></Icon>');
+  });
+
+  it('never bundles files outside the input directories', async () => {
+    const inputDir = path.join(TEMP_DIR, 'inputs');
+    fs.mkdirSync(inputDir, { recursive: true });
+    const secret = path.join(TEMP_DIR, 'secret.png');
+    fs.writeFileSync(secret, 'not for sharing');
+    fs.writeFileSync(path.join(inputDir, 'notes.txt'), 'not an image');
+    fs.symlinkSync(secret, path.join(inputDir, 'link.png'));
+
+    const hrefs = ['../secret.png', secret, pathToFileURL(secret).href, 'notes.txt', 'link.png'];
+    const points = hrefs.map((iconHref, i) => point(`P${i}`, { style: { id: `s${i}`, iconHref } }));
+    const entries = await readArchive(writeKMZ(points, { iconDirs: [inputDir] }));
+
+    expect([...entries.keys()]).toEqual(['doc.kml']);
+    const kml = entries.get('doc.kml')!.toString('utf-8');
+    for (const href of hrefs) expect(kml).toContain(`<Icon><href>${href}</href></Icon>`);
+  });
+
+  it('bundles again the icons of points parsed from a KMZ', async () => {
+    const { points } = await parseMapFile(path.join(FIXTURES_DIR, 'local-icons.kml'));
+    const first = path.join(TEMP_DIR, 'first.kmz');
+    fs.writeFileSync(first, writeKMZ(points, { iconDirs: [FIXTURES_DIR] }));
+
+    const reparsed = await parseMapFile(first);
+    expect(reparsed.points[0].style?.iconHref).toBe('files/mill.png');
+
+    // The archive's directory holds no files/ folder: the icon comes from the archive
+    const entries = await readArchive(writeKMZ(reparsed.points, {
+      iconDirs: [TEMP_DIR],
+      iconArchives: new Map([['first.kmz', await readKMZIcons(first)]]),
+    }));
+    expect([...entries.keys()]).toEqual(['doc.kml', 'files/mill.png']);
+    expect(entries.get('files/mill.png')).toEqual(fs.readFileSync(path.join(FIXTURES_DIR, 'icons', 'mill.png')));
+    expect(entries.get('doc.kml')!.toString('utf-8')).toContain('<Icon><href>files/mill.png</href></Icon>');
+  });
+
+  it('takes archive icons only from the KMZ a point came from', async () => {
+    const images = { 'north.kmz': Buffer.from('north image'), 'south.kmz': Buffer.from('south image') };
+    const points: ParsedMapPoint[] = [];
+    for (const [name, image] of Object.entries(images)) {
+      const dir = path.join(TEMP_DIR, path.basename(name, '.kmz'));
+      fs.mkdirSync(path.join(dir, 'icons'), { recursive: true });
+      fs.writeFileSync(path.join(dir, 'icons', 'mill.png'), image);
+      const file = path.join(TEMP_DIR, name);
+      fs.writeFileSync(file, writeKMZ([point(name, { style: { id: 'mill', iconHref: 'icons/mill.png' } })], { iconDirs: [dir] }));
+      points.push(...(await parseMapFile(file)).points);
+    }
+    // Both archives hold their image as files/mill.png
+    expect(points.map(p => p.style?.iconHref)).toEqual(['files/mill.png', 'files/mill.png']);
+
+    const merged = path.join(TEMP_DIR, 'merged.kmz');
+    fs.writeFileSync(merged, writeKMZ(points, {
+      iconDirs: [TEMP_DIR],
+      iconArchives: new Map(await Promise.all(Object.keys(images).map(async name =>
+        [name, await readKMZIcons(path.join(TEMP_DIR, name))] as const))),
+    }));
+
+    const entries = await readArchive(fs.readFileSync(merged));
+    const reparsed = await parseMapFile(merged);
+    for (const p of reparsed.points) {
+      expect(entries.get(p.style!.iconHref!)).toEqual(images[p.name as keyof typeof images]);
+    }
+    expect(new Set(reparsed.points.map(p => p.style?.iconHref)).size).toBe(2);
+  });
+
+  it('renders a colored PNG marker for every category style', async () => {
+    const entries = await readArchive(writeKMZ([
+      point('A', { category: 'Grist Mill' }),
+      point('B', { category: 'Bridge' }),
+      point('C', { category: 'Grist Mill' }),
+    ]));
+
+    expect([...entries.keys()]).toEqual(['doc.kml', 'files/categories/grist-mill.png', 'files/categories/bridge.png']);
+    const kml = entries.get('doc.kml')!.toString('utf-8');
+    expect(kml).toContain('<Style id="Grist Mill">\n      <IconStyle><Icon><href>files/categories/grist-mill.png</href></Icon></IconStyle>');
+
+    const png = entries.get('files/categories/grist-mill.png')!;
+    expect([...png.subarray(0, 8)]).toEqual([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    expect(readPNGPixel(png, 16, 16)).toEqual({ width: 32, height: 32, rgba: [0xe6, 0x19, 0x4b, 255] });
+    expect(readPNGPixel(png, 0, 0).rgba[3]).toBe(0);
+    expect(readPNGPixel(entries.get('files/categories/bridge.png')!, 16, 16).rgba).toEqual([0x3c, 0xb4, 0x4b, 255]);
+  });
+
+  it('is read back by the KMZ parser', async () => {
+    const original = await parseMapFile(path.join(FIXTURES_DIR, 'sample.kml'));
+    const outFile = path.join(TEMP_DIR, 'sample.kmz');
+    fs.writeFileSync(outFile, writeKMZ(original.points, { folderBy: 'category' }));
+
+    const reparsed = await parseMapFile(outFile);
+    expect(reparsed.fileType).toBe('kmz');
+    expect(reparsed.points.map(p => [p.name, p.category, p.style?.iconHref]))
+      .toEqual(original.points.map(p => [p.name, p.category, `files/categories/${p.category!.toLowerCase().replace(/ /g, '-')}.png`]));
+  });
+});
@@ -5,6 +5,8 @@
  */
 
 import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import {
   parseMapFile,
@@ -12,7 +14,16 @@ import {
   mergeParseResults,
   getFileType,
   getSupportedExtensions,
+  detectFileType,
+  sniffFileType,
+  createCSVTokenizer,
+  createJSONSequenceSplitter,
+  compileOSMFilter,
+  parseTimestamp,
+  getTimestampRange,
+  filterPointsByTime,
 } from '../src/parser.js';
+import { ringContains } from '../src/geo-utils.js';
 
 const FIXTURES_DIR = path.join(__dirname, 'fixtures');
 
@@ -39,10 +50,36 @@ describe('getFileType', () => {
     expect(getFileType('data.json')).toBe('geojson');
   });
 
+  it('detects GeoJSON text sequences and NDJSON files', () => {
+    expect(getFileType('data.geojsonl')).toBe('geojsonseq');
+    expect(getFileType('data.geojsons')).toBe('geojsonseq');
+    expect(getFileType('export.NDJSON')).toBe('geojsonseq');
+  });
+
   it('detects CSV files', () => {
     expect(getFileType('points.csv')).toBe('csv');
   });
 
+  it('detects Excel workbooks', () => {
+    expect(getFileType('volunteers.xlsx')).toBe('xlsx');
+  });
+
+  it('detects OSM XML files', () => {
+    expect(getFileType('extract.osm')).toBe('osm');
+  });
+
+  it('detects shapefiles and zipped shapefile bundles', () => {
+    expect(getFileType('sites.shp')).toBe('shapefile');
+    expect(getFileType('sites.zip')).toBe('shapefile');
+  });
+
+  it('detects geotagged photos', () => {
+    expect(getFileType('IMG_2041.JPG')).toBe('photo');
+    expect(getFileType('shot.jpeg')).toBe('photo');
+    expect(getFileType('IMG_2042.heic')).toBe('photo');
+    expect(getFileType('IMG_2042.HEIF')).toBe('photo');
+  });
+
   it('returns unknown for unsupported types', () => {
     expect(getFileType('file.txt')).toBe('unknown');
     expect(getFileType('file.xml')).toBe('unknown');
@@ -50,6 +87,75 @@ describe('getFileType', () => {
   });
 });
 
+describe('sniffFileType', () => {
+  it('recognizes XML root elements after declarations and comments', () => {
+    expect(sniffFileType(Buffer.from('<?xml version="1.0"?>\n<!-- x -->\n<kml xmlns="http://www.opengis.net/kml/2.2">'))).toBe('kml');
+    expect(sniffFileType(Buffer.from('\uFEFF<gpx version="1.1">'))).toBe('gpx');
+    expect(sniffFileType(Buffer.from('<osm version="0.6">'))).toBe('osm');
+    expect(sniffFileType(Buffer.from('<rss version="2.0">'))).toBe('unknown');
+  });
+
+  it('recognizes GeoJSON and shapefile magic', () => {
+    expect(sniffFileType(Buffer.from('{\n  "type": "FeatureCollection", "features": []}'))).toBe('geojson');
+    expect(sniffFileType(Buffer.from('{"name": "settings"}'))).toBe('unknown');
+    expect(sniffFileType(Buffer.from([0x00, 0x00, 0x27, 0x0a, 0, 0, 0, 0]))).toBe('shapefile');
+  });
+
+  it('recognizes JSON text sequences', () => {
+    expect(sniffFileType(Buffer.from('{"type":"Feature","geometry":null}\n{"type":"Feature"'))).toBe('geojsonseq');
+    expect(sniffFileType(Buffer.from('\x1e{"type":"Feature",\n"geometry":null}\n'))).toBe('geojsonseq');
+    expect(sniffFileType(Buffer.from('{\n  "type": "Feature", "geometry": null}'))).toBe('geojson');
+  });
+
+  it('recognizes JPEG and HEIF photos', () => {
+    expect(sniffFileType(Buffer.from([0xff, 0xd8, 0xff, 0xe1, 0, 0x10]))).toBe('photo');
+    expect(sniffFileType(Buffer.from('\0\0\0\x18ftypheic\0\0\0\0mif1heic', 'latin1'))).toBe('photo');
+    expect(sniffFileType(Buffer.from('\0\0\0\x18ftypisom\0\0\0\0isomiso2', 'latin1'))).toBe('unknown');
+  });
+});
+
+describe('detectFileType', () => {
+  it('detects KML saved with an .xml extension', async () => {
+    expect(await detectFileType(path.join(FIXTURES_DIR, 'kml-export.xml'))).toBe('kml');
+  });
+
+  it('detects files without an extension', async () => {
+    expect(await detectFileType(path.join(FIXTURES_DIR, 'shared-waypoint'))).toBe('gpx');
+  });
+
+  it('detects delimited text with an unknown extension as CSV', async () => {
+    expect(await detectFileType(path.join(FIXTURES_DIR, 'points.txt'))).toBe('csv');
+  });
+
+  it('tells KMZ from zipped shapefiles by archive contents', async () => {
+    expect(await detectFileType(path.join(FIXTURES_DIR, 'shared-map.zip'))).toBe('kmz');
+    expect(await detectFileType(path.join(FIXTURES_DIR, 'historic-sites.zip'))).toBe('shapefile');
+    expect(await detectFileType(path.join(FIXTURES_DIR, 'volunteers.xlsx'))).toBe('xlsx');
+  });
+
+  it('prefers content over a misleading extension', async () => {
+    expect(await detectFileType(path.join(FIXTURES_DIR, 'takeout-saved-places.json'))).toBe('geojson');
+    expect(await detectFileType(path.join(FIXTURES_DIR, 'sample.csv'))).toBe('csv');
+  });
+
+  it('detects GeoJSON text sequences', async () => {
+    expect(await detectFileType(path.join(FIXTURES_DIR, 'features.geojsonl'))).toBe('geojsonseq');
+    expect(await detectFileType(path.join(FIXTURES_DIR, 'single-feature.geojson'))).toBe('geojson');
+  });
+
+  it('parses detected files and honors an explicit input format', async () => {
+    const kml = await parseMapFile(path.join(FIXTURES_DIR, 'kml-export.xml'));
+    expect(kml.fileType).toBe('kml');
+    expect(kml.points[0].name).toBe('Hidden Quarry');
+
+    const kmz = await parseMapFile(path.join(FIXTURES_DIR, 'shared-map.zip'));
+    expect(kmz.points[0].name).toBe('Hidden Quarry');
+
+    const forced = await parseMapFile(path.join(FIXTURES_DIR, 'points.txt'), { inputFormat: 'csv' });
+    expect(forced.points.map(p => p.name)).toEqual(['Old Lighthouse', 'Salt Works']);
+  });
+});
+
 describe('getSupportedExtensions', () => {
   it('returns all supported extensions', () => {
     const exts = getSupportedExtensions();
@@ -59,6 +165,12 @@ describe('getSupportedExtensions', () => {
     expect(exts).toContain('.geojson');
     expect(exts).toContain('.json');
     expect(exts).toContain('.csv');
+    expect(exts).toContain('.xlsx');
+    expect(exts).toContain('.shp');
+    expect(exts).toContain('.zip');
+    expect(exts).toContain('.osm');
+    expect(exts).toContain('.jpg');
+    expect(exts).toContain('.heic');
   });
 });
 
@@ -103,14 +215,40 @@ describe('KML parsing', () => {
     expect(line!.category).toBe('line');
   });
 
+  it('keeps full LineString geometry', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'sample.kml'));
+    const line = result.points.find(p => p.name === 'Line Feature');
+
+    expect(line!.geometry).toEqual({
+      type: 'LineString',
+      coordinates: [[-122.0, 37.0], [-122.1, 37.1], [-122.2, 37.2]],
+    });
+  });
+
+  it('keeps full Polygon geometry', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'sample.kml'));
+    const area = result.points.find(p => p.name === 'Area Feature');
+
+    expect(area!.geometry!.type).toBe('Polygon');
+    expect(area!.geometry!.coordinates).toHaveLength(1);
+    expect(area!.geometry!.coordinates[0]).toHaveLength(5);
+  });
+
+  it('does not attach geometry to simple points', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'sample.kml'));
+    const oldMill = result.points.find(p => p.name === 'Old Mill');
+
+    expect(oldMill!.geometry).toBeUndefined();
+  });
+
   it('parses Polygon using centroid', async () => {
     const result = await parseMapFile(path.join(FIXTURES_DIR, 'sample.kml'));
     const area = result.points.find(p => p.name === 'Area Feature');
 
     expect(area).toBeDefined();
-    // Centroid of polygon - includes closing point so avg shifts slightly
-    expect(area!.lat).toBeCloseTo(38.04, 1);
-    expect(area!.lng).toBeCloseTo(-122.04, 1);
+    // Area-weighted centroid of the square
+    expect(area!.lat).toBeCloseTo(38.05, 6);
+    expect(area!.lng).toBeCloseTo(-122.05, 6);
     expect(area!.category).toBe('polygon');
   });
 
@@ -123,6 +261,113 @@ describe('KML parsing', () => {
   });
 });
 
+describe('KML MultiGeometry and folders', () => {
+  it('yields every Point of a MultiGeometry', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'nested.kml'));
+    const gowanda = result.points.filter(p => p.name === 'Gowanda Campus');
+
+    expect(gowanda).toHaveLength(3);
+    expect(gowanda.map(p => p.lat)).toEqual([42.4793, 42.4811, 42.4770]);
+    expect(gowanda[0].description).toBe('Buildings and water tower');
+  });
+
+  it('records the full folder path', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'nested.kml'));
+    const gowanda = result.points.find(p => p.name === 'Gowanda Campus');
+    const willard = result.points.find(p => p.name === 'Willard Grounds');
+
+    expect(gowanda!.rawMetadata!.folderPath).toBe('Upstate/Hospitals/Demolished');
+    expect(gowanda!.category).toBe('Demolished');
+    expect(willard!.rawMetadata).toEqual({ status: 'abandoned', folderPath: 'Upstate/Hospitals' });
+  });
+
+  it('includes nested Documents but not the top-level one in the path', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'nested.kml'));
+    const walk = result.points.find(p => p.name === 'Morning Walk');
+
+    expect(walk!.rawMetadata!.folderPath).toBe('Trips');
+  });
+
+  it('combines MultiGeometry polygons into a MultiPolygon', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'nested.kml'));
+    const willard = result.points.filter(p => p.name === 'Willard Grounds');
+
+    expect(willard).toHaveLength(1);
+    expect(willard[0].geometry!.type).toBe('MultiPolygon');
+    expect(willard[0].geometry!.coordinates).toHaveLength(2);
+  });
+
+  it('parses gx:Track as a LineString with altitude', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'nested.kml'));
+    const walk = result.points.find(p => p.name === 'Morning Walk');
+
+    expect(walk!.category).toBe('track');
+    expect(walk!.lat).toBeCloseTo(42.44, 4);
+    expect(walk!.geometry).toEqual({
+      type: 'LineString',
+      coordinates: [[-76.5, 42.44, 250], [-76.495, 42.442, 252], [-76.49, 42.445, 255]],
+    });
+  });
+
+  it('parses gx:MultiTrack as a MultiLineString', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'nested.kml'));
+    const hike = result.points.find(p => p.name === 'Two Day Hike');
+
+    expect(hike!.geometry!.type).toBe('MultiLineString');
+    expect(hike!.geometry!.coordinates).toHaveLength(2);
+  });
+});
+
+describe('KML styles', () => {
+  it('resolves StyleMap normal and highlight styles', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'styles.kml'));
+    const willard = result.points.find(p => p.name === 'Willard Asylum');
+
+    expect(willard!.style).toEqual({
+      id: 'icon-1899-0288D1-nodesc',
+      iconHref: 'https://www.gstatic.com/mapspro/images/stock/503-wht-blank_maps.png',
+      iconColor: '#0288d1',
+      iconScale: 1,
+      labelScale: 0,
+      highlight: {
+        iconHref: 'https://www.gstatic.com/mapspro/images/stock/503-wht-blank_maps.png',
+        iconColor: '#0288d1',
+        iconScale: 1.1,
+        labelScale: 1.1,
+      },
+    });
+  });
+
+  it('uses the folder as category for My Maps style ids', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'styles.kml'));
+    const willard = result.points.find(p => p.name === 'Willard Asylum');
+
+    expect(willard!.category).toBe('Asylums');
+  });
+
+  it('lets inline styles override the shared style', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'styles.kml'));
+    const letchworth = result.points.find(p => p.name === 'Letchworth Village');
+
+    expect(letchworth!.style).toMatchObject({ id: 'hospital', iconColor: '#ffff00', iconScale: 1.2 });
+  });
+
+  it('keeps translucent line colors with alpha', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'styles.kml'));
+    const trail = result.points.find(p => p.name === 'Rail Trail');
+
+    expect(trail!.style).toEqual({ id: 'trail', lineColor: '#00ff007f', lineWidth: 3 });
+  });
+
+  it('leaves style unset when the styleUrl does not resolve', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'styles.kml'));
+    const mill = result.points.find(p => p.name === 'Unstyled Mill');
+
+    expect(mill!.style).toBeUndefined();
+    expect(mill!.category).toBe('missing');
+  });
+});
+
 // ============================================================================
 // GPX PARSING
 // ============================================================================
@@ -147,10 +392,43 @@ describe('GPX parsing', () => {
     expect(nyc!.category).toBe('city');
     expect(nyc!.rawMetadata).toBeDefined();
     expect(nyc!.rawMetadata!.elevation).toBe(10);
-    expect(nyc!.rawMetadata!.time).toBe('2024-01-15T12:00:00Z');
+    expect(nyc!.time).toBe('2024-01-15T12:00:00.000Z');
+    expect(nyc!.rawMetadata!.time).toBeUndefined();
     expect(nyc!.rawMetadata!.symbol).toBe('City');
   });
 
+  it('keeps full track and route geometry', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'sample.gpx'));
+    const track = result.points.find(p => p.name === 'Test Track');
+    const route = result.points.find(p => p.name === 'Test Route');
+
+    expect(track!.geometry!.type).toBe('LineString');
+    expect(track!.geometry!.coordinates).toHaveLength(3);
+    expect(route!.geometry!.type).toBe('LineString');
+    expect(route!.geometry!.coordinates).toHaveLength(2);
+  });
+
+  it('computes track statistics across segments', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'track.gpx'));
+
+    expect(result.points).toHaveLength(1);
+    const trip = result.points[0];
+    expect(trip.name).toBe('Scouting Trip');
+    expect(trip.description).toBe('Rail bed walk');
+    expect(trip.geometry!.type).toBe('MultiLineString');
+    expect(trip.geometry!.coordinates[0][0]).toEqual([-78.7, 42.1, 400]);
+
+    const stats = trip.rawMetadata!;
+    expect(stats.pointCount).toBe(5);
+    expect(stats.segmentCount).toBe(2);
+    expect(stats.elevationGain).toBe(10);
+    expect(stats.elevationLoss).toBe(10);
+    expect(stats.startTime).toBe('2024-05-01T10:00:00.000Z');
+    expect(stats.endTime).toBe('2024-05-01T10:13:00.000Z');
+    // 10 minute stop and the gap between segments are not moving time
+    expect(stats.movingDurationSeconds).toBe(120);
+  });
+
   it('parses tracks using first point', async () => {
     const result = await parseMapFile(path.join(FIXTURES_DIR, 'sample.gpx'));
     const track = result.points.find(p => p.name === 'Test Track');
@@ -173,6 +451,76 @@ describe('GPX parsing', () => {
   });
 });
 
+describe('GPX extensions', () => {
+  it('reads Groundspeak cache details', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'extensions.gpx'));
+    const geocache = result.points[0].rawMetadata?.geocache;
+
+    expect(geocache).toEqual({
+      id: '1234567',
+      available: true,
+      archived: false,
+      name: 'Mill Race Cache',
+      placedBy: 'rustyhinge',
+      owner: 'rustyhinge',
+      type: 'Traditional Cache',
+      container: 'Small',
+      country: 'United States',
+      state: 'New York',
+      hints: 'Under the millstone',
+      difficulty: 1.5,
+      terrain: 2,
+      attributes: [
+        { name: 'Recommended for kids', positive: true },
+        { name: 'Available at all times', positive: false },
+      ],
+    });
+  });
+
+  it('keeps OsmAnd favourite icon, color and group', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'extensions.gpx'));
+
+    expect(result.points[1].rawMetadata?.osmand).toEqual({
+      icon: 'railway_station',
+      background: 'circle',
+      color: '#b4d00d0d',
+      address: 'Depot St, Salamanca',
+      group: 'Railroads',
+    });
+  });
+
+  it('reads Garmin address fields and other extensions', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'extensions.gpx'));
+    const metadata = result.points[2].rawMetadata;
+
+    expect(metadata?.garmin).toEqual({
+      proximity: 50,
+      displayMode: 'SymbolAndName',
+      categories: ['Urbex', 'Dairy'],
+      address: { street: 'Route 16', city: 'Franklinville', state: 'NY', country: 'USA', postalCode: '14737' },
+      phone: '716-555-0100',
+    });
+    expect(metadata?.extensions).toEqual({ rating: '4' });
+    expect(metadata?.symbol).toBe('Building');
+  });
+
+  it('reads mapsh-pit fields back into rawMetadata', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'mapsh-pit-fields.gpx'));
+    const [wpt, trk] = result.points;
+
+    expect(wpt.rawMetadata).toEqual({
+      elevation: 431.5,
+      symbol: 'Building',
+      'Visited On': '2023-07-16',
+      akaNames: ['Smiths Mill', 'Old Smith Mill'],
+      confidence: 95,
+      broken: '{not json',
+    });
+    expect(trk.category).toBe('track');
+    expect(trk.rawMetadata).toMatchObject({ surface: 'gravel', pointCount: 2 });
+  });
+});
+
 // ============================================================================
 // GEOJSON PARSING
 // ============================================================================
@@ -235,6 +583,67 @@ describe('GeoJSON parsing', () => {
     expect(box!.lng).toBeCloseTo(-104.4, 0);
   });
 
+  it('keeps full geometry for non-Point features', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'sample.geojson'));
+    const line = result.points.find(p => p.name === 'DC Line');
+    const esb = result.points.find(p => p.name === 'Empire State Building');
+
+    expect(line!.geometry!.type).toBe('LineString');
+    expect(line!.geometry!.coordinates).toHaveLength(3);
+    expect(esb!.geometry).toBeUndefined();
+  });
+
+  it('keeps polygon holes', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'geometries.geojson'));
+    const factory = result.points.find(p => p.name === 'Courtyard Factory');
+
+    expect(factory!.geometry!.type).toBe('Polygon');
+    expect(factory!.geometry!.coordinates).toHaveLength(2);
+  });
+
+  it('parses MultiLineString and MultiPolygon', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'geometries.geojson'));
+    const branch = result.points.find(p => p.name === 'Erie Branch');
+    const silos = result.points.find(p => p.name === 'Twin Silos');
+
+    expect(branch).toBeDefined();
+    expect(branch!.lat).toBeCloseTo(42.0, 4);
+    expect(branch!.lng).toBeCloseTo(-78.5, 4);
+    expect(branch!.geometry!.type).toBe('MultiLineString');
+
+    expect(silos).toBeDefined();
+    expect(silos!.geometry!.type).toBe('MultiPolygon');
+    expect(silos!.geometry!.coordinates).toHaveLength(2);
+  });
+
+  it('places concave footprints inside the building', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'footprints.geojson'));
+    const foundry = result.points.find(p => p.name === 'L-Shaped Foundry');
+    const outline = (foundry!.geometry!.coordinates as number[][][])[0];
+
+    expect(ringContains(outline, [foundry!.lng, foundry!.lat])).toBe(true);
+  });
+
+  it('keeps MultiPolygon representative points on a part, not between parts', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'geometries.geojson'));
+    const silos = result.points.find(p => p.name === 'Twin Silos');
+    const parts = silos!.geometry!.coordinates as number[][][][];
+
+    expect(parts.some(([outer]) => ringContains(outer, [silos!.lng, silos!.lat]))).toBe(true);
+  });
+
+  it('parses GeometryCollection using its areal members', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'footprints.geojson'));
+    const mill = result.points.find(p => p.name === 'Mill Complex');
+    const spur = result.points.find(p => p.name === 'Spur Line');
+
+    expect(mill!.geometry!.type).toBe('GeometryCollection');
+    expect(mill!.lat).toBeCloseTo(43.155, 6);
+    expect(mill!.lng).toBeCloseTo(-77.605, 6);
+    expect(spur!.lat).toBeCloseTo(42.44, 6);
+    expect(spur!.lng).toBeCloseTo(-76.5, 6);
+  });
+
   it('parses single Feature (not FeatureCollection)', async () => {
     const result = await parseMapFile(path.join(FIXTURES_DIR, 'single-feature.geojson'));
 
@@ -252,10 +661,92 @@ describe('GeoJSON parsing', () => {
   });
 });
 
+describe('GeoJSON text sequences', () => {
+  it('parses Features, bare geometries and point records line by line', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'features.geojsonl'));
+
+    expect(result.success).toBe(true);
+    expect(result.fileType).toBe('geojsonseq');
+    expect(result.points.map(p => p.name)).toEqual(['Smith Mill', 'Mill Race', null, 'Old Depot']);
+    expect(result.points[0].sources).toEqual([{ file: 'features.geojsonl', format: 'geojsonseq', featureIndex: 0, line: 1, id: 'mill-1' }]);
+    expect(result.points[1].geometry?.type).toBe('LineString');
+    expect(result.points[2]).toMatchObject({ lat: 42.8864, lng: -78.8784, category: 'Point' });
+    expect(result.points[3]).toMatchObject({
+      description: 'Freight only',
+      category: 'Railroad',
+      rawMetadata: { built: 1882 },
+      time: '1882-05',
+      sources: [{ featureIndex: 5, line: 7 }],
+    });
+  });
+
+  it('reports bad lines with their line number', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'features.geojsonl'));
+
+    expect(result.warnings).toHaveLength(2);
+    expect(result.warnings[0]).toMatchObject({ line: 4, featureIndex: 2 });
+    expect(result.warnings[0].reason).toMatch(/^invalid JSON: /);
+    expect(result.warnings[1]).toEqual({ reason: 'not a GeoJSON Feature or point record', line: 6, featureIndex: 4 });
+  });
+
+  it('splits RS-delimited records that span lines', () => {
+    const splitter = createJSONSequenceSplitter();
+    const text = '\x1e{"type": "Feature",\n "geometry": null}\n\x1e{"a": 1}\n';
+    const records = [...text].flatMap(c => splitter.push(c));
+    records.push(...splitter.end());
+
+    expect(records).toEqual([
+      { text: '{"type": "Feature",\n "geometry": null}', line: 1 },
+      { text: '{"a": 1}', line: 3 },
+    ]);
+  });
+
+  it('reads back points written as NDJSON', async () => {
+    const original = await parseMapFile(path.join(FIXTURES_DIR, 'sample.kml'));
+    const file = path.join(os.tmpdir(), 'mapsh-pit-sample.ndjson');
+    fs.writeFileSync(file, original.points.map(p => JSON.stringify(p)).join('\n') + '\n');
+    try {
+      const reparsed = await parseMapFile(file);
+      const strip = ({ sources, ...p }: (typeof original.points)[number]) => p;
+      expect(reparsed.points.map(strip)).toEqual(original.points.map(strip));
+    } finally {
+      fs.rmSync(file, { force: true });
+    }
+  });
+});
+
 // ============================================================================
 // CSV PARSING
 // ============================================================================
 
+describe('text encodings', () => {
+  it('decodes Windows-1252 CSV from Excel', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'excel-cp1252.csv'));
+
+    expect(result.points.map(p => p.name)).toEqual(['Café Rouge', 'O’Brien’s Mill']);
+    expect(result.points[1].description).toBe('“The old mill”');
+  });
+
+  it('decodes UTF-16LE CSV with BOM', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'excel-utf16.csv'));
+
+    expect(result.points.map(p => p.name)).toEqual(['Café Rouge', 'Zürich Haus']);
+    expect(result.points[0].lat).toBeCloseTo(42.444, 4);
+  });
+
+  it('honors the XML encoding declaration', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'cyrillic-1251.kml'));
+
+    expect(result.points[0].name).toBe('Завод „Красный“');
+  });
+
+  it('uses an explicit encoding', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'excel-cp1252.csv'), { encoding: 'windows-1251' });
+
+    expect(result.points[0].name).toBe('Cafй Rouge');
+  });
+});
+
 describe('CSV parsing', () => {
   it('parses comma-delimited CSV', async () => {
     const result = await parseMapFile(path.join(FIXTURES_DIR, 'sample.csv'));
@@ -309,6 +800,20 @@ describe('CSV parsing', () => {
     expect(paris!.lng).toBeCloseTo(2.3522, 4);
   });
 
+  it('reads coordinates in exponent notation', async () => {
+    const file = path.join(os.tmpdir(), 'mapsh-pit-exponent.csv');
+    fs.writeFileSync(file, 'name,lat,lng\nA,4.21e1,-7.87e1\n');
+    try {
+      const result = await parseMapFile(file);
+      expect(result.warnings).toEqual([]);
+      expect(result.points).toHaveLength(1);
+      expect(result.points[0].lat).toBeCloseTo(42.1, 10);
+      expect(result.points[0].lng).toBeCloseTo(-78.7, 10);
+    } finally {
+      fs.rmSync(file, { force: true });
+    }
+  });
+
   it('recognizes alternate column names (latitude/longitude/lon)', async () => {
     const result = await parseMapFile(path.join(FIXTURES_DIR, 'tabs.csv'));
     // tabs.csv uses 'latitude' and 'longitude' columns
@@ -317,6 +822,628 @@ describe('CSV parsing', () => {
   });
 });
 
+describe('CSV tokenizer', () => {
+  it('handles quoted delimiters, escaped quotes and embedded newlines', () => {
+    const tokenizer = createCSVTokenizer(',');
+    const records = [
+      ...tokenizer.push('a,"b, c","say ""hi"""\r\n"multi\nline",x'),
+      ...tokenizer.end(),
+    ];
+
+    expect(records).toEqual([
+      ['a', 'b, c', 'say "hi"'],
+      ['multi\nline', 'x'],
+    ]);
+  });
+
+  it('carries state across chunk boundaries', () => {
+    const tokenizer = createCSVTokenizer(',');
+    const records = [
+      ...tokenizer.push('"a'),
+      ...tokenizer.push('""b"'),
+      ...tokenizer.push(',c\r'),
+      ...tokenizer.push('\nd,e'),
+      ...tokenizer.end(),
+    ];
+
+    expect(records).toEqual([['a"b', 'c'], ['d', 'e']]);
+  });
+
+  it('skips blank lines and keeps empty fields', () => {
+    const tokenizer = createCSVTokenizer(';');
+    const records = [...tokenizer.push('a;;c\n\n  \n'), ...tokenizer.end()];
+
+    expect(records).toEqual([['a', '', 'c']]);
+  });
+
+  it('reports the start line of each record', () => {
+    const tokenizer = createCSVTokenizer(',');
+    tokenizer.push('a,b\r\n\n"multi\nline",x\nlast');
+    expect(tokenizer.lines).toEqual([1, 3]);
+
+    tokenizer.end();
+    expect(tokenizer.lines).toEqual([5]);
+  });
+});
+
+describe('CSV column options', () => {
+  it('parses quoted fields with commas and newlines', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'collab.csv'), {
+      csv: { latColumn: 'GPS Lat', lngColumn: 'gps lng', nameColumn: 'Site', descColumn: 'Notes' },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.points).toHaveLength(2);
+    expect(result.points[0].name).toBe('Smith Bros. Mill, Lower');
+    expect(result.points[0].description).toBe('Three floors, roof gone; "No Trespassing" signs');
+    expect(result.points[1].description).toBe('Line one\r\nline two');
+  });
+
+  it('reads the category from a mapped column', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'collab.csv'), {
+      csv: { latColumn: 'GPS Lat', lngColumn: 'GPS Lng', categoryColumn: 'Kind' },
+    });
+
+    expect(result.points.map(p => p.category)).toEqual(['mill', 'depot']);
+  });
+
+  it('reports unknown columns as errors', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'collab.csv'), {
+      csv: { latColumn: 'Latitude (WGS84)', lngColumn: 'GPS Lng' },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('CSV column not found');
+  });
+
+  it('supports headerless files with numbered columns', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'no-header.csv'), {
+      csv: { hasHeader: false, latColumn: '1', lngColumn: '2', nameColumn: '3', delimiter: ';' },
+    });
+
+    expect(result.points).toHaveLength(2);
+    expect(result.points[0].name).toBe('Smith Mill');
+    expect(result.points[0].lat).toBeCloseTo(42.1701, 4);
+    expect(result.points[0].rawMetadata).toEqual({ column3: 'Smith Mill' });
+  });
+});
+
+describe('coordinate notations', () => {
+  it('detects a combined coordinates column in any notation', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'notations.csv'));
+
+    expect(result.success).toBe(true);
+    expect(result.points.map(p => p.name)).toEqual([
+      'Decimal Mill', 'DMS Tannery', 'DDM Depot', 'UTM Pier', 'MGRS Monument',
+    ]);
+    for (const point of result.points.slice(0, 3)) {
+      expect(point.lat).toBeCloseTo(42.17, 4);
+      expect(point.lng).toBeCloseTo(-78.74, 4);
+    }
+    expect(result.points[3].lat).toBeCloseTo(40.714, 3);
+    expect(result.points[4].lng).toBeCloseTo(-77.0352, 3);
+    expect(result.points[0].rawMetadata).toEqual({ Name: 'Decimal Mill', Notes: 'Plain decimal pair' });
+  });
+
+  it('uses an explicitly mapped coordinates column', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'notations.csv'), {
+      csv: { coordsColumn: '2', nameColumn: 'Notes' },
+    });
+
+    expect(result.points).toHaveLength(5);
+    expect(result.points[1].name).toBe('Degrees minutes seconds');
+  });
+
+  it('reads coordinate strings from GeoJSON properties when geometry is missing', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'property-coords.geojson'));
+
+    expect(result.success).toBe(true);
+    expect(result.points).toHaveLength(1);
+    expect(result.points[0].name).toBe('Old Tannery');
+    expect(result.points[0].lat).toBeCloseTo(42.17, 4);
+    expect(result.points[0].lng).toBeCloseTo(-78.74, 4);
+  });
+});
+
+describe('CSV geometry columns', () => {
+  it('reads WKT, EWKT and hex EWKB geometries', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'trip-stops.csv'));
+
+    expect(result.success).toBe(true);
+    expect(result.points.map(p => p.name)).toEqual([
+      'Portage Falls Overlook', 'Gorge Trail', 'Glen Iris Grounds', 'Mount Morris Dam',
+    ]);
+    const [overlook, trail, grounds, dam] = result.points;
+    expect([overlook.lat, overlook.lng]).toEqual([42.5773, -78.0441]);
+    expect(overlook.geometry).toBeUndefined();
+    expect(overlook.rawMetadata).toEqual({ id: '1', name: 'Portage Falls Overlook', notes: 'Parking lot' });
+    expect(trail.geometry?.type).toBe('LineString');
+    expect([trail.lat, trail.lng]).toEqual([42.58, -78.05]);
+    expect(grounds.geometry?.type).toBe('Polygon');
+    expect(grounds.lat).toBeCloseTo(42.575, 6);
+    expect(grounds.lng).toBeCloseTo(-78.055, 6);
+    expect([dam.lat, dam.lng]).toEqual([42.7317, -77.9106]);
+  });
+
+  it('reports unparseable and missing geometries', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'trip-stops.csv'));
+
+    expect(result.warnings).toEqual([
+      { reason: 'unparseable geometry "CIRCLE(-78 42 5)"', line: 6, featureIndex: 4, name: 'Unknown Shape' },
+      { reason: 'missing geometry', line: 7, featureIndex: 5, name: 'No Geometry' },
+    ]);
+  });
+
+  it('uses an explicitly mapped geometry column', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'trip-stops.csv'), {
+      csv: { geometryColumn: '4', nameColumn: 'notes' },
+    });
+
+    expect(result.points[0].name).toBe('Parking lot');
+    expect(result.points).toHaveLength(4);
+  });
+});
+
+// ============================================================================
+// XLSX PARSING
+// ============================================================================
+
+describe('XLSX parsing', () => {
+  it('reads every sheet as a CSV table', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'volunteers.xlsx'));
+
+    expect(result.success).toBe(true);
+    expect(result.fileType).toBe('xlsx');
+    expect(result.points.map(p => p.name)).toEqual(['Smith Mill', 'Erie Depot', 'Canal Lock', 'Old Bridge']);
+    expect(result.points[0]).toMatchObject({
+      lat: 42.1701,
+      lng: -78.7402,
+      description: 'Roof gone',
+      rawMetadata: { Name: 'Smith Mill', Visited: '2023-07-16', Notes: 'Roof gone', ID: 'A-1' },
+    });
+    expect(result.points[3].lat).toBe(42.5);
+  });
+
+  it('keeps the sheet name and row number in sources and warnings', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'volunteers.xlsx'));
+
+    expect(result.points[1].sources).toEqual([
+      { file: 'volunteers.xlsx', format: 'xlsx', sheet: 'Stops', featureIndex: 1, line: 3, id: 'A-2' },
+    ]);
+    expect(result.points[3].sources?.[0].sheet).toBe('Archive');
+    expect(result.warnings).toEqual([
+      { reason: 'invalid coordinates "n/a", "-78.5"', line: 5, featureIndex: 2, name: 'Lost Tannery', sheet: 'Stops' },
+      { reason: 'no coordinate columns found in header', line: 1, sheet: 'Read Me' },
+    ]);
+  });
+
+  it('selects a sheet by name or number', async () => {
+    const byName = await parseMapFile(path.join(FIXTURES_DIR, 'volunteers.xlsx'), { xlsx: { sheet: 'archive' } });
+    expect(byName.points.map(p => p.name)).toEqual(['Old Bridge']);
+    expect(byName.warnings).toEqual([]);
+
+    const byNumber = await parseMapFile(path.join(FIXTURES_DIR, 'volunteers.xlsx'), { xlsx: { sheet: '1' } });
+    expect(byNumber.points).toHaveLength(3);
+
+    const missing = await parseMapFile(path.join(FIXTURES_DIR, 'volunteers.xlsx'), { xlsx: { sheet: 'Sites' } });
+    expect(missing.success).toBe(false);
+    expect(missing.error).toBe('Sheet not found: Sites (sheets: Stops, Read Me, Archive)');
+  });
+});
+
+// ============================================================================
+// PHOTO PARSING
+// ============================================================================
+
+describe('Photo parsing', () => {
+  const PHOTOS_DIR = path.join(FIXTURES_DIR, 'photos');
+
+  it('reads the GPS position and camera tags of a JPEG', async () => {
+    const result = await parseMapFile(path.join(PHOTOS_DIR, 'IMG_2041.jpg'));
+
+    expect(result.success).toBe(true);
+    expect(result.fileType).toBe('photo');
+    expect(result.points).toHaveLength(1);
+    expect(result.points[0]).toMatchObject({
+      name: 'IMG_2041.jpg',
+      description: 'Mill race below the dam',
+      lat: 42.1701,
+      lng: -78.7402,
+      category: 'photo',
+      time: '2024-05-03T18:22:10.000Z',
+      sources: [{ file: 'IMG_2041.jpg', format: 'photo', featureIndex: 0 }],
+    });
+    expect(result.points[0].rawMetadata).toMatchObject({
+      Make: 'Apple',
+      Model: 'iPhone 13',
+      LensModel: 'iPhone 13 back dual wide camera 5.1mm f/1.6',
+      DateTimeOriginal: '2024:05:03 14:22:10',
+      FNumber: 1.6,
+      elevation: 431.25,
+      direction: 212.5,
+    });
+  });
+
+  it('reads the Exif item of a HEIC and falls back to the GPS time', async () => {
+    const result = await parseMapFile(path.join(PHOTOS_DIR, 'IMG_2042.heic'));
+
+    expect(result.points[0]).toMatchObject({
+      name: 'IMG_2042.heic',
+      lat: 42.8864,
+      lng: -78.8784,
+      time: '2024-05-03T14:41:05.000Z',
+      rawMetadata: { Make: 'samsung', elevation: -2.5 },
+    });
+  });
+
+  it('warns about photos without a GPS fix', async () => {
+    const result = await parseMapFile(path.join(PHOTOS_DIR, 'IMG_2043.jpg'));
+
+    expect(result.success).toBe(true);
+    expect(result.points).toEqual([]);
+    expect(result.warnings).toEqual([
+      { reason: 'no GPS position in EXIF', featureIndex: 0, name: 'IMG_2043.jpg' },
+    ]);
+  });
+});
+
+// ============================================================================
+// GOOGLE TAKEOUT PARSING
+// ============================================================================
+
+describe('Google Takeout parsing', () => {
+  it('reads nested location fields from Saved Places', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'takeout-saved-places.json'));
+
+    expect(result.success).toBe(true);
+    const mill = result.points[0];
+    expect(mill.name).toBe('Smith Bros. Mill');
+    expect(mill.description).toBe('120 Mill St, Olean, NY 14760, USA');
+    expect(mill.category).toBe('saved');
+    expect(mill.rawMetadata).toEqual({
+      date: '2023-05-12T14:22:31Z',
+      google_maps_url: 'http://maps.google.com/?cid=1234567890123456789',
+      address: '120 Mill St, Olean, NY 14760, USA',
+      country_code: 'US',
+      name: 'Smith Bros. Mill',
+    });
+  });
+
+  it('falls back to Maps URL coordinates for [0, 0] places and skips the rest', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'takeout-saved-places.json'));
+
+    expect(result.points.map(p => p.name)).toEqual(['Smith Bros. Mill', 'Erie Depot', 'Ischua Creamery']);
+    expect(result.points[1].lat).toBe(42.0869);
+    expect(result.points[1].lng).toBe(-78.4297);
+    expect(result.points[1].description).toBe('Check the freight house too');
+  });
+
+  it('reads the legacy Location/Business Name layout', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'takeout-saved-places.json'));
+    const creamery = result.points[2];
+
+    expect(creamery.lat).toBe(42.5001);
+    expect(creamery.rawMetadata?.['Address']).toBe('Route 16, Franklinville, NY');
+    expect(creamery.rawMetadata?.['Published']).toBe('2019-08-01T12:00:00Z');
+  });
+
+  it('takes list CSV coordinates from Maps URLs', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'takeout-want-to-go.csv'));
+
+    expect(result.success).toBe(true);
+    expect(result.points.map(p => p.name)).toEqual(['Smith Bros. Mill', 'Dropped Pin', 'Ischua Creamery']);
+    // The place pin (!3d!4d) wins over the viewport center (@)
+    expect(result.points[0].lat).toBe(42.17015);
+    expect(result.points[0].description).toBe('Three floors');
+    expect(result.points[1].lng).toBe(-78.4297);
+    expect(result.points[2].rawMetadata?.['URL']).toContain('@42.5001,-78.0001');
+  });
+});
+
+// ============================================================================
+// OSM XML PARSING
+// ============================================================================
+
+describe('OSM XML parsing', () => {
+  it('turns tagged nodes into points and ways into centroids', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'extract.osm'));
+
+    expect(result.success).toBe(true);
+    expect(result.fileType).toBe('osm');
+    expect(result.points.map(p => p.name)).toEqual([
+      'Smith Bros. Mill', 'Erie Depot', 'Main Street Cafe', 'Olean Tannery', 'Erie Branch',
+    ]);
+
+    const tannery = result.points[3];
+    expect(tannery.lat).toBeCloseTo(42.155, 6);
+    expect(tannery.lng).toBeCloseTo(-78.695, 6);
+    expect(tannery.geometry?.type).toBe('Polygon');
+    expect(result.points[4].geometry?.type).toBe('LineString');
+  });
+
+  it('stores all tags in rawMetadata with the OSM id', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'extract.osm'));
+
+    expect(result.points[0].rawMetadata).toEqual({
+      '@id': 'node/1001',
+      historic: 'ruins',
+      name: 'Smith Bros. Mill',
+      ruins: 'industrial',
+    });
+    expect(result.points[0].category).toBe('historic=ruins');
+    expect(result.points[1].category).toBe('disused:railway=station');
+  });
+
+  it('skips untagged ways (relation members) without a warning', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'extract.osm'));
+    const ids = result.points.map(p => p.rawMetadata?.['@id']);
+
+    expect(ids).not.toContain('way/800');
+    expect(ids).not.toContain('way/801');
+    expect(result.points.some(p => p.category === 'way')).toBe(false);
+    expect(result.warnings.map(w => w.name)).toEqual(['way/700']);
+  });
+
+  it('applies a tag filter expression', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'extract.osm'), {
+      osm: { filter: 'historic=ruins | disused:* | railway=abandoned' },
+    });
+
+    expect(result.points.map(p => p.name)).toEqual(['Smith Bros. Mill', 'Erie Depot', 'Erie Branch']);
+  });
+
+  it('reports invalid filter expressions', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'extract.osm'), {
+      osm: { filter: 'historic=|' },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Invalid OSM filter');
+  });
+});
+
+describe('compileOSMFilter', () => {
+  const tags = { building: 'industrial', abandoned: 'yes', name: 'Olean Tannery' };
+
+  it('matches presence, values and wildcards', () => {
+    expect(compileOSMFilter('building')(tags)).toBe(true);
+    expect(compileOSMFilter('building=house,industrial')(tags)).toBe(true);
+    expect(compileOSMFilter('aband*')(tags)).toBe(true);
+    expect(compileOSMFilter('historic')(tags)).toBe(false);
+  });
+
+  it('supports negation, regex and AND', () => {
+    expect(compileOSMFilter('building & !historic')(tags)).toBe(true);
+    expect(compileOSMFilter('building!=industrial')(tags)).toBe(false);
+    expect(compileOSMFilter('name~tannery & abandoned=yes')(tags)).toBe(true);
+  });
+});
+
+// ============================================================================
+// SHAPEFILE PARSING
+// ============================================================================
+
+describe('Shapefile parsing', () => {
+  it('reads every layer of a zipped bundle', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'historic-sites.zip'));
+
+    expect(result.success).toBe(true);
+    expect(result.fileType).toBe('shapefile');
+    expect(result.points.map(p => p.name)).toEqual([
+      'Smith Bros. Mill', 'Château Ruins', 'Old Tannery Lot', 'Twin Silos',
+    ]);
+  });
+
+  it('reprojects UTM coordinates and keeps DBF attributes', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'historic-sites.zip'));
+    const mill = result.points[0];
+
+    expect(mill.lat).toBeCloseTo(42.1701, 5);
+    expect(mill.lng).toBeCloseTo(-78.7402, 5);
+    expect(mill.category).toBe('mill');
+    expect(mill.rawMetadata).toEqual({
+      SITE_NAME: 'Smith Bros. Mill',
+      TYPE: 'mill',
+      YEAR_BUILT: 1887,
+      SURVEYED: '2024-03-12',
+      ACTIVE: false,
+    });
+  });
+
+  it('keeps polygon holes with GeoJSON winding', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'historic-sites.zip'));
+    const lot = result.points[2];
+
+    expect(lot.geometry?.type).toBe('Polygon');
+    const rings = lot.geometry?.coordinates as number[][][];
+    expect(rings).toHaveLength(2);
+    expect(rings[0][1]).toEqual([-78.75, 42.15]);
+    expect(result.points[3].geometry?.type).toBe('MultiPolygon');
+  });
+
+  it('reads a standalone .shp with its sibling .dbf', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'trails.shp'));
+
+    expect(result.success).toBe(true);
+    expect(result.points).toHaveLength(2);
+    expect(result.points[0].description).toBe('Abandoned rail spur');
+    expect(result.points[0].geometry?.coordinates[0]).toEqual([-78.74, 42.17, 410]);
+    expect(result.points[1].geometry?.type).toBe('MultiLineString');
+  });
+
+  it('reports ZIP files without a shapefile', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'no-shapefile.zip'));
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('No .shp file found');
+  });
+});
+
+// ============================================================================
+// TIMESTAMPS
+// ============================================================================
+
+describe('parseTimestamp', () => {
+  it('converts date-times to UTC', () => {
+    expect(parseTimestamp('2023-09-02T14:30:00-04:00')).toBe('2023-09-02T18:30:00.000Z');
+    expect(parseTimestamp('2024-05-04T09:00:00Z')).toBe('2024-05-04T09:00:00.000Z');
+    expect(parseTimestamp('2024-05-04T09:00:00')).toBe('2024-05-04T09:00:00.000Z');
+  });
+
+  it('keeps reduced-precision dates', () => {
+    expect(parseTimestamp('2024')).toBe('2024');
+    expect(parseTimestamp('2024-05')).toBe('2024-05');
+    expect(parseTimestamp(' 2024-05-04 ')).toBe('2024-05-04');
+  });
+
+  it('rejects invalid timestamps', () => {
+    expect(parseTimestamp('sometime')).toBeNull();
+    expect(parseTimestamp('2024-13')).toBeNull();
+    expect(parseTimestamp('2023-02-29')).toBeNull();
+    expect(parseTimestamp('')).toBeNull();
+  });
+});
+
+describe('getTimestampRange', () => {
+  it('covers the whole period of a reduced-precision date', () => {
+    expect(getTimestampRange('2024-02')).toEqual([Date.UTC(2024, 1, 1), Date.UTC(2024, 2, 1) - 1]);
+    expect(getTimestampRange('2024')).toEqual([Date.UTC(2024, 0, 1), Date.UTC(2025, 0, 1) - 1]);
+  });
+});
+
+describe('KML and GPX times', () => {
+  it('reads TimeStamp and TimeSpan', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'timeline.kml'));
+    const byName = new Map(result.points.map(p => [p.name, p]));
+
+    expect(byName.get('Willard Asylum')!.time).toBe('2023-09-02T18:30:00.000Z');
+    expect(byName.get('Letchworth Village')).toMatchObject({ timeStart: '2024-05', timeEnd: '2024-06-15' });
+    expect(byName.get('Gowanda Campus')!.timeStart).toBe('2024-08-01');
+    expect(byName.get('Gowanda Campus')!.timeEnd).toBeUndefined();
+    expect(byName.get('Undated Mill')!.time).toBeUndefined();
+  });
+
+  it('takes track periods from gx:Track and trkpt times', async () => {
+    const kml = await parseMapFile(path.join(FIXTURES_DIR, 'nested.kml'));
+    const walk = kml.points.find(p => p.name === 'Morning Walk')!;
+    const gpx = await parseMapFile(path.join(FIXTURES_DIR, 'track.gpx'));
+    const track = gpx.points.find(p => p.category === 'track')!;
+
+    expect(walk).toMatchObject({ timeStart: '2024-05-04T09:00:00.000Z', timeEnd: '2024-05-04T09:10:00.000Z' });
+    expect(track.timeStart).toBe(track.rawMetadata!.startTime);
+    expect(track.timeEnd).toBe(track.rawMetadata!.endTime);
+  });
+});
+
+describe('filterPointsByTime', () => {
+  it('keeps points whose time overlaps the range', async () => {
+    const { points } = await parseMapFile(path.join(FIXTURES_DIR, 'timeline.kml'));
+    const names = (since?: string, until?: string) => filterPointsByTime(points, since, until).map(p => p.name);
+
+    expect(names('2024')).toEqual(['Letchworth Village', 'Gowanda Campus']);
+    expect(names('2024-06-16')).toEqual(['Gowanda Campus']);
+    expect(names(undefined, '2024-05')).toEqual(['Willard Asylum', 'Letchworth Village']);
+    expect(names('2030')).toEqual(['Gowanda Campus']);
+    expect(names()).toHaveLength(4);
+  });
+});
+
+// ============================================================================
+// PARSE WARNINGS
+// ============================================================================
+
+describe('parse warnings', () => {
+  it('reports skipped CSV rows with their line, row index and name', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'skipped-rows.csv'));
+
+    expect(result.success).toBe(true);
+    expect(result.points.map(p => p.name)).toEqual(['Willard Asylum', 'Two Line\nNotes', 'Last Good']);
+    expect(result.warnings).toEqual([
+      { reason: 'missing coordinates', line: 3, featureIndex: 1, name: 'Missing Coords' },
+      { reason: 'invalid coordinates "42.1O", "-75.91"', line: 4, featureIndex: 2, name: 'Typo Mill' },
+      { reason: 'invalid coordinates "142.5", "-75.0"', line: 8, featureIndex: 4, name: 'Out Of Range' },
+    ]);
+  });
+
+  it('reports KML placemarks without usable geometry', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'skipped.kml'));
+
+    expect(result.points).toHaveLength(2);
+    expect(result.warnings).toEqual([
+      { reason: 'missing geometry', line: 9, featureIndex: 1, name: 'Notes Only' },
+      { reason: 'invalid coordinates', line: 13, featureIndex: 2, name: 'Bad Coordinates' },
+    ]);
+  });
+
+  it('reports OSM ways whose nodes are all outside the extract', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'extract.osm'));
+
+    expect(result.warnings).toEqual([
+      { reason: 'way has no resolvable nodes', line: 44, featureIndex: 2, name: 'way/700' },
+    ]);
+  });
+
+  it('reports tables without coordinate columns', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'no-header.csv'));
+
+    expect(result.points).toHaveLength(0);
+    expect(result.warnings).toEqual([{ reason: 'no coordinate columns found in header', line: 1 }]);
+  });
+
+  it('passes warnings to onWarning as they happen', async () => {
+    const seen: string[] = [];
+    await parseMapFile(path.join(FIXTURES_DIR, 'skipped.kml'), { onWarning: w => seen.push(w.name!) });
+
+    expect(seen).toEqual(['Notes Only', 'Bad Coordinates']);
+  });
+
+  it('returns no warnings for clean files', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'sample.csv'));
+
+    expect(result.warnings).toEqual([]);
+  });
+});
+
+// ============================================================================
+// PROVENANCE
+// ============================================================================
+
+describe('point sources', () => {
+  it('records file, format, row and line for CSV rows', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'skipped-rows.csv'));
+
+    expect(result.points.map(p => p.sources)).toEqual([
+      [{ file: 'skipped-rows.csv', format: 'csv', featureIndex: 0, line: 2 }],
+      [{ file: 'skipped-rows.csv', format: 'csv', featureIndex: 3, line: 5 }],
+      [{ file: 'skipped-rows.csv', format: 'csv', featureIndex: 5, line: 9 }],
+    ]);
+  });
+
+  it('uses the native OSM id', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'extract.osm'));
+
+    expect(result.points[0].sources).toEqual([
+      { file: 'extract.osm', format: 'osm', featureIndex: 0, line: 4, id: 'node/1001' },
+    ]);
+  });
+
+  it('gives every point of a KML MultiGeometry the same placemark source', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'nested.kml'));
+    const gowanda = result.points.filter(p => p.name === 'Gowanda Campus');
+
+    expect(gowanda).toHaveLength(3);
+    for (const point of gowanda) {
+      expect(point.sources).toEqual([{ file: 'nested.kml', format: 'kml', featureIndex: 0, line: 11 }]);
+    }
+  });
+
+  it('reads feature id columns', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'survey-ids.csv'));
+
+    expect(result.points.map(p => p.sources?.[0].id)).toEqual(['A-17', 'A-18']);
+  });
+});
+
 // ============================================================================
 // ERROR HANDLING
 // ============================================================================
@@ -336,6 +1463,18 @@ describe('error handling', () => {
     expect(result.error).toBeDefined();
   });
 
+  it('reports a corrupt archive as that file\'s error', async () => {
+    const result = await parseMapFile(path.join(FIXTURES_DIR, 'corrupt.kmz'));
+
+    expect(result.success).toBe(false);
+    expect(result.fileType).toBe('kmz');
+    expect(result.error).toBeDefined();
+
+    const [good, bad] = await parseMapFiles([path.join(FIXTURES_DIR, 'sample.kml'), path.join(FIXTURES_DIR, 'corrupt.kmz')]);
+    expect(good.points).toHaveLength(5);
+    expect(bad.success).toBe(false);
+  });
+
   it('handles malformed XML gracefully', async () => {
     const result = await parseMapFile(path.join(FIXTURES_DIR, 'invalid.kml'));
 
@@ -410,4 +1549,15 @@ describe('mergeParseResults', () => {
     expect(merged.errors.length).toBe(1);
     expect(merged.errors[0].file).toBe('does-not-exist.gpx');
   });
+
+  it('collects warnings with their file name', async () => {
+    const results = await parseMapFiles([
+      path.join(FIXTURES_DIR, 'sample.csv'),
+      path.join(FIXTURES_DIR, 'skipped.kml'),
+    ]);
+    const merged = mergeParseResults(results);
+
+    expect(merged.warnings).toHaveLength(2);
+    expect(merged.warnings[0]).toMatchObject({ file: 'skipped.kml', name: 'Notes Only' });
+  });
 });
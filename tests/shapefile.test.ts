@@ -0,0 +1,106 @@
+/**
+ * Shapefile Reader Tests
+ *
+ * Tests .prj parsing and the .shp/.dbf readers. End-to-end parsing of the
+ * fixture bundles is covered in parser.test.ts.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parsePrj, readShapefile } from '../src/shapefile.js';
+
+const UTM_17N_PRJ = 'PROJCS["NAD_1983_UTM_Zone_17N",GEOGCS["GCS_North_American_1983",' +
+  'DATUM["D_North_American_1983",SPHEROID["GRS_1980",6378137.0,298.257222101]],' +
+  'PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]],PROJECTION["Transverse_Mercator"],' +
+  'PARAMETER["False_Easting",500000.0],PARAMETER["False_Northing",0.0],PARAMETER["Central_Meridian",-81.0],' +
+  'PARAMETER["Scale_Factor",0.9996],PARAMETER["Latitude_Of_Origin",0.0],UNIT["Meter",1.0]]';
+
+/**
+ * Build a single-record Point .shp buffer
+ */
+function pointShapefile(x: number, y: number): Buffer {
+  const buffer = Buffer.alloc(128);
+  buffer.writeInt32BE(9994, 0);
+  buffer.writeInt32BE(64, 24);
+  buffer.writeInt32LE(1000, 28);
+  buffer.writeInt32LE(1, 32);
+  [x, y, x, y].forEach((value, i) => buffer.writeDoubleLE(value, 36 + i * 8));
+  buffer.writeInt32BE(1, 100);
+  buffer.writeInt32BE(10, 104);
+  buffer.writeInt32LE(1, 108);
+  buffer.writeDoubleLE(x, 112);
+  buffer.writeDoubleLE(y, 120);
+  return buffer;
+}
+
+// ============================================================================
+// PRJ PARSING
+// ============================================================================
+
+describe('parsePrj', () => {
+  it('returns null for geographic coordinate systems', () => {
+    expect(parsePrj('GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]]]')).toBeNull();
+  });
+
+  it('reads projection parameters and ellipsoid', () => {
+    const projection = parsePrj(UTM_17N_PRJ);
+
+    expect(projection?.method).toBe('transverse_mercator');
+    expect(projection?.centralMeridian).toBe(-81);
+    expect(projection?.scaleFactor).toBe(0.9996);
+    expect(projection?.falseEasting).toBe(500000);
+    expect(projection?.ellipsoid.f).toBeCloseTo(1 / 298.257222101, 12);
+  });
+
+  it('reads linear units for state plane feet', () => {
+    const projection = parsePrj(
+      'PROJCS["NAD_1983_StatePlane_New_York_West_FIPS_3103_Feet",GEOGCS["GCS_North_American_1983",' +
+      'DATUM["D_North_American_1983",SPHEROID["GRS_1980",6378137.0,298.257222101]]],' +
+      'PROJECTION["Transverse_Mercator"],PARAMETER["False_Easting",1148291.666666667],' +
+      'PARAMETER["Central_Meridian",-78.58333333333333],PARAMETER["Scale_Factor",0.9999375],' +
+      'PARAMETER["Latitude_Of_Origin",40.0],UNIT["Foot_US",0.3048006096012192]]'
+    );
+
+    expect(projection?.unit).toBeCloseTo(0.3048006096, 9);
+    expect(projection?.latitudeOfOrigin).toBe(40);
+  });
+
+  it('treats Web Mercator as spherical', () => {
+    const projection = parsePrj(
+      'PROJCS["WGS_1984_Web_Mercator_Auxiliary_Sphere",GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",' +
+      'SPHEROID["WGS_1984",6378137.0,298.257223563]]],PROJECTION["Mercator_Auxiliary_Sphere"],' +
+      'PARAMETER["Standard_Parallel_1",0.0],UNIT["Meter",1.0]]'
+    );
+
+    expect(projection?.method).toBe('mercator');
+    expect(projection?.ellipsoid.f).toBe(0);
+  });
+
+  it('throws for unsupported projections', () => {
+    expect(() => parsePrj('PROJCS["Polar",GEOGCS["WGS84"],PROJECTION["Polar_Stereographic"]]'))
+      .toThrow('Unsupported shapefile projection: Polar_Stereographic');
+  });
+});
+
+// ============================================================================
+// SHP READING
+// ============================================================================
+
+describe('readShapefile', () => {
+  it('reprojects points using the .prj', () => {
+    const [record] = [...readShapefile({ shp: pointShapefile(686656.87, 4671134.35), prj: UTM_17N_PRJ })];
+
+    expect(record.geometry?.type).toBe('Point');
+    const [lng, lat] = record.geometry?.coordinates as number[];
+    expect(lat).toBeCloseTo(42.1701, 3);
+    expect(lng).toBeCloseTo(-78.7402, 3);
+  });
+
+  it('rejects projected coordinates without a .prj', () => {
+    expect(() => [...readShapefile({ shp: pointShapefile(686656.87, 4671134.35) })])
+      .toThrow('no .prj file');
+  });
+
+  it('rejects files without a shapefile header', () => {
+    expect(() => [...readShapefile({ shp: Buffer.alloc(120) })]).toThrow('bad .shp header');
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Streaming Parser Tests
+ *
+ * Tests the incremental KML/GPX/GeoJSON/CSV readers against the
+ * whole-file parser and across chunk boundaries.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as path from 'path';
+import { parseMapFile } from '../src/parser.js';
+import {
+  scanXMLElements,
+  parseMapFileStream,
+  parseMapFileStreamed,
+  shouldStreamFile,
+} from '../src/stream-parser.js';
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+
+async function* chunked(text: string, size: number): AsyncGenerator<string> {
+  for (let i = 0; i < text.length; i += size) {
+    yield text.slice(i, i + size);
+  }
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+}
+
+// ============================================================================
+// XML SCANNER
+// ============================================================================
+
+describe('scanXMLElements', () => {
+  const xml = `<?xml version="1.0"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <!-- a <Placemark> in a comment is ignored -->
+    <Folder>
+      <name>Mills &amp; Dams</name>
+      <Placemark><name><![CDATA[Old <Mill>]]></name></Placemark>
+      <Placemark attr="a>b"/>
+    </Folder>
+  </Document>
+</kml>`;
+
+  it('captures elements with ancestor folder names', async () => {
+    const elements = await collect(scanXMLElements(chunked(xml, 1000), ['Placemark']));
+
+    expect(elements).toHaveLength(2);
+    expect(elements[0].xml).toBe('<Placemark><name><![CDATA[Old <Mill>]]></name></Placemark>');
+    expect(elements[0].ancestors.map(a => a.tag)).toEqual(['Document', 'Folder']);
+    expect(elements[0].ancestors[1].name).toBe('Mills & Dams');
+    expect(elements[0].rootTag).toBe('<kml xmlns="http://www.opengis.net/kml/2.2">');
+    expect(elements[1].xml).toBe('<Placemark attr="a>b"/>');
+    expect(elements.map(e => e.line)).toEqual([7, 8]);
+  });
+
+  it('produces the same result for single-character chunks', async () => {
+    const whole = await collect(scanXMLElements(chunked(xml, 1000), ['Placemark']));
+    const tiny = await collect(scanXMLElements(chunked(xml, 1), ['Placemark']));
+
+    expect(tiny).toEqual(whole);
+  });
+});
+
+// ============================================================================
+// FORMAT PARITY
+// ============================================================================
+
+describe('parseMapFileStream', () => {
+  const fixtures = [
+    'sample.kml',
+    'styles.kml',
+    'nested.kml',
+    'kml-export.xml',
+    'shared-map.zip',
+    'shared-waypoint',
+    'points.txt',
+    'excel-cp1252.csv',
+    'excel-utf16.csv',
+    'cyrillic-1251.kml',
+    'sample.gpx',
+    'track.gpx',
+    'extensions.gpx',
+    'sample.geojson',
+    'geometries.geojson',
+    'footprints.geojson',
+    'single-feature.geojson',
+    'empty.geojson',
+    'sample.csv',
+    'tabs.csv',
+    'semicolon.csv',
+    'takeout-saved-places.json',
+    'takeout-want-to-go.csv',
+    'extract.osm',
+    'historic-sites.zip',
+    'trails.shp',
+    'survey-ids.csv',
+    'timeline.kml',
+    'trip-stops.csv',
+    'volunteers.xlsx',
+    'photos/IMG_2041.jpg',
+    'photos/IMG_2042.heic',
+    'mapsh-pit-fields.gpx',
+    'features.geojsonl',
+  ];
+
+  for (const fixture of fixtures) {
+    it(`matches parseMapFile for ${fixture}`, async () => {
+      const filePath = path.join(FIXTURES_DIR, fixture);
+      const whole = await parseMapFile(filePath);
+      const streamed = await collect(parseMapFileStream(filePath));
+
+      expect(streamed).toEqual(whole.points);
+    });
+  }
+
+  for (const fixture of ['skipped-rows.csv', 'skipped.kml', 'extract.osm', 'trip-stops.csv', 'volunteers.xlsx', 'photos/IMG_2043.jpg', 'features.geojsonl']) {
+    it(`reports the same warnings as parseMapFile for ${fixture}`, async () => {
+      const filePath = path.join(FIXTURES_DIR, fixture);
+      const whole = await parseMapFile(filePath);
+      const streamed = await parseMapFileStreamed(filePath);
+
+      expect(whole.warnings.length).toBeGreaterThan(0);
+      expect(streamed.points).toEqual(whole.points);
+      expect(streamed.warnings).toEqual(whole.warnings);
+    });
+  }
+
+  it('applies CSV column options', async () => {
+    const filePath = path.join(FIXTURES_DIR, 'collab.csv');
+    const options = { csv: { latColumn: 'GPS Lat', lngColumn: 'GPS Lng', nameColumn: 'Site' } };
+    const whole = await parseMapFile(filePath, options);
+    const streamed = await collect(parseMapFileStream(filePath, options));
+
+    expect(streamed).toHaveLength(2);
+    expect(streamed).toEqual(whole.points);
+  });
+
+  it('applies OSM tag filters', async () => {
+    const filePath = path.join(FIXTURES_DIR, 'extract.osm');
+    const options = { osm: { filter: 'railway=abandoned|disused:*' } };
+    const whole = await parseMapFile(filePath, options);
+    const streamed = await collect(parseMapFileStream(filePath, options));
+
+    expect(streamed).toHaveLength(2);
+    expect(streamed).toEqual(whole.points);
+  });
+
+  it('throws for unsupported file types', async () => {
+    await expect(collect(parseMapFileStream('/fake/path/file.txt'))).rejects.toThrow('Unsupported file type');
+  });
+});
+
+describe('parseMapFileStreamed', () => {
+  it('returns a parse result', async () => {
+    const result = await parseMapFileStreamed(path.join(FIXTURES_DIR, 'sample.kml'));
+
+    expect(result.success).toBe(true);
+    expect(result.fileType).toBe('kml');
+    expect(result.fileName).toBe('sample.kml');
+    expect(result.points.length).toBe(5);
+  });
+
+  it('reports corrupt archives as errors', async () => {
+    const result = await parseMapFileStreamed(path.join(FIXTURES_DIR, 'corrupt.kmz'));
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBeDefined();
+  });
+
+  it('reports missing files as errors', async () => {
+    const result = await parseMapFileStreamed(path.join(FIXTURES_DIR, 'does-not-exist.gpx'));
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBeDefined();
+  });
+});
+
+describe('shouldStreamFile', () => {
+  it('compares file size against the threshold', () => {
+    const filePath = path.join(FIXTURES_DIR, 'sample.kml');
+
+    expect(shouldStreamFile(filePath)).toBe(false);
+    expect(shouldStreamFile(filePath, 1)).toBe(true);
+    expect(shouldStreamFile(path.join(FIXTURES_DIR, 'missing.kml'), 1)).toBe(false);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * WKT / WKB Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseWKT, parseWKB, toWKT } from '../src/wkt.js';
+
+// ============================================================================
+// WKT READER
+// ============================================================================
+
+describe('parseWKT', () => {
+  it('parses points and lines', () => {
+    expect(parseWKT('POINT(-78.7 42.1)')).toEqual({ type: 'Point', coordinates: [-78.7, 42.1] });
+    expect(parseWKT('  point ( -78.7  42.1 ) ')).toEqual({ type: 'Point', coordinates: [-78.7, 42.1] });
+    expect(parseWKT('LINESTRING(-78.1 42.1, -78.2 42.2)')).toEqual({
+      type: 'LineString',
+      coordinates: [[-78.1, 42.1], [-78.2, 42.2]],
+    });
+  });
+
+  it('parses polygons and multi-geometries', () => {
+    expect(parseWKT('POLYGON((0 0, 4 0, 4 4, 0 4, 0 0), (1 1, 2 1, 2 2, 1 1))')).toEqual({
+      type: 'Polygon',
+      coordinates: [
+        [[0, 0], [4, 0], [4, 4], [0, 4], [0, 0]],
+        [[1, 1], [2, 1], [2, 2], [1, 1]],
+      ],
+    });
+    expect(parseWKT('MULTIPOLYGON(((0 0, 1 0, 0 1, 0 0)), ((5 5, 6 5, 5 6, 5 5)))')?.type).toBe('MultiPolygon');
+    expect(parseWKT('MULTILINESTRING((0 0, 1 1), (2 2, 3 3))')).toEqual({
+      type: 'MultiLineString',
+      coordinates: [[[0, 0], [1, 1]], [[2, 2], [3, 3]]],
+    });
+  });
+
+  it('accepts both MULTIPOINT member forms', () => {
+    const expected = { type: 'MultiPoint', coordinates: [[1, 2], [3, 4]] };
+    expect(parseWKT('MULTIPOINT(1 2, 3 4)')).toEqual(expected);
+    expect(parseWKT('MULTIPOINT((1 2), (3 4))')).toEqual(expected);
+  });
+
+  it('parses geometry collections, dropping EMPTY members', () => {
+    expect(parseWKT('GEOMETRYCOLLECTION(POINT(1 2), LINESTRING EMPTY, LINESTRING(0 0, 1 1))')).toEqual({
+      type: 'GeometryCollection',
+      geometries: [
+        { type: 'Point', coordinates: [1, 2] },
+        { type: 'LineString', coordinates: [[0, 0], [1, 1]] },
+      ],
+    });
+  });
+
+  it('keeps Z and drops M values', () => {
+    expect(parseWKT('POINT Z (1 2 300)')).toEqual({ type: 'Point', coordinates: [1, 2, 300] });
+    expect(parseWKT('POINT M (1 2 99)')).toEqual({ type: 'Point', coordinates: [1, 2] });
+    expect(parseWKT('POINT ZM (1 2 300 99)')).toEqual({ type: 'Point', coordinates: [1, 2, 300] });
+    // PostGIS EWKT has no tag: a third number is Z
+    expect(parseWKT('POINT(1 2 300)')).toEqual({ type: 'Point', coordinates: [1, 2, 300] });
+  });
+
+  it('accepts geographic SRID prefixes only', () => {
+    expect(parseWKT('SRID=4326;POINT(-78.7 42.1)')).toEqual({ type: 'Point', coordinates: [-78.7, 42.1] });
+    expect(parseWKT('SRID=0;POINT(-78.7 42.1)')).not.toBeNull();
+    expect(parseWKT('SRID=3857;POINT(-8761000 5184000)')).toBeNull();
+  });
+
+  it('returns null for EMPTY and malformed input', () => {
+    expect(parseWKT('POINT EMPTY')).toBeNull();
+    expect(parseWKT('POINT(1)')).toBeNull();
+    expect(parseWKT('POINT(1 2')).toBeNull();
+    expect(parseWKT('POINT(1 2) trailing')).toBeNull();
+    expect(parseWKT('CIRCLE(1 2 3)')).toBeNull();
+    expect(parseWKT('')).toBeNull();
+  });
+});
+
+// ============================================================================
+// WKB READER
+// ============================================================================
+
+describe('parseWKB', () => {
+  it('reads PostGIS EWKB hex with an SRID', () => {
+    expect(parseWKB('0101000020E610000035EF3845477A53C0D93D7958A85D4540')).toEqual({
+      type: 'Point',
+      coordinates: [-77.9106, 42.7317],
+    });
+    expect(parseWKB('\\x0101000020E610000035EF3845477A53C0D93D7958A85D4540')?.type).toBe('Point');
+  });
+
+  it('reads big-endian ISO WKB with Z', () => {
+    const hex = '00000003ea00000002c05386666666666640450ccccccccccd4072c00000000000'
+      + 'c0538ccccccccccd404519999999999a4073600000000000';
+    expect(parseWKB(hex)).toEqual({
+      type: 'LineString',
+      coordinates: [[-78.1, 42.1, 300], [-78.2, 42.2, 310]],
+    });
+  });
+
+  it('reads multi-geometries from bytes', () => {
+    const hex = '0106000000010000000103000000010000000400000000000000000000000000000000000000'
+      + '000000000000f03f00000000000000000000000000000000000000000000f03f00000000000000000000000000000000';
+    expect(parseWKB(Buffer.from(hex, 'hex'))).toEqual({
+      type: 'MultiPolygon',
+      coordinates: [[[[0, 0], [1, 0], [0, 1], [0, 0]]]],
+    });
+  });
+
+  it('returns null for empty points, projected SRIDs and bad input', () => {
+    expect(parseWKB('0101000000000000000000f87f000000000000f87f')).toBeNull();
+    expect(parseWKB('0101000020110f0000000000000000f03f0000000000000040')).toBeNull();
+    expect(parseWKB('0101000020E610000035EF3845477A53C0')).toBeNull();
+    expect(parseWKB('not hex')).toBeNull();
+  });
+});
+
+// ============================================================================
+// WKT WRITER
+// ============================================================================
+
+describe('toWKT', () => {
+  it('writes each geometry type', () => {
+    expect(toWKT({ type: 'Point', coordinates: [-78.7, 42.1] })).toBe('POINT (-78.7 42.1)');
+    expect(toWKT({ type: 'LineString', coordinates: [[0, 0], [1, 1]] })).toBe('LINESTRING (0 0, 1 1)');
+    expect(toWKT({ type: 'MultiPolygon', coordinates: [[[[0, 0], [1, 0], [0, 1], [0, 0]]]] }))
+      .toBe('MULTIPOLYGON (((0 0, 1 0, 0 1, 0 0)))');
+    expect(toWKT({ type: 'GeometryCollection', geometries: [] })).toBe('GEOMETRYCOLLECTION EMPTY');
+  });
+
+  it('writes Z only when every position has an altitude', () => {
+    expect(toWKT({ type: 'LineString', coordinates: [[0, 0, 5], [1, 1, 6]] })).toBe('LINESTRING Z (0 0 5, 1 1 6)');
+    expect(toWKT({ type: 'LineString', coordinates: [[0, 0, 5], [1, 1]] })).toBe('LINESTRING (0 0, 1 1)');
+  });
+
+  it('round-trips through parseWKT', () => {
+    const wkt = 'GEOMETRYCOLLECTION (POINT (1 2), POLYGON ((0 0, 4 0, 4 4, 0 0)), MULTIPOINT (5 6, 7 8))';
+    expect(toWKT(parseWKT(wkt)!)).toBe(wkt);
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * XLSX Reader Tests
+ *
+ * Tests cell decoding and sheet selection. Conversion of sheets to points
+ * is covered in parser.test.ts.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as path from 'path';
+import { readXLSX } from '../src/xlsx.js';
+
+const WORKBOOK = path.join(__dirname, 'fixtures', 'volunteers.xlsx');
+
+describe('readXLSX', () => {
+  it('lists sheets in workbook order with their row numbers', async () => {
+    const sheets = await readXLSX(WORKBOOK);
+
+    expect(sheets.map(s => s.name)).toEqual(['Stops', 'Read Me', 'Archive']);
+    // Row 4 only has a styled empty cell
+    expect(sheets[0].rows.map(r => r.number)).toEqual([1, 2, 3, 5, 6]);
+    expect(sheets[0].rows[0].values).toEqual(['Name', 'Latitude', 'Longitude', 'Visited', 'Notes', 'ID']);
+  });
+
+  it('decodes shared, rich, inline and boolean cells', async () => {
+    const [stops] = await readXLSX(WORKBOOK);
+
+    // Rich text runs are joined; phonetic hints are dropped
+    expect(stops.rows[1].values[4]).toBe('Roof gone');
+    expect(stops.rows[2].values[4]).toBe('Freight & passenger');
+    expect(stops.rows[4].values).toEqual(['Canal Lock', '43.08', '-78.05', '', 'TRUE']);
+  });
+
+  it('converts date-formatted numbers to ISO 8601 and keeps other numbers as stored', async () => {
+    const [stops] = await readXLSX(WORKBOOK);
+
+    expect(stops.rows[1].values.slice(1, 4)).toEqual(['42.1701', '-78.7402', '2023-07-16']);
+    expect(stops.rows[2].values[3]).toBe('2023-10-01T12:00:00');
+  });
+
+  it('reads prefixed namespaces, cells without references and formula results', async () => {
+    const [archive] = await readXLSX(WORKBOOK, 'Archive');
+
+    expect(archive.rows).toEqual([
+      { number: 1, values: ['Name', 'Coordinates'] },
+      { number: 2, values: ['Old Bridge', '42.5, -78.2'] },
+    ]);
+  });
+
+  it('selects sheets by name or number', async () => {
+    expect((await readXLSX(WORKBOOK, 'read me')).map(s => s.name)).toEqual(['Read Me']);
+    expect((await readXLSX(WORKBOOK, '3')).map(s => s.name)).toEqual(['Archive']);
+    await expect(readXLSX(WORKBOOK, '4')).rejects.toThrow('Sheet not found: 4');
+  });
+});